@@ -0,0 +1,149 @@
+/**
+ * Authority Check
+ * Broker authority type, age and BMC-84/85 bond (reads the record the fmcsa check fetched)
+ */
+
+import type { FMCSACarrier } from '../services/fmcsaClient';
+import type { AuthorityPolicy } from '../services/policyService';
+import type { CheckFinding, VerificationCheck } from '../services/checkPipeline';
+import { fmcsaCarrier } from './fmcsa';
+
+export const authorityCheck: VerificationCheck = {
+  name: 'authority',
+  dependencies: ['fmcsa'],
+  enabled: policy => policy.checks.authority.enabled,
+  async evaluate({ load, policy, evaluated_at, dependencies }) {
+    const { min_age_days, require_broker_authority, require_bond } = policy.checks.authority;
+    const result = verifyAuthority(load.broker_mc, evaluated_at, policy.checks.authority, fmcsaCarrier(dependencies));
+    const { carrier } = result;
+    return {
+      risk: result.risk,
+      findings: result.findings,
+      metadata: { authority_check: result.details },
+      evidence: {
+        result: result.details.status,
+        inputs: {
+          broker_mc: load.broker_mc,
+          evaluated_at: new Date(evaluated_at).toISOString(),
+          authority_age_days: result.details.authority_age_days ?? null,
+        },
+        thresholds: { min_age_days, require_broker_authority, require_bond },
+        ...(carrier && {
+          sources: {
+            fmcsa: {
+              broker_authority: carrier.authority?.broker ?? null,
+              broker_status: carrier.authority?.broker_status ?? null,
+              common_status: carrier.authority?.common_status ?? null,
+              contract_status: carrier.authority?.contract_status ?? null,
+              authority_granted_at: carrier.authority?.granted_at ?? null,
+              bond_required: carrier.insurance?.bond_required ?? null,
+              bond_on_file: carrier.insurance?.bond_on_file ?? null,
+              docket_numbers: carrier.docket_numbers ?? [],
+            },
+          },
+        }),
+      },
+    };
+  },
+};
+
+// Broker authority verification - authority type, age and BMC-84/85 bond
+function verifyAuthority(mcNumber: string, evaluatedAt: number, policy: AuthorityPolicy, carrier: FMCSACarrier | undefined): {
+  risk: number;
+  findings: CheckFinding[];
+  carrier?: FMCSACarrier;
+  details: {
+    status: string;
+    broker_authority?: boolean | null;
+    authority_age_days?: number | null;
+    bond_on_file?: boolean | null;
+    docket_numbers?: string[];
+  };
+} {
+  // Missing or failed FMCSA data is already reported by the FMCSA check
+  if (!carrier) {
+    return { risk: 0, findings: [], details: { status: 'SKIPPED' } };
+  }
+
+  const { authority, insurance } = carrier;
+  const findings: CheckFinding[] = [];
+  let risk = 0;
+
+  const ageDays = authority?.granted_at
+    ? Math.floor((evaluatedAt - Date.parse(authority.granted_at)) / 86400000)
+    : null;
+
+  if (!authority) {
+    risk = Math.max(risk, 0.3);
+    findings.push({
+      code: 'AUTHORITY_UNKNOWN',
+      severity: policy.severity.unknown,
+      params: { mc_number: mcNumber },
+    });
+  } else {
+    const hasBrokerAuthority = authority.broker && (!authority.broker_status || authority.broker_status === 'A');
+
+    if (policy.require_broker_authority && !hasBrokerAuthority) {
+      risk = 1;
+      findings.push({
+        code: 'AUTHORITY_NOT_BROKER',
+        severity: policy.severity.no_broker_authority,
+        params: {
+          mc_number: mcNumber,
+          legal_name: carrier.legal_name,
+          broker_status: authority.broker_status || 'NONE',
+          common_status: authority.common_status,
+          contract_status: authority.contract_status,
+        },
+      });
+    }
+
+    if (ageDays === null) {
+      risk = Math.max(risk, 0.1);
+      findings.push({
+        code: 'AUTHORITY_AGE_UNKNOWN',
+        severity: policy.severity.unknown,
+        params: { mc_number: mcNumber },
+      });
+    } else if (ageDays < policy.min_age_days) {
+      risk = Math.max(risk, 0.6);
+      findings.push({
+        code: 'AUTHORITY_TOO_NEW',
+        severity: policy.severity.new_authority,
+        params: {
+          mc_number: mcNumber,
+          granted_at: authority.granted_at,
+          age_days: ageDays,
+          min_age_days: policy.min_age_days,
+        },
+      });
+    }
+  }
+
+  if (policy.require_bond && insurance?.bond_on_file === false) {
+    risk = Math.max(risk, 0.6);
+    findings.push({
+      code: 'BROKER_BOND_MISSING',
+      severity: policy.severity.no_bond,
+      params: { mc_number: mcNumber, bond_required: insurance.bond_required },
+    });
+  }
+
+  let status = findings.some(f => f.severity !== 'info') ? 'FLAGGED' : 'PASSED';
+  if (findings.some(f => f.code === 'AUTHORITY_NOT_BROKER')) {
+    status = 'FAILED';
+  }
+
+  return {
+    risk,
+    findings,
+    carrier,
+    details: {
+      status,
+      broker_authority: authority ? authority.broker : null,
+      authority_age_days: ageDays,
+      bond_on_file: insurance?.bond_on_file ?? null,
+      docket_numbers: carrier.docket_numbers,
+    },
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Broker Data Check
+ * Submitted credit_score reconciled against a secondary broker data source, plus the source's
+ * days-to-pay and complaint counts. Only runs once a provider is configured (BROKER_DATA_PROVIDER), or a
+ * simulation supplies recorded profiles.
+ */
+
+import { BrokerDataUnavailableError, BrokerProfile } from '../services/brokerData';
+import type { BrokerDataPolicy } from '../services/policyService';
+import type { LoadVerificationInput } from '../services/verificationService';
+import type { BrokerDataSource, CheckFinding, VerificationCheck } from '../services/checkPipeline';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'checks' });
+
+export const brokerDataCheck: VerificationCheck = {
+  name: 'broker_data',
+  enabled: (policy, sources) => policy.checks.broker_data.enabled && sources.broker_data.isConfigured(),
+  async evaluate({ load, policy, sources }) {
+    const { max_credit_discrepancy, max_days_to_pay, max_complaints } = policy.checks.broker_data;
+    const result = await verifyBrokerData(load, policy.checks.broker_data, sources.broker_data);
+    const { profile } = result;
+    return {
+      risk: result.risk,
+      findings: result.findings,
+      metadata: {
+        broker_data_check: {
+          status: result.status,
+          ...(profile && { profile, credit_difference: result.creditDifference }),
+        },
+      },
+      evidence: {
+        result: result.status,
+        inputs: {
+          broker_mc: load.broker_mc,
+          credit_score: load.credit_score,
+          credit_difference: result.creditDifference,
+        },
+        thresholds: { max_credit_discrepancy, max_days_to_pay, max_complaints },
+        ...(profile && {
+          sources: {
+            [profile.source]: {
+              credit_score: profile.credit_score,
+              credit_rating: profile.credit_rating,
+              days_to_pay: profile.days_to_pay,
+              complaint_count: profile.complaint_count,
+              as_of: profile.as_of,
+            },
+          },
+        }),
+      },
+    };
+  },
+};
+
+// Secondary source verification - a source with no record for the MC is no evidence either way
+async function verifyBrokerData(load: LoadVerificationInput, policy: BrokerDataPolicy, brokerData: BrokerDataSource): Promise<{
+  status: 'PASSED' | 'FLAGGED' | 'NO_RECORD' | 'UNAVAILABLE';
+  risk: number;
+  findings: CheckFinding[];
+  profile?: BrokerProfile;
+  // Submitted minus source credit score; null when the source has no score
+  creditDifference: number | null;
+}> {
+  let profile: BrokerProfile | null;
+
+  try {
+    profile = await brokerData.lookup(load.broker_mc);
+  } catch (error) {
+    log.error('broker data lookup failed', { mc_number: load.broker_mc, error });
+    return {
+      status: 'UNAVAILABLE',
+      risk: 0.2,
+      creditDifference: null,
+      findings: [{
+        code: 'BROKER_DATA_UNAVAILABLE',
+        severity: policy.severity.unavailable,
+        params: { source: error instanceof BrokerDataUnavailableError ? error.source : 'unknown' },
+      }],
+    };
+  }
+
+  if (!profile) {
+    return { status: 'NO_RECORD', risk: 0, findings: [], creditDifference: null };
+  }
+
+  const findings: CheckFinding[] = [];
+  let risk = 0;
+
+  const creditDifference = profile.credit_score !== null
+    ? Math.round((load.credit_score - profile.credit_score) * 10) / 10
+    : null;
+
+  // Either direction is suspect, though inflated scores are the usual manipulation
+  if (creditDifference !== null && Math.abs(creditDifference) > policy.max_credit_discrepancy) {
+    risk = Math.max(risk, Math.min(1, 0.5 + Math.abs(creditDifference) / 100));
+    findings.push({
+      code: 'CREDIT_SCORE_MISMATCH',
+      severity: policy.severity.credit_mismatch,
+      params: {
+        submitted_score: load.credit_score,
+        source_score: profile.credit_score,
+        difference: creditDifference,
+        max_difference: policy.max_credit_discrepancy,
+        source: profile.source,
+      },
+    });
+  }
+
+  if (profile.days_to_pay !== null && profile.days_to_pay > policy.max_days_to_pay) {
+    risk = Math.max(risk, 0.4);
+    findings.push({
+      code: 'BROKER_SLOW_PAY',
+      severity: policy.severity.slow_pay,
+      params: {
+        mc_number: load.broker_mc,
+        days_to_pay: profile.days_to_pay,
+        max_days_to_pay: policy.max_days_to_pay,
+        source: profile.source,
+      },
+    });
+  }
+
+  if (profile.complaint_count !== null && profile.complaint_count > policy.max_complaints) {
+    risk = Math.max(risk, 0.4);
+    findings.push({
+      code: 'BROKER_COMPLAINTS',
+      severity: policy.severity.complaints,
+      params: {
+        mc_number: load.broker_mc,
+        complaint_count: profile.complaint_count,
+        max_complaints: policy.max_complaints,
+        source: profile.source,
+      },
+    });
+  }
+
+  return {
+    status: findings.length > 0 ? 'FLAGGED' : 'PASSED',
+    risk,
+    findings,
+    profile,
+    creditDifference,
+  };
+}
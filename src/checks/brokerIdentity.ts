@@ -0,0 +1,85 @@
+/**
+ * Broker Identity Check
+ * Submitted broker_name against the FMCSA legal/DBA names (reads the record the fmcsa check fetched)
+ */
+
+import type { FMCSACarrier } from '../services/fmcsaClient';
+import { matchBrokerName, NameMatch } from '../services/brokerIdentity';
+import type { BrokerIdentityPolicy } from '../services/policyService';
+import type { LoadVerificationInput } from '../services/verificationService';
+import { listOf, CheckFinding, VerificationCheck } from '../services/checkPipeline';
+import { fmcsaCarrier } from './fmcsa';
+
+export const brokerIdentityCheck: VerificationCheck = {
+  name: 'broker_identity',
+  dependencies: ['fmcsa'],
+  enabled: policy => policy.checks.broker_identity.enabled,
+  async evaluate({ load, policy, dependencies }) {
+    const result = verifyBrokerIdentity(load, policy.checks.broker_identity, fmcsaCarrier(dependencies));
+    return {
+      risk: result.risk,
+      findings: listOf(result.finding),
+      metadata: {
+        broker_identity_check: result.status,
+        ...(result.match && { carrier_info: { identity_match: result.match } }),
+      },
+      evidence: {
+        result: result.status,
+        inputs: {
+          broker_name: load.broker_name,
+          ...(result.match && { matched_name: result.match.matched_name, similarity: result.match.similarity }),
+        },
+        thresholds: { match_threshold: policy.checks.broker_identity.match_threshold },
+        ...(result.carrier && {
+          sources: { fmcsa: { legal_name: result.carrier.legal_name, dba_name: result.carrier.dba_name ?? null } },
+        }),
+      },
+    };
+  },
+};
+
+// Broker identity verification - submitted broker_name vs FMCSA legal/DBA names
+function verifyBrokerIdentity(load: LoadVerificationInput, policy: BrokerIdentityPolicy, carrier: FMCSACarrier | undefined): {
+  status: string;
+  risk: number;
+  match?: NameMatch & { submitted_name: string };
+  carrier?: FMCSACarrier;
+  finding?: CheckFinding;
+} {
+  // Missing or failed FMCSA data is already reported by the FMCSA check
+  const match = carrier && matchBrokerName(load.broker_name, carrier.legal_name, carrier.dba_name);
+
+  if (!carrier || !match) {
+    return { status: 'SKIPPED', risk: 0 };
+  }
+
+  const identity = { submitted_name: load.broker_name, ...match };
+
+  if (match.similarity < policy.match_threshold) {
+    return {
+      status: 'MISMATCH',
+      risk: Math.max(0.5, 1 - match.similarity),
+      match: identity,
+      carrier,
+      finding: {
+        code: 'BROKER_NAME_MISMATCH',
+        severity: policy.severity.mismatch,
+        params: {
+          mc_number: load.broker_mc,
+          submitted_name: load.broker_name,
+          legal_name: carrier.legal_name,
+          dba_name: carrier.dba_name ?? null,
+          matched_name: match.matched_name,
+          similarity: match.similarity,
+        },
+      },
+    };
+  }
+
+  return {
+    status: 'MATCHED',
+    risk: 0,
+    match: identity,
+    carrier,
+  };
+}
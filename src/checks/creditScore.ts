@@ -0,0 +1,64 @@
+/**
+ * Credit Score Check
+ * Submitted broker credit score against the policy's acceptable range
+ */
+
+import type { CreditScorePolicy } from '../services/policyService';
+import { listOf, CheckFinding, VerificationCheck } from '../services/checkPipeline';
+
+export const creditScoreCheck: VerificationCheck = {
+  name: 'credit_score',
+  enabled: policy => policy.checks.credit_score.enabled,
+  async evaluate({ load, policy }) {
+    const { min, max } = policy.checks.credit_score;
+    const result = verifyCreditScore(load.credit_score, policy.checks.credit_score);
+    return {
+      risk: result.risk,
+      findings: listOf(result.finding),
+      metadata: { credit_score_check: result.status },
+      evidence: {
+        result: result.status,
+        inputs: { credit_score: load.credit_score },
+        thresholds: { min, max },
+      },
+    };
+  },
+};
+
+// Credit score verification
+function verifyCreditScore(score: number, policy: CreditScorePolicy): {
+  status: string;
+  risk: number;
+  finding?: CheckFinding;
+} {
+  if (score < policy.min) {
+    return {
+      status: 'FAILED',
+      risk: 1,
+      finding: {
+        code: 'CREDIT_BELOW_MIN',
+        severity: policy.severity.below_min,
+        params: { score, min: policy.min },
+      },
+    };
+  }
+
+  if (score > policy.max) {
+    return {
+      status: 'SUSPICIOUS',
+      risk: 0.6,
+      finding: {
+        code: 'CREDIT_ABOVE_MAX',
+        severity: policy.severity.above_max,
+        params: { score, max: policy.max },
+      },
+    };
+  }
+
+  // Within range: residual risk shrinks as the score approaches the upper bound
+  const span = policy.max - policy.min;
+  return {
+    status: 'PASSED',
+    risk: span > 0 ? ((policy.max - score) / span) * 0.4 : 0,
+  };
+}
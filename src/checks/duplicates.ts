@@ -0,0 +1,106 @@
+/**
+ * Duplicates Check
+ * Double-brokered lanes and reused load IDs (indexes the load for later submissions)
+ */
+
+import { checkAndIndexLoad, RecentLoadIndex } from '../services/duplicateDetection';
+import type { DuplicatePolicy } from '../services/policyService';
+import type { LoadVerificationInput } from '../services/verificationService';
+import type { CheckFinding, VerificationCheck } from '../services/checkPipeline';
+
+export const duplicatesCheck: VerificationCheck = {
+  name: 'duplicates',
+  enabled: policy => policy.checks.duplicates.enabled,
+  async evaluate({ load, policy, client_name, sources }) {
+    const { window_minutes, rate_tolerance } = policy.checks.duplicates;
+    const result = await verifyDuplicates(load, client_name, policy.checks.duplicates, sources.recent_loads);
+    return {
+      risk: result.risk,
+      findings: result.findings,
+      metadata: { duplicate_check: result.details },
+      evidence: {
+        result: result.details.status,
+        inputs: {
+          load_id: load.load_id,
+          pickup_city: load.pickup_city,
+          delivery_city: load.delivery_city,
+          equipment: load.equipment,
+          rate: load.rate,
+          matching_load_ids: result.details.matching_load_ids,
+        },
+        thresholds: { window_minutes, rate_tolerance },
+      },
+    };
+  },
+};
+
+// Same lane posted by other MCs within the window, or a load_id reused with different contents
+async function verifyDuplicates(
+  load: LoadVerificationInput,
+  clientName: string | null,
+  policy: DuplicatePolicy,
+  index: RecentLoadIndex
+): Promise<{
+  risk: number;
+  findings: CheckFinding[];
+  details: { status: string; matching_load_ids: string[]; [key: string]: unknown };
+}> {
+  const { fingerprint, match } = await checkAndIndexLoad(load, clientName, policy, index);
+  const findings: CheckFinding[] = [];
+  let risk = 0;
+
+  const otherMcs = Array.from(new Set(match.lane_matches.map(m => m.broker_mc)));
+
+  if (otherMcs.length > 0) {
+    // Each additional MC on the same lane makes an innocent coincidence less likely
+    risk = Math.min(1, 0.5 + 0.25 * otherMcs.length);
+    findings.push({
+      code: 'LOAD_DOUBLE_BROKERED',
+      severity: policy.severity.double_brokered,
+      params: {
+        other_mc_count: otherMcs.length,
+        other_mcs: otherMcs.join(', '),
+        window_minutes: policy.window_minutes,
+      },
+    });
+  }
+
+  if (match.reused_load_id) {
+    risk = Math.max(risk, 0.5);
+    findings.push({
+      code: 'LOAD_ID_REUSED',
+      severity: policy.severity.load_id_reused,
+      params: {
+        load_id: load.load_id,
+        changed_fields: match.reused_load_id.changed_fields.join(', '),
+      },
+    });
+  }
+
+  // Other clients' postings count towards the finding, but their load_ids and rates are theirs alone
+  const ownMatches = match.lane_matches.filter(m => m.client_name === clientName);
+
+  return {
+    risk,
+    findings,
+    details: {
+      status: findings.length > 0 ? 'FLAGGED' : 'PASSED',
+      fingerprint,
+      matching_load_ids: ownMatches.map(m => m.load_id),
+      other_client_matches: match.lane_matches.length - ownMatches.length,
+      matching_loads: ownMatches.map(m => ({
+        load_id: m.load_id,
+        broker_mc: m.broker_mc,
+        rate: m.rate,
+        posted_at: new Date(m.posted_at).toISOString(),
+      })),
+      ...(match.reused_load_id && {
+        reused_load_id: {
+          load_id: match.reused_load_id.previous.load_id,
+          previous_broker_mc: match.reused_load_id.previous.broker_mc,
+          changed_fields: match.reused_load_id.changed_fields,
+        },
+      }),
+    },
+  };
+}
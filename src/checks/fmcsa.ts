@@ -0,0 +1,176 @@
+/**
+ * FMCSA Check
+ * MC number validation against the FMCSA carrier registry
+ */
+
+import { FMCSACarrier, FMCSALookup, FMCSAUnavailableError } from '../services/fmcsaClient';
+import type { FMCSAPolicy } from '../services/policyService';
+import { listOf, CarrierSource, CheckFinding, CheckOutcome, EvidenceValue, VerificationCheck } from '../services/checkPipeline';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'checks' });
+
+// Covers the base lookup plus the authority/docket follow-up requests
+const FMCSA_CHECK_TIMEOUT_MS = 15000;
+
+export const fmcsaCheck: VerificationCheck = {
+  name: 'fmcsa',
+  timeout_ms: FMCSA_CHECK_TIMEOUT_MS,
+  enabled: policy => policy.checks.fmcsa.enabled,
+  async evaluate({ load, policy, sources }) {
+    const result = await verifyFMCSA(load.broker_mc, policy.checks.fmcsa, sources.fmcsa);
+    return {
+      risk: result.risk,
+      findings: listOf(result.finding),
+      metadata: {
+        fmcsa_status: result.status,
+        ...(result.carrier && { carrier_info: result.carrier }),
+        ...(result.cache && { fmcsa_cache: result.cache }),
+      },
+      evidence: {
+        result: result.status,
+        inputs: { broker_mc: load.broker_mc },
+        thresholds: {},
+        ...(result.cache && { sources: { fmcsa: fmcsaEvidence(result.cache, result.carrier) } }),
+      },
+    };
+  },
+};
+
+// The record the fmcsa check resolved, for the checks that depend on it - they must not look it up again,
+// or a failing FMCSA is asked (and trips the breaker) once per dependent check
+export function fmcsaCarrier(dependencies: ReadonlyMap<string, CheckOutcome>): FMCSACarrier | undefined {
+  return dependencies.get('fmcsa')?.metadata.carrier_info as FMCSACarrier | undefined;
+}
+
+// Registry fields the status decision rests on, and how old the record was
+function fmcsaEvidence(cache: FMCSALookup['cache'], carrier?: FMCSACarrier): Record<string, EvidenceValue> {
+  return {
+    record_found: !!carrier,
+    ...(carrier && {
+      legal_name: carrier.legal_name,
+      dot_number: carrier.dot_number,
+      status: carrier.status,
+      allowed_to_operate: carrier.allowed_to_operate,
+      out_of_service: carrier.out_of_service,
+      out_of_service_date: carrier.out_of_service_date,
+    }),
+    cache_status: cache.status,
+    fetched_at: cache.fetched_at,
+  };
+}
+
+// FMCSA API verification
+async function verifyFMCSA(mcNumber: string, policy: FMCSAPolicy, fmcsa: CarrierSource): Promise<{
+  status: string;
+  risk: number;
+  carrier?: FMCSACarrier;
+  cache?: FMCSALookup['cache'];
+  finding?: CheckFinding;
+}> {
+  if (!fmcsa.isConfigured()) {
+    log.warn('FMCSA_API_KEY not configured - skipping FMCSA check');
+    return {
+      status: 'SKIPPED',
+      risk: 0.5,
+      finding: {
+        code: 'FMCSA_NOT_CONFIGURED',
+        severity: policy.severity.unavailable,
+        params: {},
+      },
+    };
+  }
+
+  let lookup: FMCSALookup;
+
+  try {
+    lookup = await fmcsa.lookup(mcNumber);
+  } catch (error) {
+    if (error instanceof FMCSAUnavailableError && error.kind === 'TIMEOUT') {
+      return {
+        status: 'TIMEOUT',
+        risk: 0.5,
+        finding: {
+          code: 'FMCSA_TIMEOUT',
+          severity: policy.severity.unavailable,
+          params: { mc_number: mcNumber },
+        },
+      };
+    }
+
+    // An open circuit breaker reports as an error - FMCSA was not asked this time
+    return {
+      status: error instanceof FMCSAUnavailableError && error.kind === 'CIRCUIT_OPEN' ? 'CIRCUIT_OPEN' : 'ERROR',
+      risk: 0.5,
+      finding: {
+        code: 'FMCSA_ERROR',
+        severity: policy.severity.unavailable,
+        params: { mc_number: mcNumber },
+      },
+    };
+  }
+
+  const { carrier, cache } = lookup;
+
+  if (!lookup.found || !carrier) {
+    return {
+      status: 'NOT_FOUND',
+      risk: 1,
+      cache,
+      finding: {
+        code: 'FMCSA_NOT_FOUND',
+        severity: policy.severity.not_found,
+        params: { mc_number: mcNumber },
+      },
+    };
+  }
+
+  if (!carrier.allowed_to_operate) {
+    return {
+      status: 'NOT_AUTHORIZED',
+      risk: 1,
+      carrier,
+      cache,
+      finding: {
+        code: 'FMCSA_NOT_AUTHORIZED',
+        severity: policy.severity.not_authorized,
+        params: { mc_number: mcNumber, legal_name: carrier.legal_name, status: carrier.status },
+      },
+    };
+  }
+
+  if (carrier.out_of_service) {
+    return {
+      status: 'OUT_OF_SERVICE',
+      risk: 1,
+      carrier,
+      cache,
+      finding: {
+        code: 'FMCSA_OUT_OF_SERVICE',
+        severity: policy.severity.out_of_service,
+        params: { mc_number: mcNumber, legal_name: carrier.legal_name },
+      },
+    };
+  }
+
+  if (cache.status === 'STALE') {
+    return {
+      status: 'ACTIVE',
+      risk: 0.2,
+      carrier,
+      cache,
+      finding: {
+        code: 'FMCSA_STALE_RECORD',
+        severity: policy.severity.stale,
+        params: { mc_number: mcNumber, fetched_at: cache.fetched_at, age_seconds: cache.age_seconds },
+      },
+    };
+  }
+
+  return {
+    status: 'ACTIVE',
+    risk: 0,
+    carrier,
+    cache,
+  };
+}
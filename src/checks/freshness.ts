@@ -0,0 +1,86 @@
+/**
+ * Freshness Check
+ * How long ago the load was posted
+ */
+
+import type { FreshnessPolicy } from '../services/policyService';
+import { listOf, CheckFinding, VerificationCheck } from '../services/checkPipeline';
+
+export const freshnessCheck: VerificationCheck = {
+  name: 'freshness',
+  enabled: policy => policy.checks.freshness.enabled,
+  async evaluate({ load, policy, evaluated_at }) {
+    const { warning_minutes, reject_minutes, future_tolerance_minutes } = policy.checks.freshness;
+    const result = verifyLoadFreshness(load.posted_at, evaluated_at, policy.checks.freshness);
+    return {
+      risk: result.risk,
+      findings: listOf(result.finding),
+      metadata: { load_age_minutes: result.ageMinutes },
+      evidence: {
+        result: result.finding?.code || 'FRESH',
+        inputs: {
+          posted_at: load.posted_at,
+          evaluated_at: new Date(evaluated_at).toISOString(),
+          age_minutes: result.ageMinutes,
+        },
+        thresholds: { warning_minutes, reject_minutes, future_tolerance_minutes },
+      },
+    };
+  },
+};
+
+// Load freshness verification
+function verifyLoadFreshness(postedAt: string, evaluatedAt: number, policy: FreshnessPolicy): {
+  ageMinutes: number;
+  risk: number;
+  finding?: CheckFinding;
+} {
+  const postedTime = new Date(postedAt).getTime();
+  const rawAgeMinutes = Math.floor((evaluatedAt - postedTime) / 1000 / 60);
+
+  // A timestamp ahead of the evaluation time is never "fresh": small skew counts as just posted,
+  // anything further ahead is flagged rather than passing with a negative age
+  if (-rawAgeMinutes > policy.future_tolerance_minutes) {
+    return {
+      ageMinutes: rawAgeMinutes,
+      risk: 0.5,
+      finding: {
+        code: 'LOAD_POSTED_IN_FUTURE',
+        severity: policy.severity.future,
+        params: { minutes_ahead: -rawAgeMinutes, tolerance_minutes: policy.future_tolerance_minutes },
+      },
+    };
+  }
+
+  const ageMinutes = Math.max(0, rawAgeMinutes);
+
+  if (ageMinutes > policy.reject_minutes) {
+    return {
+      ageMinutes,
+      risk: 1,
+      finding: {
+        code: 'LOAD_STALE',
+        severity: policy.severity.stale,
+        params: { age_minutes: ageMinutes, reject_minutes: policy.reject_minutes },
+      },
+    };
+  }
+
+  if (ageMinutes > policy.warning_minutes) {
+    const window = policy.reject_minutes - policy.warning_minutes;
+    return {
+      ageMinutes,
+      risk: 0.3 + (window > 0 ? ((ageMinutes - policy.warning_minutes) / window) * 0.4 : 0),
+      finding: {
+        code: 'LOAD_AGING',
+        severity: policy.severity.aging,
+        params: { age_minutes: ageMinutes, warning_minutes: policy.warning_minutes },
+      },
+    };
+  }
+
+  return {
+    ageMinutes,
+    risk: policy.warning_minutes > 0 ? (ageMinutes / policy.warning_minutes) * 0.3 : 0,
+  };
+}
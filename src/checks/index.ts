@@ -0,0 +1,48 @@
+/**
+ * Built-in Verification Checks
+ * Default check registry used by verifyLoad - register custom checks here
+ */
+
+import { CheckRegistry, VerificationCheck } from '../services/checkPipeline';
+import { listsCheck } from './lists';
+import { duplicatesCheck } from './duplicates';
+import { creditScoreCheck } from './creditScore';
+import { brokerDataCheck } from './brokerData';
+import { fmcsaCheck } from './fmcsa';
+import { freshnessCheck } from './freshness';
+import { brokerIdentityCheck } from './brokerIdentity';
+import { authorityCheck } from './authority';
+import { rateCheck } from './rate';
+
+// Evaluation order when dependencies allow it: lists first so a blocklisted broker never
+// costs an FMCSA call, and its waivers apply to every later check
+export const BUILT_IN_CHECKS: VerificationCheck[] = [
+  listsCheck,
+  duplicatesCheck,
+  creditScoreCheck,
+  brokerDataCheck,
+  fmcsaCheck,
+  freshnessCheck,
+  brokerIdentityCheck,
+  authorityCheck,
+  rateCheck,
+];
+
+export const checkRegistry = new CheckRegistry(BUILT_IN_CHECKS);
+
+// Add a check to the default registry - it runs after the built-ins unless dependencies say otherwise
+export function registerCheck(check: VerificationCheck): void {
+  checkRegistry.register(check);
+}
+
+export {
+  listsCheck,
+  duplicatesCheck,
+  creditScoreCheck,
+  brokerDataCheck,
+  fmcsaCheck,
+  freshnessCheck,
+  brokerIdentityCheck,
+  authorityCheck,
+  rateCheck,
+};
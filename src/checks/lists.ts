@@ -0,0 +1,93 @@
+/**
+ * Lists Check
+ * Internal block/allow lists - runs first so a blocklisted broker never costs an FMCSA call
+ */
+
+import { matchLoad, ListMatch } from '../services/brokerLists';
+import type { CheckSeverity, ListsPolicy } from '../services/policyService';
+import type { ReasonCode } from '../services/reasonCodes';
+import type { LoadVerificationInput } from '../services/verificationService';
+import type { CheckFinding, VerificationCheck } from '../services/checkPipeline';
+
+// Only an MC entry vouches for the authority itself. Names and contact details come from the caller, so
+// a match on them must not waive the finding that catches an impersonator using a partner's name.
+const MC_ONLY_WAIVES: ReasonCode[] = ['BROKER_NAME_MISMATCH'];
+
+export const listsCheck: VerificationCheck = {
+  name: 'lists',
+  enabled: policy => policy.checks.lists.enabled,
+  async evaluate({ load, policy }) {
+    const result = await verifyLists(load, policy.checks.lists);
+    return {
+      risk: result.risk,
+      findings: result.findings,
+      metadata: {
+        list_check: {
+          status: result.status,
+          matches: result.matches,
+          ...(result.waives.length > 0 && { waives: result.waives }),
+        },
+      },
+      waives: result.waives,
+      evidence: {
+        result: result.status,
+        inputs: {
+          broker_mc: load.broker_mc,
+          broker_name: load.broker_name,
+          broker_phone: load.broker_phone ?? null,
+          broker_email: load.broker_email ?? null,
+          matched_entries: result.matches.map(m => ({ entry_id: m.entry_id, list: m.list, field: m.field, reason: m.reason })),
+        },
+        thresholds: { waivable: policy.checks.lists.waivable },
+      },
+    };
+  },
+};
+
+// Internal lists - a block hit rejects; an allow hit waives the findings the policy lets it waive
+async function verifyLists(load: LoadVerificationInput, policy: ListsPolicy): Promise<{
+  status: 'BLOCKED' | 'ALLOWED' | 'NO_MATCH';
+  risk: number;
+  findings: CheckFinding[];
+  matches: ListMatch[];
+  waives: ReasonCode[];
+}> {
+  const matches = await matchLoad(load);
+  const blocked = matches.filter(m => m.list === 'block');
+  const allowed = matches.filter(m => m.list === 'allow');
+
+  const toFinding = (match: ListMatch, code: ReasonCode, severity: CheckSeverity): CheckFinding => ({
+    code,
+    severity,
+    params: { field: match.field, value: match.value, entry_id: match.entry_id },
+  });
+
+  // A block always wins over an allow for the same load
+  if (blocked.length > 0) {
+    return {
+      status: 'BLOCKED',
+      risk: 1,
+      findings: blocked.map(m => toFinding(m, 'BROKER_BLOCKLISTED', policy.severity.blocked)),
+      matches,
+      waives: [],
+    };
+  }
+
+  if (allowed.length > 0) {
+    const waives = new Set(
+      allowed.flatMap(m => (m.waives || policy.waivable)
+        .filter(code => policy.waivable.includes(code))
+        .filter(code => m.field === 'mc' || !MC_ONLY_WAIVES.includes(code)))
+    );
+
+    return {
+      status: 'ALLOWED',
+      risk: 0,
+      findings: allowed.map(m => toFinding(m, 'BROKER_ALLOWLISTED', 'info')),
+      matches,
+      waives: Array.from(waives),
+    };
+  }
+
+  return { status: 'NO_MATCH', risk: 0, findings: [], matches, waives: [] };
+}
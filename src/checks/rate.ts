@@ -0,0 +1,125 @@
+/**
+ * Rate Check
+ * Rate-per-mile against offline lane distance estimates and equipment benchmarks
+ */
+
+import { canonicalEquipment, estimateLane } from '../services/rateCheck';
+import type { RatePolicy } from '../services/policyService';
+import type { LoadVerificationInput } from '../services/verificationService';
+import { listOf, CheckFinding, VerificationCheck } from '../services/checkPipeline';
+
+export const rateCheck: VerificationCheck = {
+  name: 'rate',
+  enabled: policy => policy.checks.rate.enabled,
+  async evaluate({ load, policy }) {
+    const { circuity_factor, short_haul_miles, implausible_multiplier } = policy.checks.rate;
+    const result = verifyRate(load, policy.checks.rate);
+    const { status, equipment, miles, rate_per_mile, benchmark } = result.details;
+    return {
+      risk: result.risk,
+      findings: listOf(result.finding),
+      metadata: { rate_check: result.details },
+      evidence: {
+        result: status,
+        inputs: {
+          rate: load.rate,
+          equipment: equipment ?? load.equipment,
+          pickup_city: load.pickup_city,
+          delivery_city: load.delivery_city,
+          estimated_miles: miles ?? null,
+          rate_per_mile: rate_per_mile ?? null,
+        },
+        thresholds: {
+          low_rpm: benchmark?.low_rpm ?? null,
+          high_rpm: benchmark?.high_rpm ?? null,
+          implausible_multiplier,
+          short_haul_miles,
+          circuity_factor,
+        },
+      },
+    };
+  },
+};
+
+// Rate reasonableness verification
+function verifyRate(load: LoadVerificationInput, policy: RatePolicy): {
+  risk: number;
+  finding?: CheckFinding;
+  details: {
+    status: string;
+    equipment?: string;
+    miles?: number;
+    rate_per_mile?: number;
+    benchmark?: { low_rpm: number; high_rpm: number };
+  };
+} {
+  const equipment = canonicalEquipment(load.equipment);
+  const benchmark = equipment ? policy.benchmarks[equipment] : undefined;
+
+  if (!equipment || !benchmark) {
+    return {
+      risk: 0.15,
+      details: { status: 'UNKNOWN_EQUIPMENT' },
+      finding: {
+        code: 'RATE_EQUIPMENT_UNKNOWN',
+        severity: policy.severity.unknown_lane,
+        params: { equipment: load.equipment ?? null },
+      },
+    };
+  }
+
+  const lane = estimateLane(load.pickup_city, load.delivery_city, policy.circuity_factor);
+
+  if (!lane) {
+    return {
+      risk: 0.15,
+      details: { status: 'UNKNOWN_LANE', equipment },
+      finding: {
+        code: 'RATE_LANE_UNKNOWN',
+        severity: policy.severity.unknown_lane,
+        params: { pickup_city: load.pickup_city ?? null, delivery_city: load.delivery_city ?? null },
+      },
+    };
+  }
+
+  const ratePerMile = Math.round((load.rate / Math.max(lane.miles, policy.short_haul_miles)) * 100) / 100;
+  const details = { equipment, miles: lane.miles, rate_per_mile: ratePerMile, benchmark };
+  const params = { equipment, miles: lane.miles, rate: load.rate, rate_per_mile: ratePerMile, ...benchmark };
+
+  if (ratePerMile > benchmark.high_rpm * policy.implausible_multiplier) {
+    return {
+      risk: 1,
+      details: { status: 'IMPLAUSIBLY_HIGH', ...details },
+      finding: { code: 'RATE_IMPLAUSIBLY_HIGH', severity: policy.severity.implausibly_high, params },
+    };
+  }
+
+  if (ratePerMile < benchmark.low_rpm / policy.implausible_multiplier) {
+    return {
+      risk: 0.8,
+      details: { status: 'IMPLAUSIBLY_LOW', ...details },
+      finding: { code: 'RATE_IMPLAUSIBLY_LOW', severity: policy.severity.implausibly_low, params },
+    };
+  }
+
+  if (ratePerMile > benchmark.high_rpm) {
+    return {
+      risk: 0.5,
+      details: { status: 'ABOVE_MARKET', ...details },
+      finding: { code: 'RATE_ABOVE_MARKET', severity: policy.severity.above_market, params },
+    };
+  }
+
+  if (ratePerMile < benchmark.low_rpm) {
+    return {
+      risk: 0.4,
+      details: { status: 'BELOW_MARKET', ...details },
+      finding: { code: 'RATE_BELOW_MARKET', severity: policy.severity.below_market, params },
+    };
+  }
+
+  return {
+    risk: 0,
+    details: { status: 'WITHIN_MARKET', ...details },
+  };
+}
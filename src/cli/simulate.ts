@@ -0,0 +1,135 @@
+/**
+ * Policy Simulation CLI
+ * Replays a JSONL/CSV file of historical loads under a candidate policy and prints the verdict diff
+ *
+ * Usage:
+ *   npm run simulate -- --loads loads.jsonl --candidate strict
+ *   npm run simulate -- --loads loads.csv --candidate ./candidate.yaml --carriers carriers.json --out report.json
+ *
+ * Options:
+ *   --loads <file>      JSONL or CSV of LoadVerificationInput rows (optional evaluated_at column)
+ *   --candidate <id|file>  policy id, or a JSON/YAML policy file
+ *   --baseline <id|file>   defaults to the default policy
+ *   --carriers <file>   recorded FMCSA records keyed by MC (null = not found); omit for live lookups
+ *   --broker-profiles <file>  recorded broker data profiles keyed by MC (null = no record); omit for the configured provider
+ *   --mode <fast|exhaustive>  defaults to exhaustive
+ *   --out <file>        write the full JSON report here
+ */
+
+// Load .env before any service module reads its configuration at import time
+import 'dotenv/config';
+import fs from 'fs';
+import { getPolicy, loadPolicyFile, VerificationPolicy } from '../services/policyService';
+import { formatFromFileName, parseLoadFile } from '../services/loadFiles';
+import { runSimulation, BrokerProfileSnapshot, CarrierSnapshot, SimulationReport } from '../services/simulation';
+import { EvaluationMode } from '../services/verificationService';
+import { validateMode } from '../routes/requestHelpers';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) {
+      throw new Error(`Unexpected argument "${argv[i]}"`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+    i++;
+  }
+
+  return args;
+}
+
+// A path to an existing file is read as a policy document, anything else is a policy id
+async function resolvePolicy(ref: string | undefined): Promise<VerificationPolicy> {
+  return ref && fs.existsSync(ref) ? loadPolicyFile(ref) : getPolicy(ref);
+}
+
+function printReport(report: SimulationReport) {
+  const { baseline, candidate } = report.status_counts;
+
+  console.log(`\nPolicy simulation: ${report.baseline.id}@${report.baseline.version} -> ${report.candidate.id}@${report.candidate.version}`);
+  console.log(`Loads evaluated: ${report.evaluated} (${report.skipped.length} skipped) | FMCSA inputs: ${report.fmcsa_source} | broker data: ${report.broker_data_source} | mode: ${report.mode}\n`);
+
+  console.log('Status        Baseline  Candidate');
+  for (const [label, key] of [['APPROVED', 'approved'], ['NEEDS_REVIEW', 'needs_review'], ['REJECTED', 'rejected']] as const) {
+    console.log(`${label.padEnd(14)}${String(baseline[key]).padStart(8)}  ${String(candidate[key]).padStart(9)}`);
+  }
+
+  console.log('\nTransitions');
+  for (const t of report.transitions) {
+    console.log(`  ${t.from.padEnd(13)} -> ${t.to.padEnd(13)} ${t.count}`);
+  }
+
+  const movedReasons = report.reason_counts.filter(r => r.delta !== 0);
+  if (movedReasons.length > 0) {
+    console.log('\nReason counts that changed');
+    for (const r of movedReasons) {
+      console.log(`  ${r.code.padEnd(26)} ${String(r.baseline).padStart(6)} -> ${String(r.candidate).padEnd(6)} (${r.delta > 0 ? '+' : ''}${r.delta})`);
+    }
+  }
+
+  if (report.changed.length > 0) {
+    console.log(`\nChanged verdicts (${report.changed.length})`);
+    for (const c of report.changed.slice(0, 50)) {
+      const reasons = [...c.added_reasons.map(code => `+${code}`), ...c.removed_reasons.map(code => `-${code}`)].join(' ');
+      console.log(`  ${c.load_id}: ${c.from} -> ${c.to}${reasons ? `  ${reasons}` : ''}`);
+    }
+    if (report.changed.length > 50) {
+      console.log(`  ... ${report.changed.length - 50} more (see --out)`);
+    }
+  }
+
+  for (const s of report.skipped) {
+    console.log(`\n⚠️  Skipped row ${s.index + 1}${s.load_id ? ` (${s.load_id})` : ''}: ${s.error}`);
+  }
+
+  if (report.missing_inputs.fmcsa.length > 0) {
+    console.log(`\n⚠️  No recorded FMCSA data for MC ${report.missing_inputs.fmcsa.join(', ')}`);
+  }
+
+  if (report.missing_inputs.broker_data.length > 0) {
+    console.log(`\n⚠️  No recorded broker data for MC ${report.missing_inputs.broker_data.join(', ')}`);
+  }
+
+  console.log('');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.loads || !args.candidate) {
+    throw new Error('Usage: npm run simulate -- --loads <file.jsonl|file.csv> --candidate <policy id|file> [--baseline <policy id|file>] [--carriers <file.json>] [--broker-profiles <file.json>] [--mode fast|exhaustive] [--out <report.json>]');
+  }
+
+  const modeError = validateMode(args.mode);
+  if (modeError) throw new Error(modeError);
+
+  const rows = parseLoadFile(fs.readFileSync(args.loads, 'utf8'), formatFromFileName(args.loads));
+  const carriers: CarrierSnapshot | undefined = args.carriers
+    ? JSON.parse(fs.readFileSync(args.carriers, 'utf8'))
+    : undefined;
+  const brokerProfiles: BrokerProfileSnapshot | undefined = args['broker-profiles']
+    ? JSON.parse(fs.readFileSync(args['broker-profiles'], 'utf8'))
+    : undefined;
+
+  const report = await runSimulation({
+    loads: rows,
+    baseline: await resolvePolicy(args.baseline),
+    candidate: await resolvePolicy(args.candidate),
+    carriers,
+    broker_profiles: brokerProfiles,
+    mode: args.mode as EvaluationMode | undefined,
+  });
+
+  printReport(report);
+
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`Full report written to ${args.out}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+/**
+ * English reason messages
+ */
+
+import type { MessageCatalog } from '../services/reasonCodes';
+
+const en: MessageCatalog = {
+  CREDIT_BELOW_MIN: 'Credit score {score} below minimum threshold ({min})',
+  CREDIT_ABOVE_MAX: 'Credit score {score} unusually high - may indicate fake/manipulated score',
+  CREDIT_SCORE_MISMATCH: 'Submitted credit score {submitted_score} differs from {source} score {source_score} by {difference} points (limit {max_difference}) - possible tampering',
+  BROKER_SLOW_PAY: 'Broker MC {mc_number} pays in {days_to_pay} days on average ({source}; limit {max_days_to_pay})',
+  BROKER_COMPLAINTS: 'Broker MC {mc_number} has {complaint_count} complaints on file ({source}; limit {max_complaints})',
+  BROKER_DATA_UNAVAILABLE: 'Broker data source {source} unavailable - credit score not cross-checked',
+  FMCSA_NOT_CONFIGURED: 'FMCSA validation unavailable (API key not configured)',
+  FMCSA_TIMEOUT: 'FMCSA API timeout - broker verification incomplete',
+  FMCSA_ERROR: 'FMCSA API error - broker verification incomplete',
+  FMCSA_NOT_FOUND: 'MC number {mc_number} not found in FMCSA database',
+  FMCSA_NOT_AUTHORIZED: 'Carrier {mc_number} ({legal_name}) not authorized to operate',
+  FMCSA_OUT_OF_SERVICE: 'Carrier {mc_number} ({legal_name}) is out of service',
+  FMCSA_STALE_RECORD: 'FMCSA unavailable - using cached authority record from {fetched_at}',
+  BROKER_NAME_MISMATCH: 'Broker name "{submitted_name}" does not match FMCSA record for MC {mc_number} ("{matched_name}", similarity {similarity})',
+  AUTHORITY_NOT_BROKER: 'MC {mc_number} ({legal_name}) does not hold active broker authority (broker status: {broker_status})',
+  AUTHORITY_TOO_NEW: 'MC {mc_number} authority granted {age_days} days ago - newer than {min_age_days} day minimum',
+  AUTHORITY_UNKNOWN: 'MC {mc_number} authority record not available from FMCSA',
+  AUTHORITY_AGE_UNKNOWN: 'MC {mc_number} authority grant date not available from FMCSA',
+  BROKER_BOND_MISSING: 'MC {mc_number} has no BMC-84/85 broker surety bond or trust fund on file',
+  LOAD_AGING: 'Load posted {age_minutes} minutes ago - may be stale',
+  LOAD_STALE: 'Load posted {age_minutes} minutes ago - likely unavailable (>{reject_minutes}min threshold)',
+  LOAD_POSTED_IN_FUTURE: 'Load posted_at is {minutes_ahead} minutes in the future - clock skew or altered timestamp',
+  RATE_ABOVE_MARKET: 'Rate ${rate_per_mile}/mi is above the {equipment} market range (${low_rpm}-${high_rpm}/mi)',
+  RATE_BELOW_MARKET: 'Rate ${rate_per_mile}/mi is below the {equipment} market range (${low_rpm}-${high_rpm}/mi)',
+  RATE_IMPLAUSIBLY_HIGH: 'Rate ${rate_per_mile}/mi is implausibly high for {equipment} ({miles} mi lane) - common scam pattern',
+  RATE_IMPLAUSIBLY_LOW: 'Rate ${rate_per_mile}/mi is implausibly low for {equipment} ({miles} mi lane)',
+  RATE_LANE_UNKNOWN: 'Could not estimate lane distance for {pickup_city} to {delivery_city} - rate not benchmarked',
+  RATE_EQUIPMENT_UNKNOWN: 'No rate benchmark for equipment "{equipment}" - rate not benchmarked',
+  LOAD_DOUBLE_BROKERED: 'Same lane and equipment posted by {other_mc_count} other MC(s) ({other_mcs}) within {window_minutes} minutes - possible double brokering',
+  LOAD_ID_REUSED: 'Load ID {load_id} was previously submitted with different details ({changed_fields})',
+  BROKER_BLOCKLISTED: 'Broker is on the internal blocklist ({field} "{value}")',
+  BROKER_ALLOWLISTED: 'Broker is on the internal allowlist ({field} "{value}")',
+  CHECK_TIMEOUT: 'Check "{check}" timed out after {timeout_ms}ms - result incomplete',
+  CHECK_FAILED: 'Check "{check}" failed: {error}',
+  SYSTEM_ERROR: 'Verification system error: {error}',
+};
+
+export default en;
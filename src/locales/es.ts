@@ -0,0 +1,45 @@
+/**
+ * Spanish reason messages
+ */
+
+import type { MessageCatalog } from '../services/reasonCodes';
+
+const es: MessageCatalog = {
+  CREDIT_BELOW_MIN: 'Puntaje de crédito {score} por debajo del mínimo permitido ({min})',
+  CREDIT_ABOVE_MAX: 'Puntaje de crédito {score} inusualmente alto - puede indicar un puntaje falso o manipulado',
+  CREDIT_SCORE_MISMATCH: 'El puntaje de crédito enviado {submitted_score} difiere del puntaje de {source} ({source_score}) en {difference} puntos (límite {max_difference}) - posible manipulación',
+  BROKER_SLOW_PAY: 'El bróker MC {mc_number} paga en {days_to_pay} días en promedio ({source}; límite {max_days_to_pay})',
+  BROKER_COMPLAINTS: 'El bróker MC {mc_number} tiene {complaint_count} quejas registradas ({source}; límite {max_complaints})',
+  BROKER_DATA_UNAVAILABLE: 'Fuente de datos de brókers {source} no disponible - puntaje de crédito sin verificar',
+  FMCSA_NOT_CONFIGURED: 'Validación FMCSA no disponible (clave de API no configurada)',
+  FMCSA_TIMEOUT: 'Tiempo de espera agotado en la API de FMCSA - verificación del bróker incompleta',
+  FMCSA_ERROR: 'Error en la API de FMCSA - verificación del bróker incompleta',
+  FMCSA_NOT_FOUND: 'Número MC {mc_number} no encontrado en la base de datos de FMCSA',
+  FMCSA_NOT_AUTHORIZED: 'El transportista {mc_number} ({legal_name}) no está autorizado para operar',
+  FMCSA_OUT_OF_SERVICE: 'El transportista {mc_number} ({legal_name}) está fuera de servicio',
+  FMCSA_STALE_RECORD: 'FMCSA no disponible - usando el registro de autoridad en caché del {fetched_at}',
+  BROKER_NAME_MISMATCH: 'El nombre del bróker "{submitted_name}" no coincide con el registro FMCSA del MC {mc_number} ("{matched_name}", similitud {similarity})',
+  AUTHORITY_NOT_BROKER: 'El MC {mc_number} ({legal_name}) no tiene autoridad de bróker activa (estado de bróker: {broker_status})',
+  AUTHORITY_TOO_NEW: 'La autoridad del MC {mc_number} fue otorgada hace {age_days} días - menos del mínimo de {min_age_days} días',
+  AUTHORITY_UNKNOWN: 'Registro de autoridad del MC {mc_number} no disponible en FMCSA',
+  AUTHORITY_AGE_UNKNOWN: 'Fecha de otorgamiento de autoridad del MC {mc_number} no disponible en FMCSA',
+  BROKER_BOND_MISSING: 'El MC {mc_number} no tiene fianza BMC-84/85 ni fondo fiduciario de bróker registrado',
+  LOAD_AGING: 'Carga publicada hace {age_minutes} minutos - puede estar desactualizada',
+  LOAD_STALE: 'Carga publicada hace {age_minutes} minutos - probablemente ya no está disponible (umbral de >{reject_minutes} min)',
+  LOAD_POSTED_IN_FUTURE: 'La fecha de publicación de la carga está {minutes_ahead} minutos en el futuro - desfase de reloj o fecha alterada',
+  RATE_ABOVE_MARKET: 'Tarifa de ${rate_per_mile}/mi por encima del rango de mercado para {equipment} (${low_rpm}-${high_rpm}/mi)',
+  RATE_BELOW_MARKET: 'Tarifa de ${rate_per_mile}/mi por debajo del rango de mercado para {equipment} (${low_rpm}-${high_rpm}/mi)',
+  RATE_IMPLAUSIBLY_HIGH: 'Tarifa de ${rate_per_mile}/mi inverosímilmente alta para {equipment} (ruta de {miles} mi) - patrón común de fraude',
+  RATE_IMPLAUSIBLY_LOW: 'Tarifa de ${rate_per_mile}/mi inverosímilmente baja para {equipment} (ruta de {miles} mi)',
+  RATE_LANE_UNKNOWN: 'No se pudo estimar la distancia de {pickup_city} a {delivery_city} - tarifa no evaluada',
+  RATE_EQUIPMENT_UNKNOWN: 'No hay tarifa de referencia para el equipo "{equipment}" - tarifa no evaluada',
+  LOAD_DOUBLE_BROKERED: 'El mismo trayecto y equipo fue publicado por {other_mc_count} otro(s) MC ({other_mcs}) en {window_minutes} minutos - posible doble corretaje',
+  LOAD_ID_REUSED: 'El ID de carga {load_id} se envió anteriormente con datos diferentes ({changed_fields})',
+  BROKER_BLOCKLISTED: 'El corredor está en la lista de bloqueo interna ({field} "{value}")',
+  BROKER_ALLOWLISTED: 'El corredor está en la lista de confianza interna ({field} "{value}")',
+  CHECK_TIMEOUT: 'La verificación "{check}" excedió el tiempo límite de {timeout_ms}ms - resultado incompleto',
+  CHECK_FAILED: 'La verificación "{check}" falló: {error}',
+  SYSTEM_ERROR: 'Error del sistema de verificación: {error}',
+};
+
+export default es;
@@ -0,0 +1,65 @@
+/**
+ * API Key Authentication Middleware
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { authenticateApiKey, hasScope, isAuthConfigured, ApiScope } from '../services/apiKeyStore';
+import { CallerIdentity } from '../services/auditLog';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'auth' });
+
+const FAILURE_MESSAGES = {
+  invalid: 'Invalid API key',
+  expired: 'API key expired',
+  revoked: 'API key revoked',
+};
+
+// Authenticate the X-API-Key header and require the given scope
+export function requireScope(scope: ApiScope) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const receivedKey = req.headers['x-api-key'];
+
+      if (!(await isAuthConfigured())) {
+        log.error('no API keys configured (set API_KEY or issue keys)');
+        return res.status(500).json({
+          error: 'Configuration error',
+          message: 'API key not configured on server',
+        });
+      }
+
+      if (!receivedKey || typeof receivedKey !== 'string') {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'Missing X-API-Key header',
+        });
+      }
+
+      const auth = await authenticateApiKey(receivedKey);
+
+      if (!auth.ok) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: FAILURE_MESSAGES[auth.reason],
+        });
+      }
+
+      if (!hasScope(auth.key, scope)) {
+        return res.status(403).json({
+          error: 'Forbidden',
+          message: `API key lacks required scope "${scope}"`,
+        });
+      }
+
+      const caller: CallerIdentity = { key_id: auth.key.id, client_name: auth.key.client_name };
+      res.locals.apiKey = auth.key;
+      res.locals.caller = caller;
+
+      next();
+
+    } catch (error) {
+      next(error);
+    }
+  };
+}
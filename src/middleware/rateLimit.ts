@@ -0,0 +1,95 @@
+/**
+ * Rate Limit Middleware
+ * Charges each request against the caller's token bucket and quotas (run after requireScope); requests the
+ * route rejects as invalid are refunded
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AuthenticatedKey } from '../services/apiKeyStore';
+import {
+  consumeRateLimit,
+  isRateLimitEnabled,
+  refundRateLimit,
+  requestCost,
+  RateLimitDecision,
+  RateLimitOperation,
+} from '../services/rateLimiter';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'rate_limit' });
+
+export const RATE_LIMIT_HEADERS = [
+  'X-RateLimit-Limit',
+  'X-RateLimit-Remaining',
+  'X-RateLimit-Reset',
+  'X-RateLimit-Cost',
+  'X-Quota-Daily-Limit',
+  'X-Quota-Daily-Remaining',
+  'X-Quota-Monthly-Limit',
+  'X-Quota-Monthly-Remaining',
+  'Retry-After',
+];
+
+const LIMIT_MESSAGES = {
+  rate_limit: 'Rate limit exceeded',
+  daily_quota: 'Daily quota exhausted',
+  monthly_quota: 'Monthly quota exhausted',
+};
+
+export function rateLimit(operation: RateLimitOperation) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!isRateLimitEnabled()) return next();
+
+    const apiKey: AuthenticatedKey = res.locals.apiKey;
+    const loadCount = operation === 'verify:batch' && Array.isArray(req.body?.loads) ? req.body.loads.length : 1;
+    const cost = requestCost(operation, loadCount);
+    const now = Date.now();
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await consumeRateLimit(apiKey.id, cost, apiKey.rate_limits, now);
+    } catch (error) {
+      // A shared store outage must not take verification down with it - fail open
+      log.error('rate limit store error, allowing request', { error });
+      return next();
+    }
+
+    setHeaders(res, decision);
+
+    if (!decision.allowed) {
+      log.warn('rate limit refused', { client_name: apiKey.client_name, key_id: apiKey.id, reason: decision.reason, cost });
+
+      res.setHeader('Retry-After', String(decision.retry_after_seconds));
+      return res.status(429).json({
+        error: 'Too many requests',
+        message: LIMIT_MESSAGES[decision.reason!],
+        retry_after_seconds: decision.retry_after_seconds,
+        quotas: decision.quotas,
+      });
+    }
+
+    // The charge is taken before the route validates the body - hand it back if the request is rejected
+    res.on('finish', () => {
+      if (res.statusCode < 400 || res.statusCode >= 500) return;
+
+      refundRateLimit(apiKey.id, cost, apiKey.rate_limits, now).catch(error => {
+        log.error('rate limit refund failed', { key_id: apiKey.id, cost, error });
+      });
+    });
+
+    next();
+  };
+}
+
+function setHeaders(res: Response, decision: RateLimitDecision): void {
+  res.setHeader('X-RateLimit-Limit', String(decision.limits.capacity));
+  res.setHeader('X-RateLimit-Remaining', String(decision.tokens_remaining));
+  res.setHeader('X-RateLimit-Reset', String(decision.bucket_reset_seconds));
+  res.setHeader('X-RateLimit-Cost', String(decision.cost));
+
+  for (const quota of decision.quotas) {
+    const label = quota.period === 'daily' ? 'Daily' : 'Monthly';
+    res.setHeader(`X-Quota-${label}-Limit`, String(quota.limit));
+    res.setHeader(`X-Quota-${label}-Remaining`, String(quota.remaining));
+  }
+}
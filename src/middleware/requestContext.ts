@@ -0,0 +1,44 @@
+/**
+ * Request Context Middleware
+ * Assigns each request a correlation id, logs it on completion and records HTTP metrics
+ */
+
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { logger, runWithLogContext } from '../services/logger';
+import { metrics } from '../services/metrics';
+
+const log = logger.child({ component: 'http' });
+
+// Callers may pass their own id (load board trace ids) - anything odd is replaced
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export function requestContext() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const supplied = req.headers['x-request-id'];
+    const requestId = typeof supplied === 'string' && VALID_REQUEST_ID.test(supplied) ? supplied : randomUUID();
+    const started = process.hrtime.bigint();
+
+    res.locals.requestId = requestId;
+    res.setHeader('X-Request-Id', requestId);
+
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      // Route pattern, not the raw path, so ids don't explode the label set
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+
+      metrics.httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+      metrics.httpDuration.observe({ method: req.method, route }, seconds);
+
+      runWithLogContext({ request_id: requestId }, () => log.info('request completed', {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        duration_ms: Math.round(seconds * 1000),
+        client_name: res.locals.caller?.client_name,
+      }));
+    });
+
+    runWithLogContext({ request_id: requestId }, next);
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * API Key Administration Routes
+ * Mounted at /admin/keys - requires the "admin" scope
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import {
+  issueApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  getApiKey,
+  isApiScope,
+  ApiKeyInactiveError,
+  ApiKeyNotFoundError,
+  API_SCOPES,
+} from '../services/apiKeyStore';
+import { getQuotaUsage, resolveLimits, RateLimits } from '../services/rateLimiter';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'admin' });
+
+const RATE_LIMIT_FIELDS: Array<keyof RateLimits> = ['capacity', 'refill_per_second', 'daily_quota', 'monthly_quota'];
+
+const router = Router();
+
+router.use(requireScope('admin'));
+
+// List keys (never includes hashes or plaintext)
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({ keys: await listApiKeys() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Issue a key for a client - the plaintext key is only ever returned here
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { client_name, scopes, expires_at, rate_limits } = req.body || {};
+
+    if (!client_name || typeof client_name !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'client_name is required',
+      });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiScope)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: `scopes must be a non-empty array of: ${API_SCOPES.join(', ')}`,
+      });
+    }
+
+    if (expires_at !== undefined && expires_at !== null && isNaN(Date.parse(expires_at))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'expires_at must be valid ISO 8601 timestamp',
+      });
+    }
+
+    const rateLimitError = validateRateLimits(rate_limits);
+    if (rateLimitError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: rateLimitError,
+      });
+    }
+
+    const { key, info } = await issueApiKey({
+      client_name,
+      scopes,
+      expires_at: expires_at ? new Date(expires_at).toISOString() : null,
+      rate_limits,
+    });
+
+    log.info('API key issued', { key_id: info.id, client_name: info.client_name, scopes: info.scopes });
+
+    res.status(201).json({ key, ...info });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Rotate a key - optional grace_seconds keeps the old key valid while clients switch over
+router.post('/:id/rotate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const graceSeconds = Number(req.body?.grace_seconds ?? 0);
+
+    if (!Number.isFinite(graceSeconds) || graceSeconds < 0) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'grace_seconds must be a non-negative number',
+      });
+    }
+
+    const { key, info, previous } = await rotateApiKey(req.params.id, graceSeconds);
+
+    log.info('API key rotated', { previous_key_id: previous.id, key_id: info.id });
+
+    res.status(201).json({ key, ...info, previous });
+
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return res.status(404).json({ error: 'Not found', message: error.message });
+    }
+    if (error instanceof ApiKeyInactiveError) {
+      return res.status(409).json({ error: 'Conflict', message: error.message });
+    }
+    next(error);
+  }
+});
+
+// Effective limits and current quota usage for a key
+router.get('/:id/usage', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const info = await getApiKey(req.params.id);
+
+    res.json({
+      id: info.id,
+      client_name: info.client_name,
+      limits: resolveLimits(info.rate_limits),
+      quotas: await getQuotaUsage(info.id, info.rate_limits),
+    });
+
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return res.status(404).json({ error: 'Not found', message: error.message });
+    }
+    next(error);
+  }
+});
+
+// Revoke a key immediately
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const info = await revokeApiKey(req.params.id);
+
+    log.info('API key revoked', { key_id: info.id });
+
+    res.json(info);
+
+  } catch (error) {
+    if (error instanceof ApiKeyNotFoundError) {
+      return res.status(404).json({ error: 'Not found', message: error.message });
+    }
+    next(error);
+  }
+});
+
+function validateRateLimits(rateLimits: unknown): string | null {
+  if (rateLimits === undefined || rateLimits === null) return null;
+
+  if (typeof rateLimits !== 'object' || Array.isArray(rateLimits)) {
+    return 'rate_limits must be an object';
+  }
+
+  for (const [field, value] of Object.entries(rateLimits)) {
+    if (!RATE_LIMIT_FIELDS.includes(field as keyof RateLimits)) {
+      return `rate_limits.${field} is not supported (expected: ${RATE_LIMIT_FIELDS.join(', ')})`;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return `rate_limits.${field} must be a non-negative number`;
+    }
+  }
+
+  if ((rateLimits as Partial<RateLimits>).refill_per_second === 0) {
+    return 'rate_limits.refill_per_second must be greater than 0';
+  }
+
+  return null;
+}
+
+export default router;
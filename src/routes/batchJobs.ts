@@ -0,0 +1,198 @@
+/**
+ * Batch Job Routes
+ * Mounted at /api/jobs - submit large load sets, poll progress, page through results
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { hasScope, AuthenticatedKey } from '../services/apiKeyStore';
+import { getPolicy, PolicyNotFoundError } from '../services/policyService';
+import { EvaluationMode, VerificationStatus } from '../services/verificationService';
+import { getBatchJob, getBatchJobResults, listBatchJobs, submitBatchJob, BatchJob, BatchJobsUnavailableError } from '../services/batchJobs';
+import { defaultSigningSecret, validateCallbackUrl } from '../services/webhooks';
+import { batchInputError, optionErrors, resolveLocale } from './requestHelpers';
+import { parseLoadBatch } from '../services/loadValidation';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'batch_jobs' });
+
+const MAX_JOB_LOADS = parseInt(process.env.BATCH_JOB_MAX_LOADS || '10000');
+
+const router = Router();
+
+// Submit a job - responds 202 straight away, verification runs in the background
+router.post('/', requireScope('verify:batch'), rateLimit('verify:batch'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const items: unknown[] = req.body.loads;
+    const mode: EvaluationMode | undefined = req.body.mode;
+    const { policy_id, evaluated_at, callback_url, callback_secret } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'Request body must contain a non-empty "loads" array',
+      });
+    }
+
+    if (items.length > MAX_JOB_LOADS) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: `Maximum ${MAX_JOB_LOADS} loads per job`,
+      });
+    }
+
+    // Validate every item before queueing, so a job never fails part-way on bad input
+    const { loads, invalid } = parseLoadBatch(items);
+    const inputError = batchInputError(optionErrors({ policy_id, mode, evaluated_at }), invalid, items.length);
+    if (inputError) {
+      return res.status(400).json(inputError);
+    }
+
+    const callbackError = validateCallback(callback_url, callback_secret);
+    if (callbackError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: callbackError,
+      });
+    }
+
+    const policy = await getPolicy(policy_id);
+
+    const job = await submitBatchJob({
+      loads,
+      policy,
+      locale: resolveLocale(req, req.body.locale),
+      mode,
+      evaluated_at,
+      caller: res.locals.caller,
+      callback: callback_url
+        ? { url: callback_url, secret: callback_secret || defaultSigningSecret()! }
+        : undefined,
+    });
+
+    log.info('batch job queued', { job_id: job.id, total: job.total, client_name: res.locals.caller.client_name });
+
+    res.status(202).json({
+      ...job,
+      links: {
+        self: `/api/jobs/${job.id}`,
+        results: `/api/jobs/${job.id}/results`,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof PolicyNotFoundError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: error.message,
+      });
+    }
+
+    if (error instanceof BatchJobsUnavailableError) {
+      return res.status(503).json({
+        error: 'Service unavailable',
+        message: error.message,
+      });
+    }
+
+    next(error);
+  }
+});
+
+// Jobs submitted by the calling client (all clients for admin keys)
+router.get('/', requireScope('verify:batch'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey: AuthenticatedKey = res.locals.apiKey;
+    const jobs = await listBatchJobs(hasScope(apiKey, 'admin') ? undefined : apiKey.client_name);
+
+    res.json({ jobs });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Job status and progress
+router.get('/:id', requireScope('verify:batch'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = await findVisibleJob(req.params.id, res.locals.apiKey);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Job ${req.params.id} not found`,
+      });
+    }
+
+    res.json(job);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Paged results in submission order, available while the job is still running
+router.get('/:id/results', requireScope('verify:batch'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, limit, offset } = req.query as Record<string, string | undefined>;
+
+    if (status && !['APPROVED', 'REJECTED', 'NEEDS_REVIEW'].includes(status)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'status must be APPROVED, REJECTED or NEEDS_REVIEW',
+      });
+    }
+
+    const job = await findVisibleJob(req.params.id, res.locals.apiKey);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Job ${req.params.id} not found`,
+      });
+    }
+
+    const page = await getBatchJobResults(job.id, {
+      status: status as VerificationStatus | undefined,
+      limit: limit ? parseInt(limit) : undefined,
+      offset: offset ? parseInt(offset) : undefined,
+    });
+
+    res.json({
+      job_id: job.id,
+      job_status: job.status,
+      total: page.total,
+      count: page.results.length,
+      results: page.results,
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+async function findVisibleJob(id: string, apiKey: AuthenticatedKey): Promise<BatchJob | null> {
+  const job = await getBatchJob(id);
+  if (!job) return null;
+  return hasScope(apiKey, 'admin') || job.caller?.client_name === apiKey.client_name ? job : null;
+}
+
+function validateCallback(url: unknown, secret: unknown): string | null {
+  if (url === undefined || url === null) return null;
+
+  const urlError = validateCallbackUrl(url);
+  if (urlError) return urlError;
+
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    return 'callback_secret must be a string of at least 16 characters';
+  }
+
+  if (!secret && !defaultSigningSecret()) {
+    return 'callback_secret is required (no default webhook signing secret is configured)';
+  }
+
+  return null;
+}
+
+export default router;
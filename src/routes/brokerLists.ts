@@ -0,0 +1,145 @@
+/**
+ * Broker List Administration Routes
+ * Mounted at /admin/lists - requires the "admin" scope
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import {
+  createListEntry,
+  deleteListEntry,
+  getListEntry,
+  listEntries,
+  updateListEntry,
+  InvalidListEntryError,
+  ListEntryNotFoundError,
+  ListField,
+  ListType,
+  LIST_FIELDS,
+  LIST_TYPES,
+} from '../services/brokerLists';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'lists' });
+
+const router = Router();
+
+router.use(requireScope('admin'));
+
+// Active entries, optionally filtered by list/field (include_expired=true for history)
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { list, field, include_expired } = req.query as Record<string, string | undefined>;
+
+    if (list && !LIST_TYPES.includes(list as ListType)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: `list must be one of ${LIST_TYPES.join(', ')}`,
+      });
+    }
+
+    if (field && !LIST_FIELDS.includes(field as ListField)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: `field must be one of ${LIST_FIELDS.join(', ')}`,
+      });
+    }
+
+    const entries = await listEntries({
+      list: list as ListType | undefined,
+      field: field as ListField | undefined,
+      include_expired: include_expired === 'true',
+    });
+
+    res.json({ count: entries.length, entries });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const entry = await getListEntry(req.params.id);
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `List entry ${req.params.id} not found`,
+      });
+    }
+
+    res.json(entry);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add an entry - author defaults to the calling client
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { list, field, value, reason, author, waives, expires_at } = req.body || {};
+
+    const entry = await createListEntry({
+      list,
+      field,
+      value,
+      reason,
+      author: author || res.locals.caller.client_name,
+      waives,
+      expires_at,
+    });
+
+    log.info('list entry added', { entry_id: entry.id, list: entry.list, field: entry.field, value: entry.value, author: entry.author });
+
+    res.status(201).json(entry);
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { reason, author, waives, expires_at } = req.body || {};
+    const entry = await updateListEntry(req.params.id, { reason, author, waives, expires_at });
+
+    log.info('list entry updated', { entry_id: entry.id, list: entry.list });
+
+    res.json(entry);
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await deleteListEntry(req.params.id);
+
+    log.info('list entry deleted', { entry_id: req.params.id });
+
+    res.status(204).end();
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+function handleError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof InvalidListEntryError) {
+    return res.status(400).json({
+      error: 'Invalid input',
+      message: error.problems.join('; '),
+    });
+  }
+
+  if (error instanceof ListEntryNotFoundError) {
+    return res.status(404).json({ error: 'Not found', message: error.message });
+  }
+
+  next(error);
+}
+
+export default router;
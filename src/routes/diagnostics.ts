@@ -0,0 +1,61 @@
+/**
+ * Diagnostics Routes
+ * Mounted at /admin/diagnostics - requires the "admin" scope. Reports which settings are present,
+ * never their values
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import { describeAuditStorage } from '../services/auditLog';
+import { describeDocumentStorage } from '../services/documentStore';
+import { describeFMCSA } from '../services/fmcsaClient';
+
+// Secrets and endpoints whose presence (not value) is worth knowing
+const CONFIGURED_SETTINGS = [
+  'API_KEY',
+  'FMCSA_API_KEY',
+  'WEBHOOK_SIGNING_SECRET',
+  'METRICS_TOKEN',
+  'POLICY_API_URL',
+  'RATE_LIMIT_REDIS_REST_URL',
+  'RATE_LIMIT_REDIS_REST_TOKEN',
+];
+
+const router = Router();
+
+router.use(requireScope('admin'));
+
+router.get('/', (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const memory = process.memoryUsage();
+
+    res.json({
+      service: 'load-verification-agent',
+      environment: process.env.NODE_ENV || 'development',
+      node_version: process.version,
+      uptime_seconds: Math.floor(process.uptime()),
+      memory_mb: {
+        rss: toMegabytes(memory.rss),
+        heap_used: toMegabytes(memory.heapUsed),
+        heap_total: toMegabytes(memory.heapTotal),
+      },
+      configured: Object.fromEntries(CONFIGURED_SETTINGS.map(name => [name, !!process.env[name]])),
+      backends: {
+        storage: describeDocumentStorage(),
+        audit_log: describeAuditStorage(),
+        fmcsa_cache: process.env.FMCSA_CACHE_BACKEND || 'memory',
+        rate_limit: process.env.RATE_LIMIT_BACKEND || 'memory',
+        broker_data: process.env.BROKER_DATA_PROVIDER || 'none',
+      },
+      fmcsa: describeFMCSA(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+function toMegabytes(bytes: number): number {
+  return Math.round(bytes / 1024 / 1024 * 10) / 10;
+}
+
+export default router;
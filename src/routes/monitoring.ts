@@ -0,0 +1,152 @@
+/**
+ * Broker Monitoring Routes
+ * Mounted at /api/monitoring - watchlist management, change events, manual sweeps
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import { hasScope, AuthenticatedKey } from '../services/apiKeyStore';
+import { defaultSigningSecret, validateCallbackUrl } from '../services/webhooks';
+import {
+  listMonitorEvents,
+  listWatchedBrokers,
+  runMonitorSweep,
+  unwatchBroker,
+  watchBroker,
+  WatchNotFoundError,
+} from '../services/brokerMonitor';
+import { normalizeMcNumber } from '../services/loadValidation';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'monitor' });
+
+const router = Router();
+
+// Watched MCs for the calling client (all clients for admin keys)
+router.get('/watchlist', requireScope('verify'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey: AuthenticatedKey = res.locals.apiKey;
+    const watchlist = await listWatchedBrokers(hasScope(apiKey, 'admin') ? undefined : apiKey.client_name);
+
+    res.json({ watchlist });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add (or update) a watched MC - the next sweep records its baseline
+router.post('/watchlist', requireScope('verify'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { label, callback_url } = req.body || {};
+    const mcNumber = parseMcNumber(req.body?.mc_number);
+
+    if (!mcNumber) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'mc_number must be an MC number (digits, optionally prefixed with "MC")',
+      });
+    }
+
+    if (label !== undefined && label !== null && typeof label !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'label must be a string',
+      });
+    }
+
+    if (callback_url !== undefined && callback_url !== null) {
+      const urlError = validateCallbackUrl(callback_url);
+      if (urlError) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          message: urlError,
+        });
+      }
+
+      if (!defaultSigningSecret()) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          message: 'callback_url requires WEBHOOK_SIGNING_SECRET to be configured on the server',
+        });
+      }
+    }
+
+    const watch = await watchBroker({
+      mc_number: mcNumber,
+      client_name: res.locals.caller.client_name,
+      label,
+      callback_url,
+    });
+
+    log.info('broker watch added', { client_name: watch.client_name, mc_number: watch.mc_number });
+
+    res.status(201).json(watch);
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.delete('/watchlist/:mc', requireScope('verify'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const mcNumber = parseMcNumber(req.params.mc);
+    await unwatchBroker(res.locals.caller.client_name, mcNumber || req.params.mc);
+
+    res.status(204).end();
+
+  } catch (error) {
+    if (error instanceof WatchNotFoundError) {
+      return res.status(404).json({ error: 'Not found', message: error.message });
+    }
+    next(error);
+  }
+});
+
+// Poll for change events - pass the last event's detected_at as `since`
+router.get('/events', requireScope('verify'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { since, mc_number, limit } = req.query as Record<string, string | undefined>;
+
+    if (since && isNaN(Date.parse(since))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'since must be valid ISO 8601 timestamp',
+      });
+    }
+
+    const apiKey: AuthenticatedKey = res.locals.apiKey;
+    const events = await listMonitorEvents({
+      client_name: hasScope(apiKey, 'admin') ? undefined : apiKey.client_name,
+      mc_number: mc_number ? parseMcNumber(mc_number) || mc_number : undefined,
+      since,
+      limit: limit ? parseInt(limit) : undefined,
+    });
+
+    res.json({
+      count: events.length,
+      next_since: events.length > 0 ? events[events.length - 1].detected_at : since || null,
+      events,
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Run a sweep now (for external schedulers such as a platform cron)
+router.post('/run', requireScope('admin'), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(await runMonitorSweep());
+  } catch (error) {
+    next(error);
+  }
+});
+
+function parseMcNumber(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  return normalizeMcNumber(String(value));
+}
+
+export default router;
@@ -0,0 +1,91 @@
+/**
+ * Request Helpers
+ * Parsing shared by the verification route handlers
+ */
+
+import { Request } from 'express';
+import { isSupportedLocale, Locale, SUPPORTED_LOCALES } from '../services/reasonCodes';
+import { getClock } from '../services/clock';
+import { describeErrors, BatchItemErrors, FieldError } from '../services/loadValidation';
+
+// Message locale - explicit "locale" body field wins over Accept-Language
+export function resolveLocale(req: Request, requested?: unknown): Locale {
+  if (isSupportedLocale(requested)) {
+    return requested;
+  }
+
+  const accepted = req.acceptsLanguages(...SUPPORTED_LOCALES);
+  return isSupportedLocale(accepted) ? accepted : 'en';
+}
+
+// Policy ids are looked up by name - an object or number would fall through to the default policy
+export function validatePolicyId(policyId: unknown, field = 'policy_id'): string | null {
+  if (policyId !== undefined && typeof policyId !== 'string') {
+    return `${field} must be a string`;
+  }
+
+  return null;
+}
+
+export function validateMode(mode: unknown): string | null {
+  if (mode !== undefined && mode !== 'fast' && mode !== 'exhaustive') {
+    return 'mode must be "fast" or "exhaustive"';
+  }
+
+  return null;
+}
+
+// "As of" time for replaying a decision - any past instant, never the future
+export function validateEvaluatedAt(evaluatedAt: unknown): string | null {
+  if (evaluatedAt === undefined) return null;
+
+  if (typeof evaluatedAt !== 'string' || isNaN(Date.parse(evaluatedAt))) {
+    return 'evaluated_at must be valid ISO 8601 timestamp';
+  }
+
+  if (Date.parse(evaluatedAt) > getClock().now()) {
+    return 'evaluated_at must not be in the future';
+  }
+
+  return null;
+}
+
+// Verification options as field errors, so they're reported in the same response as the load's own
+export function optionErrors(options: { policy_id?: unknown; mode?: unknown; evaluated_at?: unknown }): FieldError[] {
+  const errors: FieldError[] = [];
+
+  const policyIdError = validatePolicyId(options.policy_id);
+  if (policyIdError) {
+    errors.push({ field: 'policy_id', code: 'invalid_type', message: policyIdError });
+  }
+
+  const modeError = validateMode(options.mode);
+  if (modeError) {
+    errors.push({ field: 'mode', code: 'invalid_format', message: modeError });
+  }
+
+  const evaluatedAtError = validateEvaluatedAt(options.evaluated_at);
+  if (evaluatedAtError) {
+    const parseable = typeof options.evaluated_at === 'string' && !isNaN(Date.parse(options.evaluated_at));
+    errors.push({ field: 'evaluated_at', code: parseable ? 'out_of_range' : 'invalid_format', message: evaluatedAtError });
+  }
+
+  return errors;
+}
+
+// 400 body for a batch with invalid options or loads - everything wrong with the request in one response
+export function batchInputError(options: FieldError[], invalid: BatchItemErrors[], total: number): {
+  error: string;
+  message: string;
+  errors: FieldError[];
+  items: BatchItemErrors[];
+} | null {
+  if (options.length === 0 && invalid.length === 0) return null;
+
+  const problems = [
+    ...(options.length > 0 ? [describeErrors(options)] : []),
+    ...(invalid.length > 0 ? [`${invalid.length} of ${total} loads failed validation`] : []),
+  ];
+
+  return { error: 'Invalid input', message: problems.join('; '), errors: options, items: invalid };
+}
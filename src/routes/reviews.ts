@@ -0,0 +1,195 @@
+/**
+ * Review Queue Routes
+ * Mounted at /api/reviews - requires the "review" scope
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import { hasScope, AuthenticatedKey } from '../services/apiKeyStore';
+import {
+  addReviewNote,
+  claimReviewItem,
+  decideReviewItem,
+  getReviewItem,
+  isOverdue,
+  listReviewItems,
+  releaseReviewItem,
+  InvalidReviewActionError,
+  ReviewConflictError,
+  ReviewItem,
+  ReviewNotFoundError,
+  ReviewStatus,
+  Reviewer,
+  REVIEW_STATUSES,
+} from '../services/reviewQueue';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'reviews' });
+
+const router = Router();
+
+router.use(requireScope('review'));
+
+// The queue, oldest SLA deadline first - filter by status, assignee or overdue=true|false
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { status, assignee, overdue } = req.query as Record<string, string | undefined>;
+
+    if (status && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: `status must be one of ${REVIEW_STATUSES.join(', ')}`,
+      });
+    }
+
+    if (overdue && overdue !== 'true' && overdue !== 'false') {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'overdue must be "true" or "false"',
+      });
+    }
+
+    const items = await listReviewItems({
+      client_name: visibleClient(res),
+      status: status as ReviewStatus | undefined,
+      assignee,
+      overdue: overdue === undefined ? undefined : overdue === 'true',
+    });
+
+    res.json({ count: items.length, items: items.map(withOverdue) });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json(withOverdue(await visibleItem(req.params.id, res)));
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+// Claims belong to the calling API key. Keys are per client, so "reviewer" can name the person, but only as a
+// display label - it never lets one key act on another key's claim
+router.post('/:id/claim', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await visibleItem(req.params.id, res);
+    const item = await claimReviewItem(req.params.id, reviewerFor(req, res));
+
+    log.info('review claimed', { review_id: item.id, load_id: item.load_id, assignee: item.assignee });
+
+    res.json(withOverdue(item));
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+router.post('/:id/release', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await visibleItem(req.params.id, res);
+    const item = await releaseReviewItem(req.params.id, reviewerFor(req, res));
+
+    log.info('review released', { review_id: item.id });
+
+    res.json(withOverdue(item));
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+router.post('/:id/notes', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await visibleItem(req.params.id, res);
+    const item = await addReviewNote(req.params.id, reviewerFor(req, res).name, req.body?.text);
+
+    res.status(201).json(withOverdue(item));
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+});
+
+router.post('/:id/approve', async (req: Request, res: Response, next: NextFunction) => {
+  await decide(req, res, next, 'APPROVED');
+});
+
+router.post('/:id/reject', async (req: Request, res: Response, next: NextFunction) => {
+  await decide(req, res, next, 'REJECTED');
+});
+
+async function decide(req: Request, res: Response, next: NextFunction, status: 'APPROVED' | 'REJECTED') {
+  try {
+    await visibleItem(req.params.id, res);
+    const item = await decideReviewItem(req.params.id, reviewerFor(req, res), status, req.body?.justification);
+
+    log.info('review decided', {
+      review_id: item.id,
+      verification_id: item.verification_id,
+      load_id: item.load_id,
+      decision: status,
+      decided_by: item.decision!.decided_by,
+    });
+
+    res.json(withOverdue(item));
+
+  } catch (error) {
+    handleError(error, res, next);
+  }
+}
+
+// Integrators only see their own items; admin keys see everything
+function visibleClient(res: Response): string | undefined {
+  const apiKey: AuthenticatedKey = res.locals.apiKey;
+  return hasScope(apiKey, 'admin') ? undefined : apiKey.client_name;
+}
+
+async function visibleItem(id: string, res: Response): Promise<ReviewItem> {
+  const item = await getReviewItem(id);
+  const client = visibleClient(res);
+
+  if (!item || (client !== undefined && item.client_name !== client)) {
+    throw new ReviewNotFoundError(id);
+  }
+
+  return item;
+}
+
+function reviewerFor(req: Request, res: Response): Reviewer {
+  const { key_id, client_name } = res.locals.caller;
+  const label = req.body?.reviewer;
+
+  return {
+    id: key_id,
+    name: typeof label === 'string' && label.trim() ? label.trim() : client_name || key_id,
+  };
+}
+
+function withOverdue(item: ReviewItem) {
+  return { ...item, overdue: isOverdue(item) };
+}
+
+function handleError(error: unknown, res: Response, next: NextFunction) {
+  if (error instanceof InvalidReviewActionError) {
+    return res.status(400).json({
+      error: 'Invalid input',
+      message: error.problems.join('; '),
+    });
+  }
+
+  if (error instanceof ReviewNotFoundError) {
+    return res.status(404).json({ error: 'Not found', message: error.message });
+  }
+
+  if (error instanceof ReviewConflictError) {
+    return res.status(409).json({ error: 'Conflict', message: error.message });
+  }
+
+  next(error);
+}
+
+export default router;
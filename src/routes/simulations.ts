@@ -0,0 +1,179 @@
+/**
+ * Policy Simulation Routes
+ * Mounted at /api/simulations - requires the "admin" scope (replays can read the whole audit log)
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import { requireScope } from '../middleware/auth';
+import { buildPolicy, getPolicy, InvalidPolicyError, PolicyNotFoundError, VerificationPolicy } from '../services/policyService';
+import { loadsFromAudit, runSimulation, BrokerProfileSnapshot, CarrierSnapshot, SimulationInputError } from '../services/simulation';
+import { parseLoadFile, LoadFileError } from '../services/loadFiles';
+import type { VerificationStatus } from '../services/verificationService';
+import { validateMode, validatePolicyId } from './requestHelpers';
+import { logger } from '../services/logger';
+
+const log = logger.child({ component: 'simulations' });
+
+const STATUSES: VerificationStatus[] = ['APPROVED', 'NEEDS_REVIEW', 'REJECTED'];
+
+const router = Router();
+
+router.use(requireScope('admin'));
+
+// Re-run historical loads under a candidate policy and report the verdict changes.
+// Loads come from exactly one of: `loads` (array), `data` + `format` (JSONL/CSV text), or `audit` (a query
+// over past verifications, which also supplies the recorded FMCSA and broker data inputs).
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { loads, data, format, audit, carriers, broker_profiles, mode, baseline_policy_id, candidate_policy_id, candidate_policy } = req.body || {};
+
+    const sources = [loads, data, audit].filter(source => source !== undefined).length;
+    if (sources !== 1) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'Provide exactly one of "loads", "data" or "audit"',
+      });
+    }
+
+    if (loads !== undefined && !Array.isArray(loads)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'loads must be an array',
+      });
+    }
+
+    if (audit !== undefined && (!audit || typeof audit !== 'object' || Array.isArray(audit))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'audit must be an object ({ from, to, client_name, broker_mc, status, limit })',
+      });
+    }
+
+    const auditError = audit !== undefined ? validateAuditQuery(audit) : null;
+    if (auditError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: auditError,
+      });
+    }
+
+    if (data !== undefined && (typeof data !== 'string' || !['jsonl', 'csv'].includes(format))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'data must be a string with format "jsonl" or "csv"',
+      });
+    }
+
+    if (carriers !== undefined && (!carriers || typeof carriers !== 'object' || Array.isArray(carriers))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'carriers must be an object of FMCSA records keyed by MC number',
+      });
+    }
+
+    if (broker_profiles !== undefined && (!broker_profiles || typeof broker_profiles !== 'object' || Array.isArray(broker_profiles))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'broker_profiles must be an object of broker data profiles keyed by MC number',
+      });
+    }
+
+    if ((candidate_policy_id === undefined) === (candidate_policy === undefined)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'Provide exactly one of "candidate_policy_id" or "candidate_policy"',
+      });
+    }
+
+    const optionsError = validatePolicyId(baseline_policy_id, 'baseline_policy_id')
+      || validatePolicyId(candidate_policy_id, 'candidate_policy_id')
+      || validateMode(mode);
+    if (optionsError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: optionsError,
+      });
+    }
+
+    const baseline = await getPolicy(baseline_policy_id);
+    const candidate: VerificationPolicy = candidate_policy !== undefined
+      ? buildPolicy(candidate_policy, 'candidate')
+      : await getPolicy(candidate_policy_id);
+
+    let rows: Record<string, unknown>[];
+    let recorded: CarrierSnapshot | undefined = carriers;
+    let recordedProfiles: BrokerProfileSnapshot | undefined = broker_profiles;
+    let truncated = false;
+
+    if (audit !== undefined) {
+      const history = await loadsFromAudit({
+        client_name: audit.client_name,
+        broker_mc: audit.broker_mc,
+        status: audit.status,
+        from: audit.from,
+        to: audit.to,
+        limit: audit.limit,
+      });
+      rows = history.loads as unknown as Record<string, unknown>[];
+      recorded = { ...history.carriers, ...carriers };
+      recordedProfiles = { ...history.broker_profiles, ...broker_profiles };
+      truncated = history.truncated;
+    } else {
+      rows = data !== undefined ? parseLoadFile(data, format) : loads;
+    }
+
+    const report = await runSimulation({
+      loads: rows,
+      baseline,
+      candidate,
+      carriers: recorded,
+      broker_profiles: recordedProfiles,
+      mode,
+      truncated,
+    });
+
+    log.info('simulation completed', {
+      client_name: res.locals.caller.client_name,
+      evaluated: report.evaluated,
+      changed: report.changed.length,
+      truncated: report.truncated,
+      baseline: report.baseline,
+      candidate: report.candidate,
+    });
+
+    res.json(report);
+
+  } catch (error) {
+    if (error instanceof PolicyNotFoundError || error instanceof InvalidPolicyError || error instanceof SimulationInputError || error instanceof LoadFileError) {
+      return res.status(400).json({ error: 'Invalid input', message: error.message });
+    }
+
+    next(error);
+  }
+});
+
+function validateAuditQuery(audit: Record<string, unknown>): string | null {
+  for (const field of ['client_name', 'broker_mc'] as const) {
+    if (audit[field] !== undefined && typeof audit[field] !== 'string') {
+      return `audit.${field} must be a string`;
+    }
+  }
+
+  if (audit.status !== undefined && !STATUSES.includes(audit.status as VerificationStatus)) {
+    return `audit.status must be ${STATUSES.join(', ')}`;
+  }
+
+  for (const field of ['from', 'to'] as const) {
+    if (audit[field] !== undefined && (typeof audit[field] !== 'string' || isNaN(Date.parse(audit[field] as string)))) {
+      return `audit.${field} must be valid ISO 8601 timestamp`;
+    }
+  }
+
+  if (audit.limit !== undefined && !(Number.isInteger(audit.limit) && (audit.limit as number) > 0)) {
+    return 'audit.limit must be a positive integer';
+  }
+
+  return null;
+}
+
+export default router;
@@ -4,7 +4,37 @@
 
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-import { verifyLoad, LoadVerificationInput, VerificationResult } from './services/verificationService';
+import {
+  verifyLoad,
+  EvaluationMode,
+  VerificationResult,
+  VerificationStatus,
+} from './services/verificationService';
+import { getVerification, queryVerifications, AuditRecord } from './services/auditLog';
+import { requireScope } from './middleware/auth';
+import { rateLimit, RATE_LIMIT_HEADERS } from './middleware/rateLimit';
+import { hasScope, AuthenticatedKey } from './services/apiKeyStore';
+import adminKeysRouter from './routes/adminKeys';
+import brokerListsRouter from './routes/brokerLists';
+import batchJobsRouter from './routes/batchJobs';
+import monitoringRouter from './routes/monitoring';
+import simulationsRouter from './routes/simulations';
+import reviewsRouter from './routes/reviews';
+import diagnosticsRouter from './routes/diagnostics';
+import { startBrokerMonitor } from './services/brokerMonitor';
+import { batchInputError, optionErrors, resolveLocale } from './routes/requestHelpers';
+import { startBatchJobRunner, summarize, verifyBatchItem } from './services/batchJobs';
+import { getPolicy, listPolicies, PolicyNotFoundError } from './services/policyService';
+import { describeErrors, parseLoadBatch, parseLoadInput } from './services/loadValidation';
+import { resolvedStatus, reviewsForVerifications } from './services/reviewQueue';
+import { requestContext } from './middleware/requestContext';
+import { logger } from './services/logger';
+import { metrics, renderMetrics } from './services/metrics';
+import { checkReadiness } from './services/readiness';
+import { buildExplanation } from './services/explanation';
+import { renderExplanationHtml } from './services/explanationReport';
+
+const log = logger.child({ component: 'api' });
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -12,59 +42,16 @@ const PORT = process.env.PORT || 3001;
 // Middleware
 app.use(cors({
   origin: process.env.ALLOWED_ORIGINS?.split(',') || '*',
-  methods: ['POST', 'GET'],
+  methods: ['POST', 'GET', 'PATCH', 'DELETE'],
+  exposedHeaders: [...RATE_LIMIT_HEADERS, 'X-Request-Id'],
   credentials: true,
 }));
 
-app.use(express.json());
+// Batch jobs accept whole load boards, well past the 100kb default
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '10mb' }));
 
-app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
-
-// Authentication middleware - FIXED
-function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
-  const receivedKey = req.headers['x-api-key'] as string;
-  const expectedKey = process.env.API_KEY;
-
-  // Debug logging
-  console.log('Auth Check:');
-  console.log('- Received key:', receivedKey ? `${receivedKey.substring(0, 10)}...` : 'MISSING');
-  console.log('- Expected key:', expectedKey ? `${expectedKey.substring(0, 10)}...` : 'NOT SET');
-  console.log('- Keys match:', receivedKey === expectedKey);
-
-  if (!expectedKey) {
-    console.error('ERROR: API_KEY environment variable is not set!');
-    return res.status(500).json({
-      error: 'Configuration error',
-      message: 'API key not configured on server',
-    });
-  }
-
-  if (!receivedKey) {
-    return res.status(401).json({
-      error: 'Unauthorized',
-      message: 'Missing X-API-Key header',
-    });
-  }
-
-  // Trim whitespace and compare
-  const cleanReceivedKey = receivedKey.trim();
-  const cleanExpectedKey = expectedKey.trim();
-
-  if (cleanReceivedKey !== cleanExpectedKey) {
-    console.error('Key mismatch!');
-    console.error('Received length:', cleanReceivedKey.length);
-    console.error('Expected length:', cleanExpectedKey.length);
-    return res.status(401).json({
-      error: 'Unauthorized',
-      message: 'Invalid API key',
-    });
-  }
-
-  next();
-}
+// Request ids, access logs and HTTP metrics
+app.use(requestContext());
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
@@ -77,40 +64,81 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
-// Debug endpoint - REMOVE THIS AFTER FIXING
-app.get('/debug/env', (req: Request, res: Response) => {
-  res.json({
-    API_KEY_SET: !!process.env.API_KEY,
-    API_KEY_LENGTH: process.env.API_KEY?.length || 0,
-    API_KEY_FIRST_10: process.env.API_KEY?.substring(0, 10) || 'NOT SET',
-    NODE_ENV: process.env.NODE_ENV,
-    FMCSA_KEY_SET: !!process.env.FMCSA_API_KEY,
-  });
+// Prometheus scrape endpoint - open like /health unless METRICS_TOKEN is set
+app.get('/metrics', (req: Request, res: Response) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return res.status(401).json({
+      error: 'Unauthorized',
+      message: 'Missing or invalid metrics token',
+    });
+  }
+
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
+// Readiness - storage failures take the instance out of rotation (503); FMCSA trouble only degrades it
+app.get('/ready', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const report = await checkReadiness();
+    res.status(report.status === 'not_ready' ? 503 : 200).json(report);
+  } catch (error) {
+    next(error);
+  }
 });
 
 // Main verification endpoint
-app.post('/api/verify', authenticateApiKey, async (req: Request, res: Response) => {
+app.post('/api/verify', requireScope('verify'), rateLimit('verify'), async (req: Request, res: Response) => {
   try {
-    const load: LoadVerificationInput = req.body;
+    const { policy_id, locale, mode, evaluated_at, ...body }: Record<string, unknown> & {
+      policy_id?: string;
+      locale?: string;
+      mode?: EvaluationMode;
+      evaluated_at?: string;
+    } = req.body || {};
+
+    const parsed = parseLoadInput(body);
+    const errors = [...(parsed.ok ? [] : parsed.errors), ...optionErrors({ policy_id, mode, evaluated_at })];
 
-    const validationError = validateLoadInput(load);
-    if (validationError) {
+    if (!parsed.ok || errors.length > 0) {
       return res.status(400).json({
         error: 'Invalid input',
-        message: validationError,
+        message: describeErrors(errors),
+        errors,
       });
     }
 
-    console.log(`[VERIFY] Processing load ${load.load_id} from ${load.broker_name} (MC: ${load.broker_mc})`);
+    const load = parsed.load;
 
-    const result: VerificationResult = await verifyLoad(load);
+    log.info('verifying load', { load_id: load.load_id, broker_mc: load.broker_mc, client_name: res.locals.caller.client_name });
 
-    console.log(`[VERIFY] Result: ${result.verification_status} - ${result.reasons.length} reasons`);
+    const result: VerificationResult = await verifyLoad(load, {
+      policy_id,
+      locale: resolveLocale(req, locale),
+      mode,
+      evaluated_at,
+      caller: res.locals.caller,
+    });
+
+    log.info('verification completed', {
+      load_id: load.load_id,
+      verification_id: result.verification_id,
+      status: result.verification_status,
+      reasons: result.reasons.map(reason => reason.code),
+      policy: result.policy,
+    });
 
     res.json(result);
 
   } catch (error) {
-    console.error('[VERIFY] Error:', error);
+    if (error instanceof PolicyNotFoundError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: error.message,
+      });
+    }
+
+    log.error('verification failed', { error });
     
     res.status(500).json({
       error: 'Verification failed',
@@ -120,57 +148,65 @@ app.post('/api/verify', authenticateApiKey, async (req: Request, res: Response)
 });
 
 // Batch verification endpoint
-app.post('/api/verify/batch', authenticateApiKey, async (req: Request, res: Response) => {
+app.post('/api/verify/batch', requireScope('verify:batch'), rateLimit('verify:batch'), async (req: Request, res: Response) => {
   try {
-    const loads: LoadVerificationInput[] = req.body.loads;
+    const items: unknown[] = req.body.loads;
+    const policyId: string | undefined = req.body.policy_id;
+    const locale = resolveLocale(req, req.body.locale);
+    const mode: EvaluationMode | undefined = req.body.mode;
+    const evaluatedAt: string | undefined = req.body.evaluated_at;
 
-    if (!Array.isArray(loads)) {
+    if (!Array.isArray(items)) {
       return res.status(400).json({
         error: 'Invalid input',
         message: 'Request body must contain "loads" array',
       });
     }
 
-    if (loads.length > 50) {
+    if (items.length > 50) {
       return res.status(400).json({
         error: 'Invalid input',
         message: 'Maximum 50 loads per batch request',
       });
     }
 
-    console.log(`[VERIFY BATCH] Processing ${loads.length} loads`);
+    const { loads, invalid } = parseLoadBatch(items);
+    const inputError = batchInputError(optionErrors({ policy_id: policyId, mode, evaluated_at: evaluatedAt }), invalid, items.length);
+    if (inputError) {
+      return res.status(400).json(inputError);
+    }
+
+    // Resolve once up front so an unknown policy fails the whole batch
+    const policy = await getPolicy(policyId);
+
+    metrics.batchSize.observe({ kind: 'sync' }, loads.length);
+    log.info('verifying batch', { total: loads.length, policy: { id: policy.id, version: policy.version } });
 
     const results = await Promise.all(
-      loads.map(async (load) => {
-        try {
-          const result = await verifyLoad(load);
-          return {
-            load_id: load.load_id,
-            ...result,
-          };
-        } catch (error) {
-          return {
-            load_id: load.load_id,
-            verification_status: 'NEEDS_REVIEW' as const,
-            reasons: [`Verification error: ${error instanceof Error ? error.message : 'Unknown'}`],
-            verified_at: new Date().toISOString(),
-          };
-        }
-      })
+      loads.map(load => verifyBatchItem(load, policy, {
+        locale,
+        mode,
+        evaluated_at: evaluatedAt,
+        caller: res.locals.caller,
+      }))
     );
 
-    console.log(`[VERIFY BATCH] Completed: ${results.length} results`);
+    log.info('batch completed', { total: results.length });
 
     res.json({
-      total: results.length,
-      approved: results.filter(r => r.verification_status === 'APPROVED').length,
-      rejected: results.filter(r => r.verification_status === 'REJECTED').length,
-      needs_review: results.filter(r => r.verification_status === 'NEEDS_REVIEW').length,
+      ...summarize(results.map(r => r.verification_status)),
       results,
     });
 
   } catch (error) {
-    console.error('[VERIFY BATCH] Error:', error);
+    if (error instanceof PolicyNotFoundError) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: error.message,
+      });
+    }
+
+    log.error('batch verification failed', { error });
     
     res.status(500).json({
       error: 'Batch verification failed',
@@ -179,28 +215,170 @@ app.post('/api/verify/batch', authenticateApiKey, async (req: Request, res: Resp
   }
 });
 
-// Input validation
-function validateLoadInput(load: LoadVerificationInput): string | null {
-  if (!load.load_id) return 'load_id is required';
-  if (!load.broker_name) return 'broker_name is required';
-  if (!load.broker_mc) return 'broker_mc is required';
-  if (typeof load.credit_score !== 'number') return 'credit_score must be a number';
-  if (!load.posted_at) return 'posted_at is required';
-  
-  if (isNaN(Date.parse(load.posted_at))) {
-    return 'posted_at must be valid ISO 8601 timestamp';
+// Audit log - list past verifications
+app.get('/api/verifications', requireScope('verify'), async (req: Request, res: Response) => {
+  try {
+    const { load_id, broker_mc, status, from, to, limit, offset } = req.query as Record<string, string | undefined>;
+
+    if (status && !['APPROVED', 'REJECTED', 'NEEDS_REVIEW'].includes(status)) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'status must be APPROVED, REJECTED or NEEDS_REVIEW',
+      });
+    }
+
+    if ((from && isNaN(Date.parse(from))) || (to && isNaN(Date.parse(to)))) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'from and to must be valid ISO 8601 timestamps',
+      });
+    }
+
+    // Integrators only see their own decisions; admin keys see everything
+    const apiKey: AuthenticatedKey = res.locals.apiKey;
+
+    const page = await queryVerifications({
+      client_name: hasScope(apiKey, 'admin') ? undefined : apiKey.client_name,
+      load_id,
+      broker_mc,
+      status: status as VerificationStatus | undefined,
+      from,
+      to,
+      limit: limit ? parseInt(limit, 10) : undefined,
+      offset: offset ? parseInt(offset, 10) : undefined,
+    });
+
+    // Attach the human decision for anything that went through the review queue
+    const reviews = await reviewsForVerifications(page.records.map(record => record.verification_id));
+
+    res.json({
+      ...page,
+      records: page.records.map(record => ({
+        ...record,
+        resolved_status: resolvedStatus(record.verification_status, reviews.get(record.verification_id)),
+        review: reviews.get(record.verification_id) || null,
+      })),
+    });
+
+  } catch (error) {
+    log.error('audit query failed', { error });
+
+    res.status(500).json({
+      error: 'Audit query failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+// Audit log - single verification
+app.get('/api/verifications/:id', requireScope('verify'), async (req: Request, res: Response) => {
+  try {
+    const record = await findVisibleVerification(req.params.id, res.locals.apiKey);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Verification ${req.params.id} not found`,
+      });
+    }
+
+    const review = (await reviewsForVerifications([record.verification_id])).get(record.verification_id);
+
+    res.json({
+      ...record,
+      resolved_status: resolvedStatus(record.verification_status, review),
+      review: review || null,
+    });
+
+  } catch (error) {
+    log.error('audit lookup failed', { error });
+
+    res.status(500).json({
+      error: 'Audit lookup failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
+
+// Explanation report for a decision - JSON, or printable HTML (?format=html) to forward in a dispute
+app.get('/api/verifications/:id/explanation', requireScope('verify'), async (req: Request, res: Response) => {
+  try {
+    const format = req.query.format || 'json';
 
-  if (load.credit_score < 0 || load.credit_score > 100) {
-    return 'credit_score must be between 0 and 100';
+    if (format !== 'json' && format !== 'html') {
+      return res.status(400).json({
+        error: 'Invalid input',
+        message: 'format must be "json" or "html"',
+      });
+    }
+
+    const record = await findVisibleVerification(req.params.id, res.locals.apiKey);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: `Verification ${req.params.id} not found`,
+      });
+    }
+
+    const review = (await reviewsForVerifications([record.verification_id])).get(record.verification_id);
+    const explanation = buildExplanation(record, { review, locale: resolveLocale(req, req.query.locale) });
+
+    if (format === 'html') {
+      return res
+        .type('html')
+        .setHeader('Content-Disposition', `inline; filename="verification-${record.verification_id}.html"`)
+        .send(renderExplanationHtml(explanation));
+    }
+
+    res.json(explanation);
+
+  } catch (error) {
+    log.error('explanation failed', { verification_id: req.params.id, error });
+
+    res.status(500).json({
+      error: 'Explanation failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
   }
+});
 
-  return null;
+// Integrators only see their own decisions; admin keys see everything
+async function findVisibleVerification(id: string, apiKey: AuthenticatedKey): Promise<AuditRecord | null> {
+  const record = await getVerification(id);
+  const visible = record && (hasScope(apiKey, 'admin') || record.caller?.client_name === apiKey.client_name);
+  return visible ? record : null;
 }
 
+// Available verification policies
+app.get('/api/policies', requireScope('verify'), (req: Request, res: Response) => {
+  res.json({ policies: listPolicies() });
+});
+
+// Asynchronous batch jobs
+app.use('/api/jobs', batchJobsRouter);
+
+// Broker monitoring
+app.use('/api/monitoring', monitoringRouter);
+
+// Policy what-if simulations
+app.use('/api/simulations', simulationsRouter);
+
+// Human review queue for NEEDS_REVIEW decisions
+app.use('/api/reviews', reviewsRouter);
+
+// API key administration
+app.use('/admin/keys', adminKeysRouter);
+
+// Internal broker block/allow lists
+app.use('/admin/lists', brokerListsRouter);
+
+// Runtime diagnostics (no secrets)
+app.use('/admin/diagnostics', diagnosticsRouter);
+
 // Error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error('Unhandled error:', err);
+  log.error('unhandled error', { error: err });
   
   res.status(500).json({
     error: 'Internal server error',
@@ -211,18 +389,14 @@ app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
 // Start server
 if (require.main === module) {
   app.listen(PORT, () => {
-    console.log(`
-╔════════════════════════════════════════════════════════════════╗
-║                                                                ║
-║         🔍 Load Verification Agent API Server                 ║
-║                                                                ║
-║  Status:     RUNNING                                           ║
-║  Port:       ${PORT}                                              ║
-║  Env:        ${process.env.NODE_ENV || 'development'}                                   ║
-║  API Key:    ${process.env.API_KEY ? 'SET' : 'NOT SET'}                                     ║
-║                                                                ║
-╚════════════════════════════════════════════════════════════════╝
-    `);
+    log.info('server started', {
+      port: PORT,
+      environment: process.env.NODE_ENV || 'development',
+      api_key_configured: !!process.env.API_KEY,
+    });
+
+    startBrokerMonitor();
+    startBatchJobRunner().catch(error => log.error('failed to recover orphaned batch jobs', { error }));
   });
 }
 
@@ -0,0 +1,233 @@
+/**
+ * API Key Store
+ * Per-client API keys stored as hashes, with scopes, expiry and usage tracking
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { createDocumentStore, DocumentStore } from './documentStore';
+import type { RateLimits } from './rateLimiter';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'api_keys' });
+
+// Types
+export const API_SCOPES = ['verify', 'verify:batch', 'review', 'admin'] as const;
+export type ApiScope = typeof API_SCOPES[number];
+
+export interface ApiKeyRecord {
+  id: string;
+  client_name: string;
+  key_hash: string;
+  scopes: ApiScope[];
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  rotated_from?: string;
+  // Overrides of the default rate limits and quotas for this client
+  rate_limits?: Partial<RateLimits>;
+}
+
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'key_hash'>;
+
+export interface AuthenticatedKey {
+  id: string;
+  client_name: string;
+  scopes: ApiScope[];
+  rate_limits?: Partial<RateLimits>;
+}
+
+export type AuthenticationResult =
+  | { ok: true; key: AuthenticatedKey }
+  | { ok: false; reason: 'invalid' | 'expired' | 'revoked' };
+
+export class ApiKeyNotFoundError extends Error {
+  constructor(public readonly keyId: string) {
+    super(`API key ${keyId} not found`);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+// A revoked or expired key stays cut off - it can't be rotated into a fresh one
+export class ApiKeyInactiveError extends Error {
+  constructor(public readonly keyId: string, public readonly reason: 'expired' | 'revoked') {
+    super(`API key ${keyId} is ${reason} and cannot be rotated`);
+    this.name = 'ApiKeyInactiveError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  KEY_PREFIX: 'lva',
+  // last_used_at is only rewritten this often to keep auth off the storage hot path
+  LAST_USED_WRITE_INTERVAL_MS: 60000,
+  // The legacy single API_KEY keeps working as a bootstrap admin key
+  ENV_KEY_ID: 'env',
+  ENV_KEY_CLIENT_NAME: process.env.API_KEY_CLIENT_NAME || 'default',
+};
+
+let store: DocumentStore<ApiKeyRecord> = createDocumentStore<ApiKeyRecord>('api-keys');
+
+export function setApiKeyStore(next: DocumentStore<ApiKeyRecord>): void {
+  store = next;
+}
+
+export function hasScope(key: AuthenticatedKey, scope: ApiScope): boolean {
+  return key.scopes.includes('admin') || key.scopes.includes(scope);
+}
+
+export function isApiScope(value: unknown): value is ApiScope {
+  return typeof value === 'string' && (API_SCOPES as readonly string[]).includes(value);
+}
+
+// Whether any credential exists at all (env bootstrap key or stored keys)
+export async function isAuthConfigured(): Promise<boolean> {
+  return !!process.env.API_KEY || (await store.list()).length > 0;
+}
+
+// Resolve a presented key to its client, comparing hashes in constant time
+export async function authenticateApiKey(presented: string): Promise<AuthenticationResult> {
+  const key = presented.trim();
+  const presentedHash = hashKey(key);
+
+  const envKey = process.env.API_KEY?.trim();
+  if (envKey && safeEqual(presentedHash, hashKey(envKey))) {
+    return {
+      ok: true,
+      key: { id: CONFIG.ENV_KEY_ID, client_name: CONFIG.ENV_KEY_CLIENT_NAME, scopes: ['admin'] },
+    };
+  }
+
+  const keyId = parseKeyId(key);
+  const record = keyId ? await store.get(keyId) : null;
+
+  // Still hash-compare against a dummy when the id is unknown so timing doesn't leak which ids exist
+  const expectedHash = record?.key_hash || hashKey(randomBytes(16).toString('hex'));
+  if (!safeEqual(presentedHash, expectedHash) || !record) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (record.revoked_at) {
+    return { ok: false, reason: 'revoked' };
+  }
+
+  if (record.expires_at && Date.parse(record.expires_at) <= Date.now()) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  touch(record);
+
+  return {
+    ok: true,
+    key: { id: record.id, client_name: record.client_name, scopes: record.scopes, rate_limits: record.rate_limits },
+  };
+}
+
+// Create a key - the plaintext is returned once and never stored
+export async function issueApiKey(input: {
+  client_name: string;
+  scopes: ApiScope[];
+  expires_at?: string | null;
+  rotated_from?: string;
+  rate_limits?: Partial<RateLimits>;
+}): Promise<{ key: string; info: ApiKeyInfo }> {
+  const id = randomBytes(6).toString('hex');
+  const key = `${CONFIG.KEY_PREFIX}_${id}_${randomBytes(32).toString('base64url')}`;
+
+  const record: ApiKeyRecord = {
+    id,
+    client_name: input.client_name,
+    key_hash: hashKey(key),
+    scopes: Array.from(new Set(input.scopes)),
+    created_at: new Date().toISOString(),
+    expires_at: input.expires_at || null,
+    revoked_at: null,
+    last_used_at: null,
+    ...(input.rotated_from && { rotated_from: input.rotated_from }),
+    ...(input.rate_limits && { rate_limits: input.rate_limits }),
+  };
+
+  await store.put(id, record);
+  return { key, info: toInfo(record) };
+}
+
+export async function listApiKeys(): Promise<ApiKeyInfo[]> {
+  const records = await store.list();
+  return records
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(toInfo);
+}
+
+export async function getApiKey(id: string): Promise<ApiKeyInfo> {
+  const record = await store.get(id);
+  if (!record) throw new ApiKeyNotFoundError(id);
+  return toInfo(record);
+}
+
+export async function revokeApiKey(id: string): Promise<ApiKeyInfo> {
+  const record = await store.get(id);
+  if (!record) throw new ApiKeyNotFoundError(id);
+
+  if (!record.revoked_at) {
+    record.revoked_at = new Date().toISOString();
+    await store.put(id, record);
+  }
+
+  return toInfo(record);
+}
+
+// Issue a replacement key; the old one keeps working for the grace period, then expires
+export async function rotateApiKey(id: string, graceSeconds = 0): Promise<{ key: string; info: ApiKeyInfo; previous: ApiKeyInfo }> {
+  const record = await store.get(id);
+  if (!record) throw new ApiKeyNotFoundError(id);
+  if (record.revoked_at) throw new ApiKeyInactiveError(id, 'revoked');
+  if (record.expires_at && Date.parse(record.expires_at) <= Date.now()) throw new ApiKeyInactiveError(id, 'expired');
+
+  const replacement = await issueApiKey({
+    client_name: record.client_name,
+    scopes: record.scopes,
+    expires_at: record.expires_at,
+    rotated_from: record.id,
+    rate_limits: record.rate_limits,
+  });
+
+  if (graceSeconds > 0) {
+    const graceEnd = new Date(Date.now() + graceSeconds * 1000).toISOString();
+    record.expires_at = record.expires_at && record.expires_at < graceEnd ? record.expires_at : graceEnd;
+  } else {
+    record.revoked_at = new Date().toISOString();
+  }
+
+  await store.put(id, record);
+  return { ...replacement, previous: toInfo(record) };
+}
+
+function touch(record: ApiKeyRecord): void {
+  const lastUsed = record.last_used_at ? Date.parse(record.last_used_at) : 0;
+  if (Date.now() - lastUsed < CONFIG.LAST_USED_WRITE_INTERVAL_MS) return;
+
+  record.last_used_at = new Date().toISOString();
+  store.put(record.id, record).catch(error => {
+    log.error('failed to update last_used_at', { key_id: record.id, error });
+  });
+}
+
+function parseKeyId(key: string): string | null {
+  const match = key.match(new RegExp(`^${CONFIG.KEY_PREFIX}_([a-f0-9]{12})_`));
+  return match ? match[1] : null;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function toInfo(record: ApiKeyRecord): ApiKeyInfo {
+  const { key_hash, ...info } = record;
+  return info;
+}
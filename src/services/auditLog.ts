@@ -0,0 +1,208 @@
+/**
+ * Verification Audit Log
+ * Persists every verification decision for disputes and compliance
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import type {
+  LoadVerificationInput,
+  PolicyReference,
+  VerificationResult,
+  VerificationStatus,
+  VerifyOptions,
+} from './verificationService';
+import type { CheckSeverity, ScoringPolicy } from './policyService';
+import type { ReasonCode, ReasonParams } from './reasonCodes';
+import type { CheckEvidence, CheckRunStatus } from './checkPipeline';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'audit' });
+
+// Types
+export interface CallerIdentity {
+  key_id: string;
+  client_name?: string;
+}
+
+export interface CheckRecord {
+  check: string;
+  // Absent on records written before the check pipeline
+  status?: CheckRunStatus;
+  duration_ms?: number;
+  // null when the check failed or timed out
+  risk: number | null;
+  findings: Array<{ code: ReasonCode; severity: CheckSeverity; params: ReasonParams }>;
+  // Findings dropped by an allowlist waiver
+  waived?: Array<{ code: ReasonCode; severity: CheckSeverity; params: ReasonParams }>;
+  metadata: Record<string, unknown>;
+  // Absent on records written before explanation reports, and for custom checks that don't report it
+  evidence?: CheckEvidence;
+}
+
+export interface AuditRecord {
+  verification_id: string;
+  load_id: string;
+  broker_mc: string;
+  verification_status: VerificationStatus;
+  input: LoadVerificationInput;
+  policy: PolicyReference;
+  // Score thresholds the verdict was banded with (absent on older records)
+  score_bands?: ScoringPolicy['bands'];
+  options: Pick<VerifyOptions, 'mode' | 'locale' | 'evaluated_at'>;
+  checks: CheckRecord[];
+  result: VerificationResult;
+  caller: CallerIdentity | null;
+  // Correlates the decision with the request's log lines (absent on older records)
+  request_id?: string | null;
+  created_at: string;
+}
+
+export interface AuditQuery {
+  client_name?: string;
+  load_id?: string;
+  broker_mc?: string;
+  status?: VerificationStatus;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditStore {
+  save(record: AuditRecord): Promise<void>;
+  get(verificationId: string): Promise<AuditRecord | null>;
+  query(query: AuditQuery): Promise<{ total: number; records: AuditRecord[] }>;
+}
+
+// Configuration
+const CONFIG = {
+  BACKEND: process.env.AUDIT_BACKEND || 'file',
+  FILE: process.env.AUDIT_LOG_FILE || path.join(process.env.DATA_DIR || 'data', 'audit.jsonl'),
+  DEFAULT_LIMIT: 50,
+  MAX_LIMIT: 500,
+};
+
+// In-memory store (tests, ephemeral deployments)
+export class MemoryAuditStore implements AuditStore {
+  private records: AuditRecord[] = [];
+
+  async save(record: AuditRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async get(verificationId: string): Promise<AuditRecord | null> {
+    return this.records.find(r => r.verification_id === verificationId) || null;
+  }
+
+  async query(query: AuditQuery): Promise<{ total: number; records: AuditRecord[] }> {
+    return paginate(this.records.filter(matches(query)), query);
+  }
+}
+
+// Append-only JSON Lines file - one decision per line, never rewritten
+export class FileAuditStore implements AuditStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  save(record: AuditRecord): Promise<void> {
+    // Serialize appends so concurrent batch results never interleave
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async get(verificationId: string): Promise<AuditRecord | null> {
+    let found: AuditRecord | null = null;
+    await this.scan(record => {
+      if (record.verification_id === verificationId) found = record;
+    });
+    return found;
+  }
+
+  async query(query: AuditQuery): Promise<{ total: number; records: AuditRecord[] }> {
+    const filter = matches(query);
+    const records: AuditRecord[] = [];
+    await this.scan(record => {
+      if (filter(record)) records.push(record);
+    });
+    return paginate(records, query);
+  }
+
+  private async scan(visit: (record: AuditRecord) => void): Promise<void> {
+    await this.writeQueue;
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        visit(JSON.parse(line));
+      } catch (error) {
+        log.warn('skipping unreadable audit log line', { file: this.filePath });
+      }
+    }
+  }
+}
+
+let auditStore: AuditStore = CONFIG.BACKEND === 'memory'
+  ? new MemoryAuditStore()
+  : new FileAuditStore(CONFIG.FILE);
+
+// Where the log lives - for readiness checks and diagnostics
+export function describeAuditStorage(): { backend: string; path: string | null } {
+  return { backend: CONFIG.BACKEND, path: CONFIG.BACKEND === 'memory' ? null : CONFIG.FILE };
+}
+
+export function setAuditStore(store: AuditStore): void {
+  auditStore = store;
+}
+
+export function recordVerification(record: AuditRecord): Promise<void> {
+  return auditStore.save(record);
+}
+
+export function getVerification(verificationId: string): Promise<AuditRecord | null> {
+  return auditStore.get(verificationId);
+}
+
+export function queryVerifications(query: AuditQuery): Promise<{ total: number; records: AuditRecord[] }> {
+  return auditStore.query(query);
+}
+
+function matches(query: AuditQuery): (record: AuditRecord) => boolean {
+  const from = query.from ? Date.parse(query.from) : null;
+  const to = query.to ? Date.parse(query.to) : null;
+
+  return record => {
+    if (query.client_name && record.caller?.client_name !== query.client_name) return false;
+    if (query.load_id && record.load_id !== query.load_id) return false;
+    if (query.broker_mc && record.broker_mc !== query.broker_mc) return false;
+    if (query.status && record.verification_status !== query.status) return false;
+
+    const created = Date.parse(record.created_at);
+    if (from !== null && created < from) return false;
+    if (to !== null && created > to) return false;
+
+    return true;
+  };
+}
+
+// Newest first
+function paginate(records: AuditRecord[], query: AuditQuery): { total: number; records: AuditRecord[] } {
+  const limit = Math.min(Math.max(query.limit || CONFIG.DEFAULT_LIMIT, 1), CONFIG.MAX_LIMIT);
+  const offset = Math.max(query.offset || 0, 0);
+
+  const sorted = [...records].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  return { total: sorted.length, records: sorted.slice(offset, offset + limit) };
+}
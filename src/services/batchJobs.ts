@@ -0,0 +1,393 @@
+/**
+ * Batch Verification Jobs
+ * Background verification of large load sets with progress, paged results and completion webhooks.
+ * Jobs run inside the process that accepted them and their loads are never persisted, so they need a
+ * long-lived server - on serverless deployments a job would stop once the 202 had gone out, so submissions
+ * are refused until the server's startup calls startBatchJobRunner()
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { randomUUID } from 'crypto';
+import {
+  verifyLoad,
+  EvaluationMode,
+  LoadVerificationInput,
+  PolicyReference,
+  VerificationResult,
+  VerificationStatus,
+} from './verificationService';
+import type { VerificationPolicy } from './policyService';
+import { buildReason, Locale } from './reasonCodes';
+import { CallerIdentity } from './auditLog';
+import { getClock } from './clock';
+import { createDocumentStore, DocumentStore } from './documentStore';
+import { deliverWebhook, WebhookDelivery } from './webhooks';
+import { getLogContext, logger, runWithLogContext } from './logger';
+import { metrics } from './metrics';
+
+const log = logger.child({ component: 'batch_jobs' });
+
+// Types
+export type BatchJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type BatchItemResult = VerificationResult & { load_id: string };
+
+export interface BatchJobResult extends BatchItemResult {
+  index: number;
+}
+
+export interface BatchSummary {
+  total: number;
+  approved: number;
+  rejected: number;
+  needs_review: number;
+}
+
+export interface BatchJob {
+  id: string;
+  status: BatchJobStatus;
+  policy: PolicyReference;
+  options: { locale: Locale; mode?: EvaluationMode; evaluated_at?: string };
+  caller: CallerIdentity | null;
+  total: number;
+  processed: number;
+  summary: BatchSummary;
+  error?: string;
+  webhook: (Pick<WebhookDelivery, 'url' | 'status' | 'attempts'> & Partial<WebhookDelivery>) | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface BatchJobInput {
+  loads: LoadVerificationInput[];
+  // Resolved at submit time - every item is verified under this exact version
+  policy: VerificationPolicy;
+  locale: Locale;
+  mode?: EvaluationMode;
+  evaluated_at?: string;
+  caller: CallerIdentity | null;
+  callback?: { url: string; secret: string };
+}
+
+export interface JobResultStore {
+  append(jobId: string, result: BatchJobResult): Promise<void>;
+  list(jobId: string): Promise<BatchJobResult[]>;
+}
+
+export class BatchJobsUnavailableError extends Error {
+  constructor() {
+    super('Batch jobs need the long-lived server - this deployment cannot run them; use /api/verify/batch');
+    this.name = 'BatchJobsUnavailableError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  BACKEND: process.env.STORAGE_BACKEND || 'file',
+  RESULTS_DIR: path.join(process.env.DATA_DIR || 'data', 'batch-jobs'),
+  // Loads verified at once within a job, and jobs run at once per instance
+  CONCURRENCY: parseInt(process.env.BATCH_JOB_CONCURRENCY || '5'),
+  MAX_RUNNING_JOBS: parseInt(process.env.BATCH_JOB_MAX_RUNNING || '2'),
+  // Progress is persisted every N results (and always at the end)
+  PROGRESS_SAVE_EVERY: 50,
+  DEFAULT_PAGE_SIZE: 100,
+  MAX_PAGE_SIZE: 1000,
+};
+
+// In-memory result store (tests, ephemeral deployments)
+export class MemoryJobResultStore implements JobResultStore {
+  private results = new Map<string, BatchJobResult[]>();
+
+  async append(jobId: string, result: BatchJobResult): Promise<void> {
+    const results = this.results.get(jobId) || [];
+    results.push(result);
+    this.results.set(jobId, results);
+  }
+
+  async list(jobId: string): Promise<BatchJobResult[]> {
+    return [...(this.results.get(jobId) || [])].sort((a, b) => a.index - b.index);
+  }
+}
+
+// One append-only JSON Lines file per job
+export class FileJobResultStore implements JobResultStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dir: string) {}
+
+  append(jobId: string, result: BatchJobResult): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.appendFile(this.filePath(jobId), JSON.stringify(result) + '\n');
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  async list(jobId: string): Promise<BatchJobResult[]> {
+    await this.writeQueue;
+    const filePath = this.filePath(jobId);
+    if (!fs.existsSync(filePath)) return [];
+
+    const results: BatchJobResult[] = [];
+    const lines = readline.createInterface({
+      input: fs.createReadStream(filePath, 'utf8'),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      if (line.trim()) results.push(JSON.parse(line));
+    }
+
+    return results.sort((a, b) => a.index - b.index);
+  }
+
+  private filePath(jobId: string): string {
+    return path.join(this.dir, `${path.basename(jobId)}.jsonl`);
+  }
+}
+
+let jobStore: DocumentStore<BatchJob> = createDocumentStore<BatchJob>('batch-jobs');
+let resultStore: JobResultStore = CONFIG.BACKEND === 'memory'
+  ? new MemoryJobResultStore()
+  : new FileJobResultStore(CONFIG.RESULTS_DIR);
+
+// Jobs executing in this process - the live copy is fresher than the persisted one
+const activeJobs = new Map<string, BatchJob>();
+const pending: Array<() => Promise<void>> = [];
+let running = 0;
+let runnerStarted = false;
+
+export function setBatchJobStores(jobs: DocumentStore<BatchJob>, results: JobResultStore): void {
+  jobStore = jobs;
+  resultStore = results;
+}
+
+// Verify one load of a batch; failures become a SYSTEM_ERROR review result instead of failing the batch
+export async function verifyBatchItem(
+  load: LoadVerificationInput,
+  policy: VerificationPolicy,
+  options: { locale: Locale; mode?: EvaluationMode; evaluated_at?: string; caller: CallerIdentity | null }
+): Promise<BatchItemResult> {
+  try {
+    const result = await verifyLoad(load, {
+      policy,
+      locale: options.locale,
+      mode: options.mode,
+      evaluated_at: options.evaluated_at,
+      caller: options.caller,
+    });
+    return {
+      load_id: load.load_id,
+      ...result,
+    };
+  } catch (error) {
+    return {
+      load_id: load.load_id,
+      verification_status: 'NEEDS_REVIEW',
+      reasons: [buildReason('system', 'SYSTEM_ERROR', 'review', {
+        error: error instanceof Error ? error.message : 'Unknown',
+      }, options.locale)],
+      verified_at: new Date(getClock().now()).toISOString(),
+      policy: { id: policy.id, version: policy.version },
+    };
+  }
+}
+
+export function summarize(statuses: VerificationStatus[]): BatchSummary {
+  return {
+    total: statuses.length,
+    approved: statuses.filter(s => s === 'APPROVED').length,
+    rejected: statuses.filter(s => s === 'REJECTED').length,
+    needs_review: statuses.filter(s => s === 'NEEDS_REVIEW').length,
+  };
+}
+
+// Persist a queued job and schedule it; returns immediately
+export async function submitBatchJob(input: BatchJobInput): Promise<BatchJob> {
+  if (!runnerStarted) {
+    throw new BatchJobsUnavailableError();
+  }
+
+  const job: BatchJob = {
+    id: randomUUID(),
+    status: 'queued',
+    policy: { id: input.policy.id, version: input.policy.version },
+    options: {
+      locale: input.locale,
+      ...(input.mode && { mode: input.mode }),
+      ...(input.evaluated_at && { evaluated_at: input.evaluated_at }),
+    },
+    caller: input.caller,
+    total: input.loads.length,
+    processed: 0,
+    summary: summarize([]),
+    webhook: input.callback ? { url: input.callback.url, status: 'pending', attempts: 0 } : null,
+    created_at: new Date().toISOString(),
+    started_at: null,
+    completed_at: null,
+  };
+
+  await jobStore.put(job.id, { ...job });
+  activeJobs.set(job.id, job);
+
+  metrics.batchSize.observe({ kind: 'job' }, job.total);
+
+  // Loads and the webhook secret stay in memory only - neither is persisted.
+  // The job logs under the submitting request's id, whichever request's callback ends up starting it.
+  const context = { ...getLogContext(), job_id: job.id };
+  pending.push(() => runWithLogContext(context, () => runJob(job, input)));
+  drainQueue();
+
+  return job;
+}
+
+// Accept jobs in this process - only for the long-lived server. Jobs another instance left queued or running
+// were cut off by its restart, so they're failed here; never call this where instances overlap (serverless).
+export async function startBatchJobRunner(): Promise<BatchJob[]> {
+  runnerStarted = true;
+  return failOrphanedJobs();
+}
+
+// A job still queued or running in storage that this process isn't executing was cut off by a restart -
+// its loads are gone, so fail it rather than leave it pending forever
+async function failOrphanedJobs(): Promise<BatchJob[]> {
+  const orphaned = (await jobStore.list())
+    .filter(job => (job.status === 'queued' || job.status === 'running') && !activeJobs.has(job.id));
+
+  const now = new Date().toISOString();
+
+  for (const job of orphaned) {
+    job.status = 'failed';
+    job.error = 'Interrupted by a service restart before it finished - resubmit the loads';
+    job.completed_at = now;
+    await saveJob(job);
+  }
+
+  if (orphaned.length > 0) {
+    log.warn('failed orphaned batch jobs', { job_ids: orphaned.map(job => job.id) });
+  }
+
+  return orphaned;
+}
+
+export async function getBatchJob(id: string): Promise<BatchJob | null> {
+  return activeJobs.get(id) || jobStore.get(id);
+}
+
+export async function listBatchJobs(clientName?: string): Promise<BatchJob[]> {
+  const jobs = await jobStore.list();
+  return jobs
+    .map(job => activeJobs.get(job.id) || job)
+    .filter(job => !clientName || job.caller?.client_name === clientName)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Results in submission order
+export async function getBatchJobResults(
+  id: string,
+  query: { status?: VerificationStatus; limit?: number; offset?: number }
+): Promise<{ total: number; results: BatchJobResult[] }> {
+  const limit = Math.min(Math.max(query.limit || CONFIG.DEFAULT_PAGE_SIZE, 1), CONFIG.MAX_PAGE_SIZE);
+  const offset = Math.max(query.offset || 0, 0);
+
+  const results = (await resultStore.list(id))
+    .filter(result => !query.status || result.verification_status === query.status);
+
+  return { total: results.length, results: results.slice(offset, offset + limit) };
+}
+
+function drainQueue(): void {
+  while (running < CONFIG.MAX_RUNNING_JOBS && pending.length > 0) {
+    const run = pending.shift()!;
+    running++;
+    run().finally(() => {
+      running--;
+      drainQueue();
+    });
+  }
+}
+
+async function runJob(job: BatchJob, input: BatchJobInput): Promise<void> {
+  job.status = 'running';
+  job.started_at = new Date().toISOString();
+  await saveJob(job);
+
+  log.info('batch job started', { total: job.total, policy: job.policy });
+
+  const statuses: VerificationStatus[] = [];
+
+  try {
+    await runPool(input.loads, CONFIG.CONCURRENCY, async (load, index) => {
+      const result = await verifyBatchItem(load, input.policy, {
+        locale: job.options.locale,
+        mode: job.options.mode,
+        evaluated_at: job.options.evaluated_at,
+        caller: job.caller,
+      });
+
+      await resultStore.append(job.id, { index, ...result });
+
+      statuses.push(result.verification_status);
+      job.processed = statuses.length;
+      job.summary = summarize(statuses);
+
+      if (job.processed % CONFIG.PROGRESS_SAVE_EVERY === 0) {
+        await saveJob(job);
+      }
+    });
+
+    job.status = 'completed';
+
+  } catch (error) {
+    log.error('batch job failed', { error });
+    job.status = 'failed';
+    job.error = error instanceof Error ? error.message : 'Unknown error';
+  }
+
+  job.completed_at = new Date().toISOString();
+  await saveJob(job);
+
+  log.info('batch job finished', { status: job.status, summary: job.summary });
+
+  if (input.callback) {
+    const { webhook, ...payload } = job;
+    await deliverWebhook(
+      input.callback.url,
+      `batch_job.${job.status}`,
+      { job: payload },
+      input.callback.secret,
+      delivery => { job.webhook = { ...delivery }; }
+    );
+    await saveJob(job);
+  }
+
+  activeJobs.delete(job.id);
+}
+
+async function saveJob(job: BatchJob): Promise<void> {
+  try {
+    // Store a snapshot so an in-memory store doesn't alias the live job
+    await jobStore.put(job.id, { ...job, summary: { ...job.summary } });
+  } catch (error) {
+    log.error('failed to persist batch job', { job_id: job.id, error });
+  }
+}
+
+// Run `worker` over every item with at most `concurrency` in flight
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<void>): Promise<void> {
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+}
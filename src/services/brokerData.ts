@@ -0,0 +1,231 @@
+/**
+ * Broker Data Providers
+ * Secondary vetting sources (credit/factoring data, days-to-pay, complaints) behind one interface -
+ * starting with a local CSV/JSON import
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseLoadFile, LoadFileError } from './loadFiles';
+import { normalizeMcNumber } from './loadValidation';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'broker-data' });
+
+// Types
+export interface BrokerProfile {
+  mc_number: string;
+  // Provider the profile came from
+  source: string;
+  // Same 0-100 scale as the submitted credit_score
+  credit_score: number | null;
+  // The source's own rating, as published (e.g. "A", "B+")
+  credit_rating: string | null;
+  days_to_pay: number | null;
+  complaint_count: number | null;
+  // When the source last updated the record
+  as_of: string | null;
+}
+
+export interface BrokerDataProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  // null when the source has no record for the MC. Throws BrokerDataUnavailableError otherwise.
+  lookup(mcNumber: string): Promise<BrokerProfile | null>;
+}
+
+export class BrokerDataUnavailableError extends Error {
+  constructor(public readonly source: string, detail: string) {
+    super(`Broker data source "${source}" unavailable: ${detail}`);
+    this.name = 'BrokerDataUnavailableError';
+  }
+}
+
+export class BrokerDataImportError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid broker data import: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+    this.name = 'BrokerDataImportError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  PROVIDER: process.env.BROKER_DATA_PROVIDER || 'none',
+  FILE: process.env.BROKER_DATA_FILE,
+};
+
+const NUMERIC_FIELDS = ['credit_score', 'days_to_pay', 'complaint_count'] as const;
+
+// No secondary source - the broker_data check stays out of the pipeline
+export class NoBrokerDataProvider implements BrokerDataProvider {
+  readonly name = 'none';
+
+  isConfigured(): boolean {
+    return false;
+  }
+
+  async lookup(): Promise<BrokerProfile | null> {
+    return null;
+  }
+}
+
+// Rows exported from a credit/factoring service: a .csv, .jsonl or .json (array) file, or the rows
+// themselves. Columns: mc_number (or broker_mc), credit_score, credit_rating, days_to_pay,
+// complaint_count, as_of. The file is re-read whenever it changes, so a new export takes effect
+// without a restart; an invalid file fails lookups rather than serving partial data.
+export class ImportBrokerDataProvider implements BrokerDataProvider {
+  readonly name = 'import';
+  private profiles: Map<string, BrokerProfile> | null = null;
+  private loadedMtime = 0;
+
+  constructor(private readonly source: Record<string, unknown>[] | string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async lookup(mcNumber: string): Promise<BrokerProfile | null> {
+    try {
+      const profile = (await this.load()).get(normalizeMcNumber(mcNumber) || mcNumber);
+      return profile ? { ...profile } : null;
+    } catch (error) {
+      throw new BrokerDataUnavailableError(this.name, error instanceof Error ? error.message : 'Unknown error');
+    }
+  }
+
+  private async load(): Promise<Map<string, BrokerProfile>> {
+    if (typeof this.source !== 'string') {
+      this.profiles = this.profiles || indexProfiles(this.source, this.name);
+      return this.profiles;
+    }
+
+    const { mtimeMs } = await fs.promises.stat(this.source);
+
+    if (!this.profiles || mtimeMs !== this.loadedMtime) {
+      this.profiles = indexProfiles(await readRows(this.source), this.name);
+      this.loadedMtime = mtimeMs;
+      log.info('broker data imported', { file: this.source, profiles: this.profiles.size });
+    }
+
+    return this.profiles;
+  }
+}
+
+// BROKER_DATA_PROVIDER=import reads BROKER_DATA_FILE; anything else leaves secondary vetting off
+export function createBrokerDataProvider(): BrokerDataProvider {
+  if (CONFIG.PROVIDER === 'import') {
+    if (!CONFIG.FILE) {
+      throw new Error('BROKER_DATA_PROVIDER=import requires BROKER_DATA_FILE');
+    }
+    return new ImportBrokerDataProvider(CONFIG.FILE);
+  }
+
+  return new NoBrokerDataProvider();
+}
+
+let provider: BrokerDataProvider = createBrokerDataProvider();
+
+export function setBrokerDataProvider(next: BrokerDataProvider): void {
+  provider = next;
+}
+
+export function isBrokerDataConfigured(): boolean {
+  return provider.isConfigured();
+}
+
+export function lookupBrokerProfile(mcNumber: string): Promise<BrokerProfile | null> {
+  return provider.lookup(mcNumber);
+}
+
+async function readRows(filePath: string): Promise<Record<string, unknown>[]> {
+  const text = await fs.promises.readFile(filePath, 'utf8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  try {
+    if (ext === '.json') {
+      const rows = JSON.parse(text);
+      if (!Array.isArray(rows)) {
+        throw new BrokerDataImportError(['a .json import must be an array of rows']);
+      }
+      return rows;
+    }
+
+    return parseLoadFile(text, ext === '.csv' ? 'csv' : 'jsonl');
+
+  } catch (error) {
+    if (error instanceof LoadFileError) throw new BrokerDataImportError(error.problems);
+    if (error instanceof SyntaxError) throw new BrokerDataImportError([error.message]);
+    throw error;
+  }
+}
+
+// Validate every row and index by MC - one bad or duplicated row rejects the whole import
+function indexProfiles(rows: unknown[], source: string): Map<string, BrokerProfile> {
+  const profiles = new Map<string, BrokerProfile>();
+  const problems: string[] = [];
+
+  rows.forEach((row, i) => {
+    const result = parseProfile(row, source);
+    const label = `row ${i + 1}`;
+
+    if ('problems' in result) {
+      problems.push(...result.problems.map(problem => `${label}: ${problem}`));
+    } else if (profiles.has(result.mc_number)) {
+      problems.push(`${label}: duplicate mc_number ${result.mc_number}`);
+    } else {
+      profiles.set(result.mc_number, result);
+    }
+  });
+
+  if (problems.length > 0) throw new BrokerDataImportError(problems);
+  return profiles;
+}
+
+function parseProfile(input: unknown, source: string): BrokerProfile | { problems: string[] } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { problems: ['expected an object'] };
+  }
+
+  const row = input as Record<string, unknown>;
+  const problems: string[] = [];
+  const numbers: Record<string, number | null> = {};
+
+  const rawMc = row.mc_number ?? row.broker_mc;
+  const mcNumber = rawMc !== undefined && rawMc !== null ? normalizeMcNumber(String(rawMc)) : null;
+  if (!mcNumber) problems.push('mc_number is required');
+
+  for (const field of NUMERIC_FIELDS) {
+    const value = row[field];
+    if (value === undefined || value === null || value === '') {
+      numbers[field] = null;
+      continue;
+    }
+
+    const number = Number(value);
+    if (!isFinite(number) || number < 0) {
+      problems.push(`${field} must be a non-negative number`);
+    }
+    numbers[field] = number;
+  }
+
+  if (numbers.credit_score !== null && numbers.credit_score > 100) {
+    problems.push('credit_score must be between 0 and 100');
+  }
+
+  const asOf = row.as_of ? String(row.as_of) : null;
+  if (asOf && isNaN(Date.parse(asOf))) {
+    problems.push('as_of must be a valid date');
+  }
+
+  if (problems.length > 0) return { problems };
+
+  return {
+    mc_number: mcNumber!,
+    source,
+    credit_score: numbers.credit_score,
+    credit_rating: row.credit_rating ? String(row.credit_rating).trim() : null,
+    days_to_pay: numbers.days_to_pay,
+    complaint_count: numbers.complaint_count,
+    as_of: asOf ? new Date(asOf).toISOString() : null,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Broker Identity Matching
+ * Fuzzy comparison of submitted broker names against FMCSA legal/DBA names
+ */
+
+// Types
+export interface NameMatch {
+  matched_field: 'legal_name' | 'dba_name';
+  matched_name: string;
+  similarity: number;
+}
+
+// Corporate suffixes and filler words that carry no identity
+const IGNORED_TOKENS = new Set([
+  'the', 'and', 'of',
+  'llc', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company',
+  'ltd', 'limited', 'lp', 'llp', 'pllc', 'pc',
+  'logistics', 'logistic', 'transport', 'transportation', 'transports',
+  'freight', 'trucking', 'carriers', 'carrier', 'express', 'shipping',
+  'group', 'services', 'service', 'solutions', 'enterprises', 'holdings', 'usa', 'us', 'america',
+  'dba',
+]);
+
+// Legal entity suffixes - never part of an acronym ("TQL" = Total Quality Logistics, LLC)
+const ENTITY_SUFFIXES = new Set(['llc', 'inc', 'incorporated', 'corp', 'corporation', 'ltd', 'limited', 'lp', 'llp', 'pllc', 'pc']);
+
+// Exact acronyms and names whose tokens are wholly contained in the other are strong (but not perfect) matches
+const ACRONYM_SIMILARITY = 0.9;
+const CONTAINED_SIMILARITY = 0.9;
+
+// Lowercase, strip punctuation and corporate suffixes: "A.B.C. Logistics, LLC" -> "abc"
+export function normalizeCompanyName(name: string): string {
+  return tokenize(name).join(' ');
+}
+
+// Best match of the submitted name against the FMCSA legal and DBA names
+export function matchBrokerName(
+  submittedName: string,
+  legalName?: string | null,
+  dbaName?: string | null
+): NameMatch | null {
+  const candidates: Array<[NameMatch['matched_field'], string | null | undefined]> = [
+    ['legal_name', legalName],
+    ['dba_name', dbaName],
+  ];
+
+  let best: NameMatch | null = null;
+
+  for (const [field, candidate] of candidates) {
+    if (!candidate || candidate === 'Unknown') continue;
+
+    const similarity = nameSimilarity(submittedName, candidate);
+    if (!best || similarity > best.similarity) {
+      best = { matched_field: field, matched_name: candidate, similarity };
+    }
+  }
+
+  return best;
+}
+
+// 0-1 similarity: the better of edit-distance and token-overlap on normalized names
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+
+  // Names made only of suffixes ("Logistics LLC") fall back to their raw form
+  const left = tokensA.length > 0 ? tokensA.join(' ') : a.toLowerCase().trim();
+  const right = tokensB.length > 0 ? tokensB.join(' ') : b.toLowerCase().trim();
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  // Ignore spacing differences ("Blue Line" vs "Blueline")
+  const editScore = levenshteinRatio(left.replace(/ /g, ''), right.replace(/ /g, ''));
+  const tokenScore = diceCoefficient(new Set(tokensA), new Set(tokensB));
+  const acronymScore = isAcronymOf(a, b) || isAcronymOf(b, a) ? ACRONYM_SIMILARITY : 0;
+  const containedScore = isContained(tokensA, tokensB) || isContained(tokensB, tokensA) ? CONTAINED_SIMILARITY : 0;
+
+  return Math.round(Math.max(editScore, tokenScore, acronymScore, containedScore) * 100) / 100;
+}
+
+function tokenize(name: string): string[] {
+  return (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/\b([a-z])\.(?=[a-z]\.)/g, '$1') // A.B.C. -> abc.
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !IGNORED_TOKENS.has(token));
+}
+
+function isContained(inner: string[], outer: string[]): boolean {
+  return inner.length >= 2 && inner.every(token => outer.includes(token));
+}
+
+function isAcronymOf(short: string, full: string): boolean {
+  const acronym = short.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const words = full
+    .toLowerCase()
+    .replace(/&/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word && !ENTITY_SUFFIXES.has(word));
+
+  return acronym.length >= 2 && words.length >= 2 && words.map(word => word[0]).join('') === acronym;
+}
+
+function levenshteinRatio(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
+
+function diceCoefficient(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+
+  return (2 * shared) / (a.size + b.size);
+}
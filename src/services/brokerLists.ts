@@ -0,0 +1,239 @@
+/**
+ * Broker Block/Allow Lists
+ * Internally managed lists of known-bad and pre-vetted brokers, matched on MC, name and contact details
+ */
+
+import { randomUUID } from 'crypto';
+import { createDocumentStore, DocumentStore } from './documentStore';
+import { normalizeCompanyName } from './brokerIdentity';
+import { normalizeMcNumber } from './loadValidation';
+import { isReasonCode, ReasonCode } from './reasonCodes';
+import type { LoadVerificationInput } from './verificationService';
+
+// Types
+export const LIST_TYPES = ['block', 'allow'] as const;
+export type ListType = typeof LIST_TYPES[number];
+
+export const LIST_FIELDS = ['mc', 'broker_name', 'phone', 'email'] as const;
+export type ListField = typeof LIST_FIELDS[number];
+
+export interface ListEntry {
+  id: string;
+  list: ListType;
+  field: ListField;
+  value: string;
+  normalized_value: string;
+  reason: string;
+  author: string;
+  // Allowlist only: findings this entry waives (defaults to everything the policy allows)
+  waives?: ReasonCode[];
+  created_at: string;
+  updated_at: string;
+  expires_at: string | null;
+}
+
+export interface ListEntryInput {
+  list: ListType;
+  field: ListField;
+  value: string;
+  reason: string;
+  author: string;
+  waives?: ReasonCode[];
+  expires_at?: string | null;
+}
+
+export interface ListMatch {
+  entry_id: string;
+  list: ListType;
+  field: ListField;
+  value: string;
+  reason: string;
+  waives?: ReasonCode[];
+}
+
+export class InvalidListEntryError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid list entry: ${problems.join('; ')}`);
+    this.name = 'InvalidListEntryError';
+  }
+}
+
+export class ListEntryNotFoundError extends Error {
+  constructor(public readonly entryId: string) {
+    super(`List entry ${entryId} not found`);
+    this.name = 'ListEntryNotFoundError';
+  }
+}
+
+let store: DocumentStore<ListEntry> = createDocumentStore<ListEntry>('broker-lists');
+
+export function setBrokerListStore(next: DocumentStore<ListEntry>): void {
+  store = next;
+}
+
+// Canonical form used for matching: "MC-012345" -> "12345", "(555) 123-4567" -> "5551234567"
+export function normalizeListValue(field: ListField, value: string): string {
+  const raw = (value || '').trim();
+
+  switch (field) {
+    case 'mc':
+      return normalizeMcNumber(raw) || '';
+    case 'broker_name':
+      return normalizeCompanyName(raw) || raw.toLowerCase();
+    case 'phone': {
+      const digits = raw.replace(/\D/g, '');
+      return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+    }
+    case 'email':
+      return raw.toLowerCase();
+  }
+}
+
+export async function createListEntry(input: ListEntryInput): Promise<ListEntry> {
+  const problems = validateEntry(input);
+  if (problems.length > 0) throw new InvalidListEntryError(problems);
+
+  const now = new Date().toISOString();
+  const entry: ListEntry = {
+    id: randomUUID(),
+    list: input.list,
+    field: input.field,
+    value: input.value.trim(),
+    normalized_value: normalizeListValue(input.field, input.value),
+    reason: input.reason,
+    author: input.author,
+    ...(input.list === 'allow' && input.waives && { waives: input.waives }),
+    created_at: now,
+    updated_at: now,
+    expires_at: input.expires_at ? new Date(input.expires_at).toISOString() : null,
+  };
+
+  await store.put(entry.id, entry);
+  return entry;
+}
+
+// Patch the descriptive fields - list/field/value are fixed, delete and re-create to change them
+export async function updateListEntry(
+  id: string,
+  patch: Partial<Pick<ListEntryInput, 'reason' | 'author' | 'waives' | 'expires_at'>>
+): Promise<ListEntry> {
+  const entry = await store.get(id);
+  if (!entry) throw new ListEntryNotFoundError(id);
+
+  const updated: ListEntry = {
+    ...entry,
+    ...(patch.reason !== undefined && { reason: patch.reason }),
+    ...(patch.author !== undefined && { author: patch.author }),
+    ...(patch.waives !== undefined && { waives: patch.waives }),
+    ...(patch.expires_at !== undefined && {
+      expires_at: patch.expires_at ? new Date(patch.expires_at).toISOString() : null,
+    }),
+    updated_at: new Date().toISOString(),
+  };
+
+  const problems = validateEntry(updated);
+  if (problems.length > 0) throw new InvalidListEntryError(problems);
+
+  await store.put(id, updated);
+  return updated;
+}
+
+export async function deleteListEntry(id: string): Promise<void> {
+  if (!(await store.delete(id))) throw new ListEntryNotFoundError(id);
+}
+
+export async function getListEntry(id: string): Promise<ListEntry | null> {
+  return store.get(id);
+}
+
+export async function listEntries(query: { list?: ListType; field?: ListField; include_expired?: boolean } = {}): Promise<ListEntry[]> {
+  const now = Date.now();
+  const entries = await store.list();
+
+  return entries
+    .filter(entry => !query.list || entry.list === query.list)
+    .filter(entry => !query.field || entry.field === query.field)
+    .filter(entry => query.include_expired || !isExpired(entry, now))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Every active entry matching the load's MC, broker name or contact details
+export async function matchLoad(load: LoadVerificationInput): Promise<ListMatch[]> {
+  const candidates: Array<[ListField, string | undefined]> = [
+    ['mc', load.broker_mc],
+    ['broker_name', load.broker_name],
+    ['phone', load.broker_phone],
+    ['email', load.broker_email],
+  ];
+
+  const values = new Map<ListField, string>();
+  for (const [field, value] of candidates) {
+    const normalized = value ? normalizeListValue(field, String(value)) : '';
+    if (normalized) values.set(field, normalized);
+  }
+
+  const entries = await listEntries();
+
+  return entries
+    .filter(entry => {
+      const value = values.get(entry.field);
+      if (!value) return false;
+
+      // "@example.com" email entries cover the whole domain
+      if (entry.field === 'email' && entry.normalized_value.startsWith('@')) {
+        return value.endsWith(entry.normalized_value);
+      }
+
+      return value === entry.normalized_value;
+    })
+    .map(entry => ({
+      entry_id: entry.id,
+      list: entry.list,
+      field: entry.field,
+      value: entry.value,
+      reason: entry.reason,
+      ...(entry.waives && { waives: entry.waives }),
+    }));
+}
+
+function validateEntry(entry: Partial<ListEntryInput>): string[] {
+  const problems: string[] = [];
+
+  if (!LIST_TYPES.includes(entry.list as ListType)) {
+    problems.push(`list must be one of ${LIST_TYPES.join(', ')}`);
+  }
+
+  if (!LIST_FIELDS.includes(entry.field as ListField)) {
+    problems.push(`field must be one of ${LIST_FIELDS.join(', ')}`);
+  } else if (typeof entry.value !== 'string' || !normalizeListValue(entry.field!, entry.value)) {
+    problems.push('value is required');
+  } else if (entry.field === 'email' && !/^[^@\s]*@[^@\s]+\.[^@\s]+$/.test(entry.value.trim())) {
+    problems.push('email value must be an address or an "@domain" pattern');
+  }
+
+  if (typeof entry.reason !== 'string' || !entry.reason.trim()) {
+    problems.push('reason is required');
+  }
+
+  if (typeof entry.author !== 'string' || !entry.author.trim()) {
+    problems.push('author is required');
+  }
+
+  if (entry.waives !== undefined) {
+    if (entry.list !== 'allow') {
+      problems.push('waives only applies to allowlist entries');
+    } else if (!Array.isArray(entry.waives) || !entry.waives.every(isReasonCode)) {
+      problems.push('waives must be a list of reason codes');
+    }
+  }
+
+  if (entry.expires_at && isNaN(Date.parse(entry.expires_at))) {
+    problems.push('expires_at must be valid ISO 8601 timestamp');
+  }
+
+  return problems;
+}
+
+function isExpired(entry: ListEntry, now: number): boolean {
+  return !!entry.expires_at && Date.parse(entry.expires_at) <= now;
+}
@@ -0,0 +1,277 @@
+/**
+ * Broker Monitoring
+ * Watchlist of broker MCs re-checked against FMCSA on a schedule, with change events
+ */
+
+import { randomUUID } from 'crypto';
+import { lookupCarrier, isFMCSAConfigured, FMCSACarrier } from './fmcsaClient';
+import { createDocumentStore, DocumentStore } from './documentStore';
+import { defaultSigningSecret, deliverWebhook, WebhookDelivery } from './webhooks';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'monitor' });
+
+// Types
+export const MONITOR_EVENT_TYPES = [
+  'ALLOWED_TO_OPERATE_CHANGED',
+  'OUT_OF_SERVICE_CHANGED',
+  'LEGAL_NAME_CHANGED',
+  'CARRIER_NOT_FOUND',
+] as const;
+
+export type MonitorEventType = typeof MONITOR_EVENT_TYPES[number];
+
+export interface WatchedBroker {
+  mc_number: string;
+  client_name: string;
+  label: string | null;
+  callback_url: string | null;
+  added_at: string;
+  last_checked_at: string | null;
+  last_status: 'FOUND' | 'NOT_FOUND' | 'ERROR' | null;
+  last_error?: string;
+  snapshot: FMCSACarrier | null;
+}
+
+export interface MonitorEvent {
+  id: string;
+  type: MonitorEventType;
+  client_name: string;
+  mc_number: string;
+  label: string | null;
+  field: keyof FMCSACarrier | null;
+  previous: unknown;
+  current: unknown;
+  detected_at: string;
+  carrier: FMCSACarrier | null;
+  webhook?: WebhookDelivery;
+}
+
+export interface MonitorSweepResult {
+  started_at: string;
+  completed_at: string;
+  checked: number;
+  errors: number;
+  events: MonitorEvent[];
+}
+
+export class WatchNotFoundError extends Error {
+  constructor(public readonly mcNumber: string) {
+    super(`MC ${mcNumber} is not on the watchlist`);
+    this.name = 'WatchNotFoundError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  // 0 disables the in-process scheduler (e.g. when sweeps are triggered by an external cron)
+  INTERVAL_MS: parseInt(process.env.MONITOR_INTERVAL_MS || '3600000'),
+  DEFAULT_EVENT_LIMIT: 100,
+  MAX_EVENT_LIMIT: 1000,
+};
+
+// Fields whose change raises an event
+const WATCHED_FIELDS: Array<[keyof FMCSACarrier, MonitorEventType]> = [
+  ['allowed_to_operate', 'ALLOWED_TO_OPERATE_CHANGED'],
+  ['out_of_service', 'OUT_OF_SERVICE_CHANGED'],
+  ['legal_name', 'LEGAL_NAME_CHANGED'],
+];
+
+let watchStore: DocumentStore<WatchedBroker> = createDocumentStore<WatchedBroker>('watchlist');
+let eventStore: DocumentStore<MonitorEvent> = createDocumentStore<MonitorEvent>('monitor-events');
+let sweepInFlight: Promise<MonitorSweepResult> | null = null;
+
+export function setMonitorStores(watches: DocumentStore<WatchedBroker>, events: DocumentStore<MonitorEvent>): void {
+  watchStore = watches;
+  eventStore = events;
+}
+
+export async function watchBroker(input: {
+  mc_number: string;
+  client_name: string;
+  label?: string | null;
+  callback_url?: string | null;
+}): Promise<WatchedBroker> {
+  const id = watchId(input.client_name, input.mc_number);
+  const existing = await watchStore.get(id);
+
+  // Re-adding updates the label/callback but keeps the baseline snapshot
+  const watch: WatchedBroker = {
+    mc_number: input.mc_number,
+    client_name: input.client_name,
+    label: input.label ?? existing?.label ?? null,
+    callback_url: input.callback_url ?? existing?.callback_url ?? null,
+    added_at: existing?.added_at || new Date().toISOString(),
+    last_checked_at: existing?.last_checked_at || null,
+    last_status: existing?.last_status || null,
+    snapshot: existing?.snapshot || null,
+  };
+
+  await watchStore.put(id, watch);
+  return watch;
+}
+
+export async function unwatchBroker(clientName: string, mcNumber: string): Promise<void> {
+  if (!(await watchStore.delete(watchId(clientName, mcNumber)))) {
+    throw new WatchNotFoundError(mcNumber);
+  }
+}
+
+export async function listWatchedBrokers(clientName?: string): Promise<WatchedBroker[]> {
+  const watches = await watchStore.list();
+  return watches
+    .filter(watch => !clientName || watch.client_name === clientName)
+    .sort((a, b) => a.added_at.localeCompare(b.added_at));
+}
+
+// Events after `since` (exclusive), oldest first - pass the last detected_at back to poll for more
+export async function listMonitorEvents(query: {
+  client_name?: string;
+  mc_number?: string;
+  since?: string;
+  limit?: number;
+}): Promise<MonitorEvent[]> {
+  const limit = Math.min(Math.max(query.limit || CONFIG.DEFAULT_EVENT_LIMIT, 1), CONFIG.MAX_EVENT_LIMIT);
+  const since = query.since ? Date.parse(query.since) : null;
+
+  const events = (await eventStore.list())
+    .filter(event => !query.client_name || event.client_name === query.client_name)
+    .filter(event => !query.mc_number || event.mc_number === query.mc_number)
+    .filter(event => since === null || Date.parse(event.detected_at) > since)
+    .sort((a, b) => a.detected_at.localeCompare(b.detected_at));
+
+  // Never split events sharing the boundary timestamp, or a `since` cursor would skip some
+  let end = Math.min(limit, events.length);
+  while (end < events.length && events[end].detected_at === events[end - 1].detected_at) end++;
+
+  return events.slice(0, end);
+}
+
+// Re-check every watched MC once; overlapping calls share the sweep already running
+export function runMonitorSweep(): Promise<MonitorSweepResult> {
+  if (!sweepInFlight) {
+    sweepInFlight = sweep().finally(() => {
+      sweepInFlight = null;
+    });
+  }
+  return sweepInFlight;
+}
+
+// Start the periodic sweep; returns a stop function
+export function startBrokerMonitor(): () => void {
+  if (CONFIG.INTERVAL_MS <= 0) {
+    return () => undefined;
+  }
+
+  const timer = setInterval(() => {
+    runMonitorSweep().catch(error => log.error('sweep failed', { error }));
+  }, CONFIG.INTERVAL_MS);
+  timer.unref();
+
+  log.info('broker monitor started', { interval_minutes: Math.round(CONFIG.INTERVAL_MS / 60000) });
+  return () => clearInterval(timer);
+}
+
+// Field-level differences between two snapshots of the same carrier
+export function diffCarrier(previous: FMCSACarrier, current: FMCSACarrier): Array<{ type: MonitorEventType; field: keyof FMCSACarrier; previous: unknown; current: unknown }> {
+  return WATCHED_FIELDS
+    .filter(([field]) => previous[field] !== current[field])
+    .map(([field, type]) => ({ type, field, previous: previous[field], current: current[field] }));
+}
+
+async function sweep(): Promise<MonitorSweepResult> {
+  const startedAt = new Date().toISOString();
+  const result: MonitorSweepResult = { started_at: startedAt, completed_at: startedAt, checked: 0, errors: 0, events: [] };
+
+  if (!isFMCSAConfigured()) {
+    log.warn('FMCSA_API_KEY not configured - skipping sweep');
+    return result;
+  }
+
+  // Several clients may watch the same MC - look each one up once
+  const byMc = new Map<string, WatchedBroker[]>();
+  for (const watch of await watchStore.list()) {
+    byMc.set(watch.mc_number, [...(byMc.get(watch.mc_number) || []), watch]);
+  }
+
+  for (const [mcNumber, watches] of byMc) {
+    let carrier: FMCSACarrier | null = null;
+    let error: string | null = null;
+
+    try {
+      const lookup = await lookupCarrier(mcNumber, { fresh: true });
+      carrier = lookup.found ? lookup.carrier! : null;
+    } catch (lookupError) {
+      error = lookupError instanceof Error ? lookupError.message : 'Unknown error';
+      result.errors++;
+    }
+
+    result.checked++;
+
+    for (const watch of watches) {
+      const events = error ? [] : detectChanges(watch, carrier);
+      result.events.push(...events);
+
+      watch.last_checked_at = new Date().toISOString();
+      if (error) {
+        watch.last_status = 'ERROR';
+        watch.last_error = error;
+      } else {
+        watch.last_status = carrier ? 'FOUND' : 'NOT_FOUND';
+        watch.snapshot = carrier;
+        delete watch.last_error;
+      }
+
+      await watchStore.put(watchId(watch.client_name, watch.mc_number), watch);
+
+      for (const event of events) {
+        await eventStore.put(event.id, event);
+        notify(watch, event);
+      }
+    }
+  }
+
+  result.completed_at = new Date().toISOString();
+  log.info('sweep completed', { checked: result.checked, changes: result.events.length, errors: result.errors });
+
+  return result;
+}
+
+// The first successful check is the baseline - only later checks produce events
+function detectChanges(watch: WatchedBroker, carrier: FMCSACarrier | null): MonitorEvent[] {
+  if (!watch.snapshot) return [];
+
+  const event = (type: MonitorEventType, field: keyof FMCSACarrier | null, previous: unknown, current: unknown): MonitorEvent => ({
+    id: randomUUID(),
+    type,
+    client_name: watch.client_name,
+    mc_number: watch.mc_number,
+    label: watch.label,
+    field,
+    previous,
+    current,
+    detected_at: new Date().toISOString(),
+    carrier,
+  });
+
+  if (!carrier) {
+    return [event('CARRIER_NOT_FOUND', null, watch.snapshot.legal_name, null)];
+  }
+
+  return diffCarrier(watch.snapshot, carrier).map(change => event(change.type, change.field, change.previous, change.current));
+}
+
+function notify(watch: WatchedBroker, event: MonitorEvent): void {
+  log.warn('broker changed', { mc_number: event.mc_number, type: event.type, previous: event.previous, current: event.current });
+
+  const secret = defaultSigningSecret();
+  if (!watch.callback_url || !secret) return;
+
+  deliverWebhook(watch.callback_url, `broker.${event.type.toLowerCase()}`, { event }, secret)
+    .then(delivery => eventStore.put(event.id, { ...event, webhook: delivery }))
+    .catch(error => log.error('failed to record webhook delivery', { event_id: event.id, error }));
+}
+
+function watchId(clientName: string, mcNumber: string): string {
+  return `${clientName}:${mcNumber}`;
+}
@@ -0,0 +1,311 @@
+/**
+ * Check Pipeline
+ * VerificationCheck contract, registry and runner (ordering, parallelism, timeouts, error isolation)
+ */
+
+import type { CheckSeverity, VerificationPolicy } from './policyService';
+import type { ReasonCode, ReasonParams } from './reasonCodes';
+import type { EvaluationMode, LoadVerificationInput } from './verificationService';
+import type { FMCSALookup } from './fmcsaClient';
+import type { BrokerProfile } from './brokerData';
+import type { RecentLoadIndex } from './duplicateDetection';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'checks' });
+
+// Types
+export interface CheckFinding {
+  code: ReasonCode;
+  severity: CheckSeverity;
+  params: ReasonParams;
+}
+
+export type EvidenceValue = string | number | boolean | null | EvidenceValue[] | { [key: string]: EvidenceValue };
+
+// What a check judged and against which limits - persisted for the verification's explanation report
+export interface CheckEvidence {
+  // The check's own verdict (PASSED, FLAGGED, NOT_FOUND, SKIPPED, ...)
+  result: string;
+  // Submitted values the check read, plus anything it derived from them (rate per mile, name similarity)
+  inputs: Record<string, EvidenceValue>;
+  // Policy limits applied
+  thresholds: Record<string, EvidenceValue>;
+  // Upstream fields relied on, by source (e.g. fmcsa)
+  sources?: Record<string, Record<string, EvidenceValue>>;
+}
+
+// Uniform result every check returns
+export interface CheckOutcome {
+  risk: number; // 0 (no risk) - 1 (maximum risk)
+  findings: CheckFinding[];
+  metadata: Record<string, unknown>;
+  // Findings later checks should drop (allowlist waivers)
+  waives?: ReasonCode[];
+  // Optional for custom checks - the report then shows findings and score only
+  evidence?: CheckEvidence;
+}
+
+// External data the checks read - injectable so simulations can replay recorded inputs
+export interface CheckSources {
+  fmcsa: CarrierSource;
+  broker_data: BrokerDataSource;
+  recent_loads: RecentLoadIndex;
+}
+
+export interface CarrierSource {
+  isConfigured(): boolean;
+  lookup(mcNumber: string): Promise<FMCSALookup>;
+}
+
+export interface BrokerDataSource {
+  isConfigured(): boolean;
+  lookup(mcNumber: string): Promise<BrokerProfile | null>;
+}
+
+export interface CheckContext {
+  load: LoadVerificationInput;
+  policy: VerificationPolicy;
+  // Epoch ms the load is judged "as of" - use this rather than the wall clock
+  evaluated_at: number;
+  // Client the load came from (null for internal callers) - load_ids are only unique per client
+  client_name: string | null;
+  sources: CheckSources;
+  // Outcomes of the check's declared dependencies
+  dependencies: ReadonlyMap<string, CheckOutcome>;
+}
+
+export interface VerificationCheck {
+  name: string;
+  // Checks that must complete first; this check is dropped if one is disabled and skipped if one fails
+  dependencies?: string[];
+  timeout_ms?: number;
+  // Defaults to enabled (checks without a policy section). Sources are the ones this run will read.
+  enabled?(policy: VerificationPolicy, sources: CheckSources): boolean;
+  evaluate(context: CheckContext): Promise<CheckOutcome>;
+}
+
+export type CheckRunStatus = 'completed' | 'failed' | 'timed_out' | 'skipped';
+
+export interface CheckRun {
+  check: string;
+  status: CheckRunStatus;
+  duration_ms: number;
+  // null when the check didn't complete - it then doesn't count towards the risk score
+  risk: number | null;
+  findings: CheckFinding[];
+  waived: CheckFinding[];
+  metadata: Record<string, unknown>;
+  waives?: ReasonCode[];
+  evidence?: CheckEvidence;
+  error?: string;
+}
+
+export interface PipelineResult {
+  runs: CheckRun[];
+  // Checks never started because fast mode short-circuited
+  short_circuited: string[];
+}
+
+export class CheckRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CheckRegistrationError';
+  }
+}
+
+class CheckTimeoutError extends Error {
+  constructor(public readonly check: string, public readonly timeoutMs: number) {
+    super(`Check "${check}" timed out after ${timeoutMs}ms`);
+    this.name = 'CheckTimeoutError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  DEFAULT_TIMEOUT_MS: parseInt(process.env.CHECK_TIMEOUT_MS || '10000'),
+};
+
+export class CheckRegistry {
+  private checks = new Map<string, VerificationCheck>();
+
+  constructor(checks: VerificationCheck[] = []) {
+    checks.forEach(check => this.register(check));
+  }
+
+  register(check: VerificationCheck): void {
+    if (this.checks.has(check.name)) {
+      throw new CheckRegistrationError(`Check "${check.name}" is already registered`);
+    }
+    this.checks.set(check.name, check);
+  }
+
+  unregister(name: string): boolean {
+    return this.checks.delete(name);
+  }
+
+  get(name: string): VerificationCheck | undefined {
+    return this.checks.get(name);
+  }
+
+  list(): VerificationCheck[] {
+    return Array.from(this.checks.values());
+  }
+
+  // Checks enabled by the policy, dependencies first, otherwise in registration order
+  resolve(policy: VerificationPolicy, sources: CheckSources): VerificationCheck[] {
+    let active = this.list().filter(check => (check.enabled ? check.enabled(policy, sources) : true));
+
+    // Drop checks whose dependencies are disabled or unregistered (transitively)
+    for (let changed = true; changed;) {
+      const names = new Set(active.map(check => check.name));
+      const remaining = active.filter(check => (check.dependencies || []).every(dep => names.has(dep)));
+      changed = remaining.length !== active.length;
+      active = remaining;
+    }
+
+    const ordered: VerificationCheck[] = [];
+    const placed = new Set<string>();
+
+    while (ordered.length < active.length) {
+      const next = active.find(check =>
+        !placed.has(check.name) && (check.dependencies || []).every(dep => placed.has(dep))
+      );
+
+      if (!next) {
+        const cyclic = active.filter(check => !placed.has(check.name)).map(check => check.name);
+        throw new CheckRegistrationError(`Dependency cycle among checks: ${cyclic.join(', ')}`);
+      }
+
+      ordered.push(next);
+      placed.add(next.name);
+    }
+
+    return ordered;
+  }
+}
+
+// Run checks in the given (dependency) order.
+// fast: one at a time, stopping at the first rejecting finding.
+// exhaustive: everything concurrently, each check starting as soon as its dependencies finish.
+export async function runChecks(
+  checks: VerificationCheck[],
+  input: Omit<CheckContext, 'dependencies'>,
+  mode: EvaluationMode
+): Promise<PipelineResult> {
+  const waivers = new Set<ReasonCode>();
+  const runs: CheckRun[] = [];
+
+  if (mode === 'exhaustive') {
+    const started = new Map<string, Promise<CheckRun>>();
+
+    for (const check of checks) {
+      started.set(check.name, (async () => {
+        const dependencies = await Promise.all((check.dependencies || []).map(dep => started.get(dep)!));
+        return execute(check, input, dependencies);
+      })());
+    }
+
+    // Waivers are applied in pipeline order, so a waiving check only affects the checks after it
+    for (const run of await Promise.all(checks.map(check => started.get(check.name)!))) {
+      runs.push(applyWaivers(run, waivers));
+    }
+
+    return { runs, short_circuited: [] };
+  }
+
+  for (const [i, check] of checks.entries()) {
+    const dependencies = (check.dependencies || []).map(dep => runs.find(run => run.check === dep)!);
+    const run = applyWaivers(await execute(check, input, dependencies), waivers);
+    runs.push(run);
+
+    // The verdict can't get any worse than a rejecting finding
+    if (run.findings.some(f => f.severity === 'reject')) {
+      return { runs, short_circuited: checks.slice(i + 1).map(c => c.name) };
+    }
+  }
+
+  return { runs, short_circuited: [] };
+}
+
+export function listOf(finding?: CheckFinding): CheckFinding[] {
+  return finding ? [finding] : [];
+}
+
+// Evaluate one check in isolation - a throw or timeout becomes a review finding, never a pipeline failure
+async function execute(
+  check: VerificationCheck,
+  input: Omit<CheckContext, 'dependencies'>,
+  dependencies: CheckRun[]
+): Promise<CheckRun> {
+  const startedAt = Date.now();
+  const base = { check: check.name, risk: null, findings: [], waived: [], metadata: {} };
+
+  const failedDependency = dependencies.find(dep => dep.status !== 'completed');
+  if (failedDependency) {
+    return { ...base, status: 'skipped', duration_ms: 0, error: `Dependency "${failedDependency.check}" did not complete` };
+  }
+
+  const timeoutMs = check.timeout_ms ?? CONFIG.DEFAULT_TIMEOUT_MS;
+  let timer: NodeJS.Timeout | undefined;
+
+  try {
+    const outcome = await Promise.race([
+      check.evaluate({
+        ...input,
+        dependencies: new Map(dependencies.map(dep => [dep.check, toOutcome(dep)])),
+      }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new CheckTimeoutError(check.name, timeoutMs)), timeoutMs);
+      }),
+    ]);
+
+    return {
+      ...base,
+      status: 'completed',
+      duration_ms: Date.now() - startedAt,
+      risk: outcome.risk,
+      findings: outcome.findings,
+      metadata: outcome.metadata,
+      ...(outcome.waives && { waives: outcome.waives }),
+      ...(outcome.evidence && { evidence: outcome.evidence }),
+    };
+
+  } catch (error) {
+    const timedOut = error instanceof CheckTimeoutError;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    log.error(timedOut ? 'check timed out' : 'check failed', { check: check.name, error: message });
+
+    return {
+      ...base,
+      status: timedOut ? 'timed_out' : 'failed',
+      duration_ms: Date.now() - startedAt,
+      error: message,
+      findings: [timedOut
+        ? { code: 'CHECK_TIMEOUT', severity: 'review', params: { check: check.name, timeout_ms: timeoutMs } }
+        : { code: 'CHECK_FAILED', severity: 'review', params: { check: check.name, error: message } }],
+    };
+
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Drop waived findings; a check whose every finding was waived counts as passed
+function applyWaivers(run: CheckRun, waivers: Set<ReasonCode>): CheckRun {
+  const findings = run.findings.filter(f => !waivers.has(f.code));
+  const waived = run.findings.filter(f => waivers.has(f.code));
+  run.waives?.forEach(code => waivers.add(code));
+
+  if (waived.length === 0) return run;
+
+  return {
+    ...run,
+    findings,
+    waived,
+    risk: findings.length === 0 && run.risk !== null ? 0 : run.risk,
+  };
+}
+
+function toOutcome(run: CheckRun): CheckOutcome {
+  return { risk: run.risk ?? 0, findings: run.findings, metadata: run.metadata };
+}
@@ -0,0 +1,150 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing upstream after repeated failures and fast-fails until it has had time to recover
+ */
+
+// Types
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that trip the breaker
+  failure_threshold: number;
+  // How long the breaker stays open before letting a trial request through
+  reset_timeout_ms: number;
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  failure_threshold: number;
+  opened_at: string | null;
+  // When an open breaker will let the next trial request through
+  retry_at: string | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly breaker: string, public readonly retryAt: number) {
+    super(`Circuit "${breaker}" is open until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+  private lastSuccessAt: number | null = null;
+  private lastFailureAt: number | null = null;
+  private lastError: string | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly options: CircuitBreakerOptions,
+    // Which errors count against the upstream (e.g. a 404 is an answer, not an outage)
+    private readonly isFailure: (error: unknown) => boolean = () => true
+  ) {}
+
+  // Run fn unless the breaker is open; only one trial request runs while half-open
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    const trial = this.admit();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure(error);
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) this.trialInFlight = false;
+    }
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'OPEN' && Date.now() >= this.retryAt()) {
+      return 'HALF_OPEN';
+    }
+    return this.state;
+  }
+
+  snapshot(): CircuitSnapshot {
+    const state = this.getState();
+    return {
+      name: this.name,
+      state,
+      consecutive_failures: this.failures,
+      failure_threshold: this.options.failure_threshold,
+      opened_at: isoOrNull(this.openedAt),
+      retry_at: state === 'OPEN' ? new Date(this.retryAt()).toISOString() : null,
+      last_success_at: isoOrNull(this.lastSuccessAt),
+      last_failure_at: isoOrNull(this.lastFailureAt),
+      last_error: this.lastError,
+    };
+  }
+
+  // Close the breaker and forget past failures (tests, manual recovery)
+  reset(): void {
+    this.state = 'CLOSED';
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  // Throws while open; returns true when this call is the half-open trial
+  private admit(): boolean {
+    const state = this.getState();
+
+    if (state === 'OPEN') {
+      throw new CircuitOpenError(this.name, this.retryAt());
+    }
+
+    if (state === 'HALF_OPEN') {
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.name, this.retryAt());
+      }
+      this.state = 'HALF_OPEN';
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  private onSuccess(): void {
+    this.state = 'CLOSED';
+    this.failures = 0;
+    this.openedAt = null;
+    this.lastSuccessAt = Date.now();
+  }
+
+  private onFailure(error: unknown): void {
+    const now = Date.now();
+
+    this.failures++;
+    this.lastFailureAt = now;
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    // A failed trial re-opens straight away; otherwise trip once the threshold is reached
+    if (this.state === 'HALF_OPEN' || this.failures >= this.options.failure_threshold) {
+      this.state = 'OPEN';
+      this.openedAt = now;
+    }
+  }
+
+  private retryAt(): number {
+    return (this.openedAt || 0) + this.options.reset_timeout_ms;
+  }
+}
+
+function isoOrNull(time: number | null): string | null {
+  return time === null ? null : new Date(time).toISOString();
+}
@@ -0,0 +1,34 @@
+/**
+ * Clock
+ * Injectable time source, so decisions can be evaluated "as of" a given instant and tested deterministically
+ */
+
+// Types
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+// A clock stopped at one instant
+export function fixedClock(at: string | number | Date): Clock {
+  const time = at instanceof Date ? at.getTime() : typeof at === 'string' ? Date.parse(at) : at;
+
+  if (isNaN(time)) {
+    throw new Error(`Invalid clock time: ${String(at)}`);
+  }
+
+  return { now: () => time };
+}
+
+let clock: Clock = systemClock;
+
+export function setClock(next: Clock): void {
+  clock = next;
+}
+
+export function getClock(): Clock {
+  return clock;
+}
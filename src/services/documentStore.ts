@@ -0,0 +1,153 @@
+/**
+ * Document Store
+ * Minimal keyed JSON storage shared by the service's small subsystems
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Types
+export interface DocumentStore<T> {
+  get(id: string): Promise<T | null>;
+  put(id: string, doc: T): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(): Promise<T[]>;
+}
+
+// Configuration
+const CONFIG = {
+  BACKEND: process.env.STORAGE_BACKEND || 'file',
+  DATA_DIR: process.env.DATA_DIR || 'data',
+  // Journal lines allowed before a collection's snapshot is rewritten (at least the collection's size)
+  MIN_JOURNAL_LENGTH: 1000,
+};
+
+// In-memory store (tests, ephemeral deployments)
+export class MemoryDocumentStore<T> implements DocumentStore<T> {
+  private docs = new Map<string, T>();
+
+  async get(id: string): Promise<T | null> {
+    return this.docs.get(id) ?? null;
+  }
+
+  async put(id: string, doc: T): Promise<void> {
+    this.docs.set(id, doc);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.docs.delete(id);
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from(this.docs.values());
+  }
+}
+
+// Whole-collection JSON snapshot plus an append-only journal of the changes since it was written. A put
+// appends one line; the snapshot is only rewritten once the journal outgrows the collection, so a burst of
+// writes (a batch job opening review items, a sweep raising events) never rewrites the file per document.
+export class FileDocumentStore<T> implements DocumentStore<T> {
+  private docs: Map<string, T> | null = null;
+  private journalLength = 0;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly minJournalLength = CONFIG.MIN_JOURNAL_LENGTH) {}
+
+  async get(id: string): Promise<T | null> {
+    return (await this.load()).get(id) ?? null;
+  }
+
+  async put(id: string, doc: T): Promise<void> {
+    (await this.load()).set(id, doc);
+    await this.record({ id, doc });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const deleted = (await this.load()).delete(id);
+    if (deleted) await this.record({ id, deleted: true });
+    return deleted;
+  }
+
+  async list(): Promise<T[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  private get journalPath(): string {
+    return `${this.filePath}.log`;
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.docs) return this.docs;
+
+    const docs = new Map<string, T>(Object.entries(JSON.parse(await readIfExists(this.filePath) || '{}')));
+    const lines = (await readIfExists(this.journalPath) || '').split('\n').filter(Boolean);
+
+    for (const line of lines) {
+      let entry: JournalEntry<T>;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // A crash mid-append leaves a torn last line - the write it belonged to never completed
+        continue;
+      }
+
+      if ('deleted' in entry) docs.delete(entry.id);
+      else docs.set(entry.id, entry.doc);
+    }
+
+    this.docs = docs;
+    this.journalLength = lines.length;
+    return docs;
+  }
+
+  private record(entry: JournalEntry<T>): Promise<void> {
+    // Serialize writes so journal lines land in the order the changes were made
+    const write = this.writeQueue.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(this.journalPath, JSON.stringify(entry) + '\n');
+      this.journalLength++;
+
+      if (this.journalLength > Math.max(this.minJournalLength, this.docs!.size)) {
+        await this.compact();
+      }
+    });
+
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  // Fold the journal into a fresh snapshot - write-then-rename so readers never see a partial file. A crash
+  // before the journal is removed only replays changes the snapshot already holds.
+  private async compact(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.docs!), null, 2));
+    await fs.promises.rename(tmpPath, this.filePath);
+    await fs.promises.rm(this.journalPath, { force: true });
+    this.journalLength = 0;
+  }
+}
+
+type JournalEntry<T> = { id: string; doc: T } | { id: string; deleted: true };
+
+async function readIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Where collections live - for readiness checks and diagnostics
+export function describeDocumentStorage(): { backend: string; path: string | null } {
+  return { backend: CONFIG.BACKEND, path: CONFIG.BACKEND === 'memory' ? null : CONFIG.DATA_DIR };
+}
+
+// Store for a named collection using the configured backend (STORAGE_BACKEND=file|memory)
+export function createDocumentStore<T>(collection: string): DocumentStore<T> {
+  if (CONFIG.BACKEND === 'memory') {
+    return new MemoryDocumentStore<T>();
+  }
+
+  return new FileDocumentStore<T>(path.join(CONFIG.DATA_DIR, `${collection}.json`));
+}
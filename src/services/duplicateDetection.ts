@@ -0,0 +1,208 @@
+/**
+ * Duplicate Load Detection
+ * Recent-loads index for spotting double-brokered lanes and reused load IDs
+ */
+
+import { createHash } from 'crypto';
+import { canonicalEquipment, parseCityState } from './rateCheck';
+import { getClock } from './clock';
+import type { LoadVerificationInput } from './verificationService';
+
+// Types
+export interface IndexedLoad {
+  load_id: string;
+  // Submitting client - load_ids are scoped to it
+  client_name: string | null;
+  broker_mc: string;
+  fingerprint: string;
+  content_hash: string;
+  pickup: string;
+  delivery: string;
+  equipment: string;
+  rate: number;
+  posted_at: number;
+  indexed_at: number;
+}
+
+export interface RecentLoadIndex {
+  add(entry: IndexedLoad): Promise<void>;
+  byFingerprint(fingerprint: string): Promise<IndexedLoad[]>;
+  // Earlier loads the same client submitted under this id
+  byLoadId(clientName: string | null, loadId: string): Promise<IndexedLoad[]>;
+}
+
+export interface DuplicateMatch {
+  // Same lane/equipment, comparable rate, posted within the window - by other MCs, from any client
+  lane_matches: IndexedLoad[];
+  // Same load_id seen before from the same client with different contents
+  reused_load_id: { previous: IndexedLoad; changed_fields: string[] } | null;
+}
+
+// Configuration
+const CONFIG = {
+  // How long loads stay in the index (load_id reuse is checked across this whole period)
+  RETENTION_MS: parseInt(process.env.LOAD_INDEX_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000)),
+};
+
+// In-memory index - per instance, pruned on write
+export class MemoryRecentLoadIndex implements RecentLoadIndex {
+  private byLane = new Map<string, IndexedLoad[]>();
+  private byId = new Map<string, IndexedLoad[]>();
+  private lastPrunedAt = 0;
+
+  constructor(private readonly retentionMs = CONFIG.RETENTION_MS) {}
+
+  async add(entry: IndexedLoad): Promise<void> {
+    this.prune(entry.indexed_at);
+    push(this.byLane, entry.fingerprint, entry);
+    push(this.byId, loadIdKey(entry.client_name, entry.load_id), entry);
+  }
+
+  async byFingerprint(fingerprint: string): Promise<IndexedLoad[]> {
+    return this.live(this.byLane.get(fingerprint));
+  }
+
+  async byLoadId(clientName: string | null, loadId: string): Promise<IndexedLoad[]> {
+    return this.live(this.byId.get(loadIdKey(clientName, loadId)));
+  }
+
+  private live(entries: IndexedLoad[] = []): IndexedLoad[] {
+    const cutoff = getClock().now() - this.retentionMs;
+    return entries.filter(entry => entry.indexed_at >= cutoff);
+  }
+
+  // A full sweep at most once a minute keeps writes cheap
+  private prune(now: number): void {
+    if (now - this.lastPrunedAt < 60000) return;
+    this.lastPrunedAt = now;
+
+    const cutoff = now - this.retentionMs;
+    for (const map of [this.byLane, this.byId]) {
+      for (const [key, entries] of map) {
+        const kept = entries.filter(entry => entry.indexed_at >= cutoff);
+        if (kept.length > 0) map.set(key, kept);
+        else map.delete(key);
+      }
+    }
+  }
+}
+
+let index: RecentLoadIndex = new MemoryRecentLoadIndex();
+
+export function setRecentLoadIndex(next: RecentLoadIndex): void {
+  index = next;
+}
+
+export function getRecentLoadIndex(): RecentLoadIndex {
+  return index;
+}
+
+// Lane + equipment key; rate band and time window are applied as tolerances when matching
+// so that near-identical postings either side of a bucket boundary still collide
+export function fingerprintLoad(load: Pick<LoadVerificationInput, 'pickup_city' | 'delivery_city' | 'equipment'>): string {
+  return [locationKey(load.pickup_city), locationKey(load.delivery_city), equipmentKey(load.equipment)].join('|');
+}
+
+// Compare the load against the index, then add it
+export async function checkAndIndexLoad(
+  load: LoadVerificationInput,
+  clientName: string | null,
+  tolerances: { window_minutes: number; rate_tolerance: number },
+  loadIndex: RecentLoadIndex = index
+): Promise<{ fingerprint: string; match: DuplicateMatch }> {
+  const entry = toIndexed(load, clientName);
+  const windowMs = tolerances.window_minutes * 60 * 1000;
+
+  const [sameLane, sameId] = await Promise.all([
+    loadIndex.byFingerprint(entry.fingerprint),
+    loadIndex.byLoadId(entry.client_name, entry.load_id),
+  ]);
+
+  const laneMatches = sameLane.filter(other =>
+    other.broker_mc !== entry.broker_mc
+    && Math.abs(other.posted_at - entry.posted_at) <= windowMs
+    && withinRateBand(other.rate, entry.rate, tolerances.rate_tolerance)
+  );
+
+  // Re-verifying an unchanged load is normal; only a changed payload under the same id is suspicious
+  const previous = sameId.filter(other => other.content_hash !== entry.content_hash).pop();
+
+  await loadIndex.add(entry);
+
+  return {
+    fingerprint: entry.fingerprint,
+    match: {
+      lane_matches: latestPerLoad(laneMatches),
+      reused_load_id: previous ? { previous, changed_fields: changedFields(previous, entry) } : null,
+    },
+  };
+}
+
+function toIndexed(load: LoadVerificationInput, clientName: string | null): IndexedLoad {
+  const content = {
+    broker_mc: String(load.broker_mc).trim(),
+    pickup: locationKey(load.pickup_city),
+    delivery: locationKey(load.delivery_city),
+    equipment: equipmentKey(load.equipment),
+    rate: Number(load.rate),
+    posted_at: Date.parse(load.posted_at),
+  };
+
+  return {
+    load_id: String(load.load_id),
+    client_name: clientName,
+    ...content,
+    fingerprint: fingerprintLoad(load),
+    content_hash: createHash('sha256').update(JSON.stringify(content)).digest('hex'),
+    indexed_at: getClock().now(),
+  };
+}
+
+function changedFields(previous: IndexedLoad, current: IndexedLoad): string[] {
+  const fields: Array<[string, keyof IndexedLoad]> = [
+    ['broker_mc', 'broker_mc'],
+    ['pickup_city', 'pickup'],
+    ['delivery_city', 'delivery'],
+    ['equipment', 'equipment'],
+    ['rate', 'rate'],
+    ['posted_at', 'posted_at'],
+  ];
+
+  return fields
+    .filter(([, key]) => previous[key] !== current[key])
+    .map(([name]) => name);
+}
+
+// One entry per (load_id, MC) - repeated verifications of the same posting count once
+function latestPerLoad(entries: IndexedLoad[]): IndexedLoad[] {
+  const latest = new Map<string, IndexedLoad>();
+  for (const entry of entries) {
+    latest.set(`${entry.broker_mc}|${entry.load_id}`, entry);
+  }
+  return Array.from(latest.values());
+}
+
+function withinRateBand(a: number, b: number, tolerance: number): boolean {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return true;
+  return Math.abs(a - b) <= tolerance * Math.max(a, b);
+}
+
+function locationKey(value: string): string {
+  const location = parseCityState(value);
+  if (!location) return (value || '').trim().toLowerCase();
+  return `${location.city.toLowerCase().replace(/[^a-z ]/g, '')}, ${location.state}`;
+}
+
+function equipmentKey(value: string): string {
+  return canonicalEquipment(value) || (value || '').trim().toLowerCase();
+}
+
+function loadIdKey(clientName: string | null, loadId: string): string {
+  return JSON.stringify([clientName, loadId]);
+}
+
+function push(map: Map<string, IndexedLoad[]>, key: string, entry: IndexedLoad): void {
+  const entries = map.get(key);
+  if (entries) entries.push(entry);
+  else map.set(key, [entry]);
+}
@@ -0,0 +1,174 @@
+/**
+ * Verification Explanation
+ * Typed account of one audited decision - what every check looked at, the limits it applied and how it
+ * moved the verdict - for forwarding to a broker or carrier disputing the outcome
+ */
+
+import type { AuditRecord, CheckRecord } from './auditLog';
+import type { CheckRunStatus, EvidenceValue } from './checkPipeline';
+import type { CheckSeverity, ScoringPolicy } from './policyService';
+import { renderMessage, Locale, ReasonCode, ReasonParams } from './reasonCodes';
+import { resolvedStatus, ReviewItem } from './reviewQueue';
+import { scoreBand } from './riskScoring';
+import { severityFloor, strictestStatus, EvaluationMode, LoadVerificationInput, PolicyReference, VerificationStatus } from './verificationService';
+
+// Types
+export interface ExplainedFinding {
+  code: ReasonCode;
+  severity: CheckSeverity;
+  message: string;
+  params: ReasonParams;
+  // Dropped by an allowlist waiver - reported, but played no part in the verdict
+  waived: boolean;
+}
+
+// How a check moved the verdict: a rejecting or review finding sets a floor, otherwise its risk adds points
+export type CheckEffect = 'rejects' | 'requires_review' | 'adds_risk' | 'none';
+
+export interface ExplainedCheck {
+  check: string;
+  status: CheckRunStatus;
+  // The check's own verdict; null on records written before evidence was kept
+  result: string | null;
+  duration_ms: number | null;
+  inputs: Record<string, EvidenceValue>;
+  thresholds: Record<string, EvidenceValue>;
+  sources: Record<string, Record<string, EvidenceValue>>;
+  findings: ExplainedFinding[];
+  // Share of the 0-100 risk score; null when the check didn't complete or has no weight in the policy
+  score: { weight: number; risk: number; points: number } | null;
+  effect: CheckEffect;
+}
+
+export interface ExplainedVerdict {
+  // The automated decision, and the final one after human review
+  status: VerificationStatus;
+  resolved_status: VerificationStatus;
+  // score: the risk score band set the verdict; findings: a finding's severity overrode the band;
+  // system_error: verification failed and was sent for review
+  decided_by: 'score' | 'findings' | 'system_error';
+  risk_score: number | null;
+  score_band: VerificationStatus | null;
+  score_bands: ScoringPolicy['bands'] | null;
+  // Strictest verdict demanded by a finding's severity
+  finding_floor: VerificationStatus;
+  policy: PolicyReference;
+  evaluation_mode: EvaluationMode;
+  evaluated_at: string;
+  verified_at: string;
+}
+
+export interface VerificationExplanation {
+  verification_id: string;
+  load_id: string;
+  generated_at: string;
+  verdict: ExplainedVerdict;
+  load: LoadVerificationInput;
+  checks: ExplainedCheck[];
+  // Checks fast mode never started because an earlier check rejected the load
+  not_run: string[];
+  review: {
+    status: ReviewItem['status'];
+    decided_by: string | null;
+    decided_at: string | null;
+    justification: string | null;
+  } | null;
+}
+
+export function buildExplanation(
+  record: AuditRecord,
+  options: { review?: ReviewItem; locale?: Locale; generated_at?: string } = {}
+): VerificationExplanation {
+  const { result } = record;
+  const locale = options.locale || 'en';
+  const breakdown = new Map((result.risk_breakdown || []).map(component => [component.check, component]));
+
+  const checks = record.checks.map(check => explainCheck(check, breakdown.get(check.check), locale));
+
+  const floor = strictestStatus(...result.reasons.map(severityFloor));
+  const band = result.risk_score !== undefined && record.score_bands
+    ? scoreBand(result.risk_score, { weights: {}, bands: record.score_bands })
+    : null;
+
+  let decidedBy: ExplainedVerdict['decided_by'] = band && strictestStatus(band, floor) === band ? 'score' : 'findings';
+  if (result.reasons.some(reason => reason.code === 'SYSTEM_ERROR')) {
+    decidedBy = 'system_error';
+  }
+
+  const decision = options.review?.decision;
+
+  return {
+    verification_id: record.verification_id,
+    load_id: record.load_id,
+    generated_at: options.generated_at || new Date().toISOString(),
+    verdict: {
+      status: record.verification_status,
+      resolved_status: resolvedStatus(record.verification_status, options.review),
+      decided_by: decidedBy,
+      risk_score: result.risk_score ?? null,
+      score_band: band,
+      score_bands: record.score_bands || null,
+      finding_floor: floor,
+      policy: record.policy,
+      evaluation_mode: record.options.mode || 'fast',
+      evaluated_at: result.metadata?.evaluated_at || record.created_at,
+      verified_at: result.verified_at,
+    },
+    load: record.input,
+    checks,
+    not_run: result.metadata?.checks_skipped || [],
+    review: options.review
+      ? {
+        status: options.review.status,
+        decided_by: decision?.decided_by || null,
+        decided_at: decision?.decided_at || null,
+        justification: decision?.justification || null,
+      }
+      : null,
+  };
+}
+
+function explainCheck(
+  check: CheckRecord,
+  component: { weight: number; risk: number; contribution: number } | undefined,
+  locale: Locale
+): ExplainedCheck {
+  const { evidence } = check;
+
+  const findings: ExplainedFinding[] = [
+    ...check.findings.map(finding => ({ ...finding, waived: false })),
+    ...(check.waived || []).map(finding => ({ ...finding, waived: true })),
+  ].map(finding => ({
+    code: finding.code,
+    severity: finding.severity,
+    message: renderMessage(finding.code, finding.params, locale),
+    params: finding.params,
+    waived: finding.waived,
+  }));
+
+  const score = component && component.weight > 0
+    ? { weight: component.weight, risk: component.risk, points: component.contribution }
+    : null;
+
+  return {
+    check: check.check,
+    status: check.status || 'completed',
+    result: evidence?.result ?? null,
+    duration_ms: check.duration_ms ?? null,
+    inputs: evidence?.inputs || {},
+    thresholds: evidence?.thresholds || {},
+    sources: evidence?.sources || {},
+    findings,
+    score,
+    effect: checkEffect(findings, score),
+  };
+}
+
+function checkEffect(findings: ExplainedFinding[], score: ExplainedCheck['score']): CheckEffect {
+  const active = findings.filter(finding => !finding.waived);
+
+  if (active.some(finding => finding.severity === 'reject')) return 'rejects';
+  if (active.some(finding => finding.severity === 'review')) return 'requires_review';
+  if (score && score.points > 0) return 'adds_risk';
+  return 'none';
+}
@@ -0,0 +1,156 @@
+/**
+ * Explanation Report
+ * Renders a verification explanation as a self-contained HTML page that prints cleanly (or saves to PDF)
+ */
+
+import type { EvidenceValue } from './checkPipeline';
+import type { CheckEffect, ExplainedCheck, VerificationExplanation } from './explanation';
+
+const EFFECT_LABELS: Record<CheckEffect, string> = {
+  rejects: 'Rejects the load',
+  requires_review: 'Requires manual review',
+  adds_risk: 'Adds to the risk score',
+  none: 'No effect on the verdict',
+};
+
+const DECIDED_BY_LABELS: Record<VerificationExplanation['verdict']['decided_by'], string> = {
+  score: 'The risk score fell in the {band} band.',
+  findings: 'A finding required at least {floor}, overriding the risk score band.',
+  system_error: 'Verification could not be completed and was sent for manual review.',
+};
+
+const STYLES = `
+  body { font: 13px/1.45 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1d2329; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+  h3 { font-size: 14px; margin: 0 0 6px; }
+  table { border-collapse: collapse; width: 100%; margin: 6px 0; }
+  th, td { text-align: left; vertical-align: top; padding: 3px 8px 3px 0; }
+  th { width: 30%; font-weight: 600; color: #57606a; }
+  .muted { color: #57606a; }
+  .status { display: inline-block; padding: 2px 8px; border-radius: 4px; font-weight: 600; }
+  .APPROVED { background: #dafbe1; color: #116329; }
+  .NEEDS_REVIEW { background: #fff8c5; color: #7d4e00; }
+  .REJECTED { background: #ffebe9; color: #a40e26; }
+  .check { border: 1px solid #d0d7de; border-radius: 6px; padding: 10px 12px; margin: 10px 0; page-break-inside: avoid; }
+  .finding { margin: 2px 0; }
+  .waived { text-decoration: line-through; color: #57606a; }
+  @page { size: letter; margin: 16mm; }
+  @media print { body { margin: 0; } .check { border-color: #999; } }
+`;
+
+export function renderExplanationHtml(doc: VerificationExplanation): string {
+  const { verdict, load } = doc;
+  const basis = DECIDED_BY_LABELS[verdict.decided_by]
+    .replace('{band}', label(verdict.score_band || ''))
+    .replace('{floor}', label(verdict.finding_floor));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Load verification report - ${escapeHtml(doc.load_id)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Load verification report</h1>
+<div class="muted">Load ${escapeHtml(doc.load_id)} &middot; Verification ${escapeHtml(doc.verification_id)}</div>
+
+<h2>Decision</h2>
+<p><span class="status ${verdict.resolved_status}">${escapeHtml(label(verdict.resolved_status))}</span>
+${verdict.resolved_status !== verdict.status ? ` <span class="muted">(automated decision: ${escapeHtml(label(verdict.status))})</span>` : ''}</p>
+<p>${escapeHtml(basis)}</p>
+${table([
+    ['Risk score', verdict.risk_score === null ? 'n/a' : `${verdict.risk_score} / 100`],
+    ['Score bands', verdict.score_bands ? `review at ${verdict.score_bands.review_at}, reject at ${verdict.score_bands.reject_at}` : 'n/a'],
+    ['Policy', `${verdict.policy.id} (version ${verdict.policy.version})`],
+    ['Evaluated as of', verdict.evaluated_at],
+    ['Decided at', verdict.verified_at],
+    ['Evaluation mode', verdict.evaluation_mode],
+  ])}
+${doc.review ? reviewSection(doc.review) : ''}
+<h2>Load</h2>
+${table([
+    ['Broker', `${load.broker_name} (MC ${load.broker_mc})`],
+    ['Lane', `${load.pickup_city} to ${load.delivery_city}`],
+    ['Equipment', load.equipment],
+    ['Rate', `$${load.rate}`],
+    ['Credit score', load.credit_score],
+    ['Posted at', load.posted_at],
+  ])}
+
+<h2>Checks</h2>
+${doc.checks.map(checkSection).join('\n')}
+${doc.not_run.length > 0 ? `<p class="muted">Not run (an earlier check rejected the load): ${doc.not_run.map(escapeHtml).join(', ')}</p>` : ''}
+
+<p class="muted">Generated ${escapeHtml(doc.generated_at)}</p>
+</body>
+</html>
+`;
+}
+
+function reviewSection(review: NonNullable<VerificationExplanation['review']>): string {
+  return `<h2>Manual review</h2>
+${table([
+    ['Status', label(review.status)],
+    ['Reviewer', review.decided_by],
+    ['Decided at', review.decided_at],
+    ['Justification', review.justification],
+  ])}`;
+}
+
+function checkSection(check: ExplainedCheck): string {
+  const score = check.score
+    ? `${check.score.points} points (risk ${check.score.risk} × weight ${check.score.weight})`
+    : 'not scored';
+
+  const findings = check.findings.length > 0
+    ? check.findings.map(finding =>
+      `<div class="finding${finding.waived ? ' waived' : ''}">[${escapeHtml(finding.severity)}] ${escapeHtml(finding.message)}${finding.waived ? ' (waived)' : ''}</div>`
+    ).join('\n')
+    : '<div class="finding muted">No findings</div>';
+
+  return `<div class="check">
+<h3>${escapeHtml(label(check.check))} &mdash; ${escapeHtml(check.result || check.status)}</h3>
+${findings}
+${table([['Effect', EFFECT_LABELS[check.effect]], ['Score contribution', score]])}
+${evidenceTable('Inputs', check.inputs)}
+${evidenceTable('Thresholds', check.thresholds)}
+${Object.entries(check.sources).map(([source, fields]) => evidenceTable(`${source.toUpperCase()} data`, fields)).join('\n')}
+</div>`;
+}
+
+function evidenceTable(title: string, values: Record<string, EvidenceValue>): string {
+  if (Object.keys(values).length === 0) return '';
+  return `<div class="muted">${escapeHtml(title)}</div>\n${table(Object.entries(values).map(([key, value]) => [label(key), value]))}`;
+}
+
+function table(rows: Array<[string, EvidenceValue | undefined]>): string {
+  const body = rows
+    .map(([name, value]) => `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(formatValue(value))}</td></tr>`)
+    .join('');
+  return `<table>${body}</table>`;
+}
+
+function formatValue(value: EvidenceValue | undefined): string {
+  if (value === null || value === undefined || value === '') return 'n/a';
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return value.length > 0 ? value.map(formatValue).join(', ') : 'none';
+  if (typeof value === 'object') return Object.entries(value).map(([key, field]) => `${label(key)}: ${formatValue(field)}`).join('; ');
+  return String(value);
+}
+
+// "broker_identity" -> "Broker identity", "NEEDS_REVIEW" -> "Needs review"
+function label(value: string): string {
+  const words = value.replace(/_/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
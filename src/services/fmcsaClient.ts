@@ -0,0 +1,470 @@
+/**
+ * FMCSA Client
+ * Cached, coalesced access to the FMCSA QCMobile carrier API
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createFMCSAProvider, FMCSAProvider, FMCSAUnavailableError } from './fmcsaProvider';
+import { logger } from './logger';
+import { metrics } from './metrics';
+import { CircuitBreaker, CircuitOpenError, CircuitSnapshot, CircuitState } from './circuitBreaker';
+
+const log = logger.child({ component: 'fmcsa' });
+
+export { FMCSAUnavailableError };
+
+// Types
+export interface FMCSACarrier {
+  mc_number: string;
+  dot_number?: string | null;
+  legal_name: string;
+  dba_name?: string | null;
+  status: string;
+  allowed_to_operate: boolean;
+  out_of_service: boolean;
+  out_of_service_date?: string | null;
+  carrier_operation: string;
+  // Optional because they come from secondary endpoints (and older cache entries lack them)
+  authority?: FMCSAAuthority | null;
+  insurance?: FMCSAInsurance;
+  docket_numbers?: string[];
+}
+
+export interface FMCSAAuthority {
+  broker: boolean;
+  broker_status: string | null;
+  common: boolean;
+  common_status: string | null;
+  contract: boolean;
+  contract_status: string | null;
+  granted_at: string | null;
+}
+
+export interface FMCSAInsurance {
+  // BMC-84 (surety bond) / BMC-85 (trust fund) financial responsibility for brokers
+  bond_required: boolean | null;
+  bond_on_file: boolean | null;
+  // BMC-91 liability coverage, in thousands of dollars
+  bipd_required_amount: number | null;
+  bipd_on_file_amount: number | null;
+}
+
+export type FMCSACacheStatus = 'HIT' | 'MISS' | 'COALESCED' | 'STALE';
+
+export interface FMCSALookup {
+  found: boolean;
+  carrier?: FMCSACarrier;
+  cache: {
+    status: FMCSACacheStatus;
+    fetched_at: string;
+    age_seconds: number;
+  };
+}
+
+export interface FMCSACacheEntry {
+  found: boolean;
+  carrier?: FMCSACarrier;
+  fetched_at: number;
+  expires_at: number;
+}
+
+export interface FMCSAProbe {
+  reachable: boolean;
+  checked_at: string;
+  latency_ms: number;
+  error?: string;
+}
+
+export interface FMCSAHealth {
+  configured: boolean;
+  provider: string;
+  breaker: CircuitSnapshot;
+  // null when not configured or while the breaker is open (no probe is sent)
+  probe: FMCSAProbe | null;
+}
+
+export interface FMCSACacheStore {
+  get(mcNumber: string): Promise<FMCSACacheEntry | undefined>;
+  set(mcNumber: string, entry: FMCSACacheEntry): Promise<void>;
+  delete(mcNumber: string): Promise<void>;
+}
+
+// Configuration
+const CONFIG = {
+  CACHE_BACKEND: process.env.FMCSA_CACHE_BACKEND || 'memory',
+  CACHE_FILE: process.env.FMCSA_CACHE_FILE || path.join(process.env.DATA_DIR || 'data', 'fmcsa-cache.json'),
+  POSITIVE_TTL_MS: parseInt(process.env.FMCSA_CACHE_TTL_MS || '900000', 10),
+  NEGATIVE_TTL_MS: parseInt(process.env.FMCSA_CACHE_NEGATIVE_TTL_MS || '300000', 10),
+  STALE_MAX_AGE_MS: parseInt(process.env.FMCSA_CACHE_STALE_MAX_AGE_MS || '86400000', 10),
+  BREAKER_FAILURE_THRESHOLD: parseInt(process.env.FMCSA_BREAKER_FAILURE_THRESHOLD || '5', 10),
+  BREAKER_RESET_MS: parseInt(process.env.FMCSA_BREAKER_RESET_MS || '30000', 10),
+  // Readiness probe: any answer for this MC (found or not) means FMCSA is reachable
+  PROBE_MC: process.env.FMCSA_PROBE_MC || '123456',
+  PROBE_TTL_MS: parseInt(process.env.FMCSA_PROBE_TTL_MS || '30000', 10),
+};
+
+// In-memory cache (per process / serverless instance)
+export class MemoryFMCSACacheStore implements FMCSACacheStore {
+  private entries = new Map<string, FMCSACacheEntry>();
+
+  async get(mcNumber: string): Promise<FMCSACacheEntry | undefined> {
+    return this.entries.get(mcNumber);
+  }
+
+  async set(mcNumber: string, entry: FMCSACacheEntry): Promise<void> {
+    this.entries.set(mcNumber, entry);
+  }
+
+  async delete(mcNumber: string): Promise<void> {
+    this.entries.delete(mcNumber);
+  }
+}
+
+// JSON file cache - survives restarts on a single host
+export class FileFMCSACacheStore implements FMCSACacheStore {
+  private entries: Map<string, FMCSACacheEntry> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async get(mcNumber: string): Promise<FMCSACacheEntry | undefined> {
+    return (await this.load()).get(mcNumber);
+  }
+
+  async set(mcNumber: string, entry: FMCSACacheEntry): Promise<void> {
+    (await this.load()).set(mcNumber, entry);
+    await this.persist();
+  }
+
+  async delete(mcNumber: string): Promise<void> {
+    (await this.load()).delete(mcNumber);
+    await this.persist();
+  }
+
+  private async load(): Promise<Map<string, FMCSACacheEntry>> {
+    if (this.entries) return this.entries;
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf8');
+      this.entries = new Map(Object.entries(JSON.parse(raw)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn('FMCSA cache file unreadable - starting empty', { file: this.filePath, error });
+      }
+      this.entries = new Map();
+    }
+
+    return this.entries;
+  }
+
+  private persist(): Promise<void> {
+    // Serialize writes so concurrent lookups never interleave partial files
+    this.writeQueue = this.writeQueue.then(async () => {
+      const now = Date.now();
+      const live = Array.from(this.entries!.entries())
+        .filter(([, entry]) => now - entry.fetched_at < CONFIG.STALE_MAX_AGE_MS);
+
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(Object.fromEntries(live)));
+    }).catch(error => {
+      log.error('FMCSA cache write failed', { error });
+    });
+
+    return this.writeQueue;
+  }
+}
+
+let cacheStore: FMCSACacheStore = CONFIG.CACHE_BACKEND === 'file'
+  ? new FileFMCSACacheStore(CONFIG.CACHE_FILE)
+  : new MemoryFMCSACacheStore();
+
+let provider: FMCSAProvider = createFMCSAProvider();
+
+const inFlight = new Map<string, Promise<FMCSACacheEntry>>();
+
+// Outages (timeouts, 5xx, malformed bodies) count against the breaker; a missing MC is an answer
+const breaker = new CircuitBreaker(
+  'fmcsa',
+  { failure_threshold: CONFIG.BREAKER_FAILURE_THRESHOLD, reset_timeout_ms: CONFIG.BREAKER_RESET_MS },
+  error => error instanceof FMCSAUnavailableError
+);
+
+let lastProbe: { result: FMCSAProbe; at: number } | null = null;
+
+export function setFMCSACacheStore(store: FMCSACacheStore): void {
+  cacheStore = store;
+}
+
+export function setFMCSAProvider(next: FMCSAProvider): void {
+  provider = next;
+  breaker.reset();
+  lastProbe = null;
+}
+
+export function isFMCSAConfigured(): boolean {
+  return provider.isConfigured();
+}
+
+// Look up a carrier by MC number, serving from cache where possible
+// `fresh` bypasses cached and stale records (monitoring) but still refreshes the cache
+export async function lookupCarrier(mcNumber: string, options: { fresh?: boolean } = {}): Promise<FMCSALookup> {
+  const now = Date.now();
+  const cached = await cacheStore.get(mcNumber);
+
+  if (!options.fresh && cached && cached.expires_at > now) {
+    return toLookup(cached, 'HIT');
+  }
+
+  // Concurrent lookups for the same MC share one upstream request
+  const pending = inFlight.get(mcNumber);
+  const request = pending || fetchCarrier(mcNumber);
+
+  if (!pending) {
+    inFlight.set(mcNumber, request);
+    request.then(
+      () => inFlight.delete(mcNumber),
+      () => inFlight.delete(mcNumber)
+    );
+  }
+
+  try {
+    return toLookup(await request, pending ? 'COALESCED' : 'MISS');
+
+  } catch (error) {
+    // Stale-if-error: fall back to the last known record while it is still usable
+    if (!options.fresh && error instanceof FMCSAUnavailableError && cached && now - cached.fetched_at < CONFIG.STALE_MAX_AGE_MS) {
+      log.warn('FMCSA unavailable - serving stale record', { mc_number: mcNumber, age_seconds: Math.floor((now - cached.fetched_at) / 1000) });
+      return toLookup(cached, 'STALE');
+    }
+
+    throw error;
+  }
+}
+
+// Provider and breaker state without probing upstream
+export function describeFMCSA(): Omit<FMCSAHealth, 'probe'> {
+  return { configured: provider.isConfigured(), provider: provider.name, breaker: breaker.snapshot() };
+}
+
+// Provider, breaker state and a (cached) reachability probe - for /ready and diagnostics
+export async function checkFMCSAHealth(): Promise<FMCSAHealth> {
+  const health = describeFMCSA();
+
+  // An open breaker already says FMCSA is down - don't add load while it recovers
+  if (!health.configured || health.breaker.state === 'OPEN') {
+    return { ...health, probe: null };
+  }
+
+  const now = Date.now();
+  if (!lastProbe || now - lastProbe.at >= CONFIG.PROBE_TTL_MS) {
+    lastProbe = { result: await probe(), at: now };
+  }
+
+  return { ...health, breaker: breaker.snapshot(), probe: lastProbe.result };
+}
+
+async function probe(): Promise<FMCSAProbe> {
+  const before = breaker.getState();
+  const started = Date.now();
+  const checkedAt = new Date(started).toISOString();
+
+  try {
+    await breaker.execute(() => provider.get(CONFIG.PROBE_MC));
+    return { reachable: true, checked_at: checkedAt, latency_ms: Date.now() - started };
+  } catch (error) {
+    return {
+      reachable: false,
+      checked_at: checkedAt,
+      latency_ms: Date.now() - started,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  } finally {
+    logBreakerTransition(before);
+  }
+}
+
+async function fetchCarrier(mcNumber: string): Promise<FMCSACacheEntry> {
+  const before = breaker.getState();
+  let entry: FMCSACacheEntry;
+
+  try {
+    entry = await breaker.execute(() => requestCarrier(mcNumber));
+  } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      metrics.fmcsaRequests.inc({ outcome: 'circuit_open' });
+      throw new FMCSAUnavailableError('CIRCUIT_OPEN', `retrying after ${new Date(error.retryAt).toISOString()}`);
+    }
+    throw error;
+  } finally {
+    logBreakerTransition(before);
+  }
+
+  await cacheStore.set(mcNumber, entry);
+  return entry;
+}
+
+function logBreakerTransition(before: CircuitState): void {
+  const after = breaker.getState();
+  metrics.fmcsaCircuitOpen.set({}, after === 'OPEN' ? 1 : 0);
+
+  if (after === before) return;
+
+  if (after === 'OPEN') {
+    log.error('FMCSA circuit opened - fast-failing lookups', { breaker: breaker.snapshot() });
+  } else if (after === 'CLOSED') {
+    log.info('FMCSA circuit closed - lookups resumed');
+  }
+}
+
+async function requestCarrier(mcNumber: string): Promise<FMCSACacheEntry> {
+  const started = Date.now();
+
+  try {
+    const body = await provider.get(mcNumber);
+
+    if (body === null) {
+      observeRequest('not_found', started);
+      return notFound();
+    }
+
+    // A 200 that isn't a QCMobile envelope (HTML error page, truncated JSON) is an outage, not a missing MC
+    if (!isObject(body) || !('content' in body)) {
+      throw new FMCSAUnavailableError('ERROR', 'malformed carrier response');
+    }
+
+    const carrier = body.content?.carrier;
+
+    if (!carrier) {
+      observeRequest('not_found', started);
+      return notFound();
+    }
+
+    if (!isObject(carrier)) {
+      throw new FMCSAUnavailableError('ERROR', 'malformed carrier record');
+    }
+
+    // Authority and docket details live on separate endpoints keyed by DOT number
+    const dotNumber = carrier.dotNumber ? String(carrier.dotNumber) : null;
+    const [authorityData, docketData] = dotNumber
+      ? await Promise.all([
+        getOptional(`${dotNumber}/authority`),
+        getOptional(`${dotNumber}/docket-numbers`),
+      ])
+      : [null, null];
+
+    observeRequest('ok', started);
+
+    return found({
+      mc_number: mcNumber,
+      dot_number: dotNumber,
+      legal_name: carrier.legalName || 'Unknown',
+      dba_name: carrier.dbaName || null,
+      status: carrier.allowedToOperate || 'UNKNOWN',
+      allowed_to_operate: carrier.allowedToOperate === 'Y',
+      // Only an actual date means out of service - a missing field does not
+      out_of_service: !!carrier.outOfServiceDate,
+      out_of_service_date: carrier.outOfServiceDate || null,
+      carrier_operation: carrier.carrierOperation || 'Unknown',
+      authority: parseAuthority(authorityData),
+      insurance: {
+        bond_required: yesNo(carrier.bondInsuranceRequired),
+        bond_on_file: carrier.bondInsuranceOnFile == null ? null : Number(carrier.bondInsuranceOnFile) > 0,
+        bipd_required_amount: toNumber(carrier.bipdRequiredAmount),
+        bipd_on_file_amount: toNumber(carrier.bipdInsuranceOnFile),
+      },
+      docket_numbers: parseDocketNumbers(docketData),
+    });
+
+  } catch (error) {
+    const unavailable = error instanceof FMCSAUnavailableError ? error : new FMCSAUnavailableError('ERROR');
+
+    observeRequest(unavailable.kind === 'TIMEOUT' ? 'timeout' : 'error', started);
+    log.error('FMCSA API error', { mc_number: mcNumber, error: error instanceof Error ? error.message : error });
+    throw unavailable;
+  }
+}
+
+// Upstream outcome and latency of one carrier lookup (secondary endpoints included)
+function observeRequest(outcome: 'ok' | 'not_found' | 'timeout' | 'error', started: number): void {
+  metrics.fmcsaRequests.inc({ outcome });
+  metrics.fmcsaDuration.observe({ outcome }, (Date.now() - started) / 1000);
+}
+
+// Secondary endpoints are best-effort: their absence leaves fields null rather than failing the lookup
+async function getOptional(resource: string): Promise<any> {
+  try {
+    return await provider.get(resource);
+  } catch (error) {
+    log.warn('FMCSA resource unavailable', { resource, error: error instanceof Error ? error.message : error });
+    return null;
+  }
+}
+
+function parseAuthority(data: any): FMCSAAuthority | null {
+  const content = Array.isArray(data?.content) ? data.content[0] : data?.content;
+  const authority = content?.carrierAuthority;
+  if (!authority) return null;
+
+  return {
+    broker: authority.authorizedForBroker === 'Y',
+    broker_status: authority.brokerAuthorityStatus || null,
+    common: authority.commonAuthorityStatus === 'A',
+    common_status: authority.commonAuthorityStatus || null,
+    contract: authority.contractAuthorityStatus === 'A',
+    contract_status: authority.contractAuthorityStatus || null,
+    granted_at: toIsoDate(authority.brokerAuthorityGrantDate || authority.authorityGrantDate),
+  };
+}
+
+function parseDocketNumbers(data: any): string[] {
+  const content = Array.isArray(data?.content) ? data.content : [];
+  return content
+    .filter((docket: any) => docket?.docketNumber)
+    .map((docket: any) => `${docket.prefix || 'MC'}${docket.docketNumber}`);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function yesNo(value: unknown): boolean | null {
+  if (value === 'Y') return true;
+  if (value === 'N') return false;
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = Number(value);
+  return value == null || value === '' || isNaN(parsed) ? null : parsed;
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (!value) return null;
+  const time = Date.parse(String(value));
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function found(carrier: FMCSACarrier): FMCSACacheEntry {
+  const now = Date.now();
+  return { found: true, carrier, fetched_at: now, expires_at: now + CONFIG.POSITIVE_TTL_MS };
+}
+
+function notFound(): FMCSACacheEntry {
+  const now = Date.now();
+  return { found: false, fetched_at: now, expires_at: now + CONFIG.NEGATIVE_TTL_MS };
+}
+
+function toLookup(entry: FMCSACacheEntry, status: FMCSACacheStatus): FMCSALookup {
+  metrics.fmcsaCache.inc({ status });
+
+  return {
+    found: entry.found,
+    carrier: entry.carrier,
+    cache: {
+      status,
+      fetched_at: new Date(entry.fetched_at).toISOString(),
+      age_seconds: Math.floor((Date.now() - entry.fetched_at) / 1000),
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * FMCSA Providers
+ * Transport behind the FMCSA client - the live QCMobile API, or canned fixtures for offline runs
+ */
+
+import fs from 'fs';
+import axios from 'axios';
+import { getLogContext } from './logger';
+
+// Types
+export interface FMCSAProvider {
+  readonly name: string;
+  isConfigured(): boolean;
+  // Raw QCMobile response body for a resource ("<mc>", "<dot>/authority", "<dot>/docket-numbers"),
+  // or null when the resource doesn't exist (HTTP 404). Throws FMCSAUnavailableError otherwise.
+  get(resource: string): Promise<any | null>;
+}
+
+// One canned response per resource
+export type FMCSAFixture =
+  | { status: number; body?: unknown }
+  | { error: 'timeout' | 'network' };
+
+export type FMCSAFixtureSet = Record<string, FMCSAFixture>;
+
+const UNAVAILABLE_MESSAGES = {
+  TIMEOUT: 'FMCSA API timeout',
+  ERROR: 'FMCSA API error',
+  // Fast-failed by the client's circuit breaker without calling FMCSA
+  CIRCUIT_OPEN: 'FMCSA circuit open',
+};
+
+export class FMCSAUnavailableError extends Error {
+  constructor(public readonly kind: keyof typeof UNAVAILABLE_MESSAGES, detail?: string) {
+    super(UNAVAILABLE_MESSAGES[kind] + (detail ? `: ${detail}` : ''));
+    this.name = 'FMCSAUnavailableError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  FMCSA_API_BASE: 'https://mobile.fmcsa.dot.gov/qc/services/carriers',
+  FMCSA_TIMEOUT_MS: 5000,
+};
+
+// Live QCMobile API - configured when FMCSA_API_KEY is set
+export class HttpFMCSAProvider implements FMCSAProvider {
+  readonly name = 'http';
+
+  isConfigured(): boolean {
+    return !!process.env.FMCSA_API_KEY;
+  }
+
+  async get(resource: string): Promise<any | null> {
+    // Correlates upstream calls with the request that triggered them
+    const requestId = getLogContext()?.request_id;
+
+    try {
+      const response = await axios.get(`${CONFIG.FMCSA_API_BASE}/${resource}?webKey=${process.env.FMCSA_API_KEY}`, {
+        timeout: CONFIG.FMCSA_TIMEOUT_MS,
+        headers: { 'Accept': 'application/json', ...(requestId && { 'X-Request-Id': requestId }) },
+      });
+      return response.data;
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+          throw new FMCSAUnavailableError('TIMEOUT');
+        }
+
+        if (error.response?.status === 404) {
+          return null;
+        }
+      }
+
+      throw new FMCSAUnavailableError('ERROR', error instanceof Error ? error.message : undefined);
+    }
+  }
+}
+
+// Canned responses keyed by resource - unknown resources answer 404.
+// Accepts the fixtures directly or a path to a JSON file of them (read on first use).
+export class FixtureFMCSAProvider implements FMCSAProvider {
+  readonly name = 'fixture';
+  private fixtures: FMCSAFixtureSet | null = null;
+
+  constructor(private readonly source: FMCSAFixtureSet | string) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async get(resource: string): Promise<any | null> {
+    const fixture = (await this.load())[resource];
+
+    if (!fixture) return null;
+
+    if ('error' in fixture) {
+      throw new FMCSAUnavailableError(fixture.error === 'timeout' ? 'TIMEOUT' : 'ERROR', `fixture ${fixture.error}`);
+    }
+
+    if (fixture.status === 404) return null;
+
+    if (fixture.status >= 400) {
+      throw new FMCSAUnavailableError('ERROR', `fixture HTTP ${fixture.status}`);
+    }
+
+    // Copy, so callers can't mutate the canned response
+    return fixture.body === undefined ? null : JSON.parse(JSON.stringify(fixture.body));
+  }
+
+  private async load(): Promise<FMCSAFixtureSet> {
+    if (!this.fixtures) {
+      this.fixtures = typeof this.source === 'string'
+        ? JSON.parse(await fs.promises.readFile(this.source, 'utf8')) as FMCSAFixtureSet
+        : this.source;
+    }
+    return this.fixtures;
+  }
+}
+
+// FMCSA_PROVIDER=fixture serves FMCSA_FIXTURES_FILE instead of calling FMCSA (local development, demos)
+export function createFMCSAProvider(): FMCSAProvider {
+  if (process.env.FMCSA_PROVIDER === 'fixture') {
+    if (!process.env.FMCSA_FIXTURES_FILE) {
+      throw new Error('FMCSA_PROVIDER=fixture requires FMCSA_FIXTURES_FILE');
+    }
+    return new FixtureFMCSAProvider(process.env.FMCSA_FIXTURES_FILE);
+  }
+
+  return new HttpFMCSAProvider();
+}
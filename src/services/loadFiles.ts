@@ -0,0 +1,120 @@
+/**
+ * Load Files
+ * JSONL and CSV parsing for bulk load input (simulations, CLI) and broker data imports
+ */
+
+// Types
+export type LoadFileFormat = 'jsonl' | 'csv';
+
+export class LoadFileError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid load file: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` (+${problems.length - 5} more)` : ''}`);
+    this.name = 'LoadFileError';
+  }
+}
+
+// CSV cells are strings - these columns are read as numbers
+const NUMERIC_COLUMNS = new Set(['credit_score', 'rate']);
+
+// Guess the format from a file name (anything but .csv is treated as JSONL)
+export function formatFromFileName(fileName: string): LoadFileFormat {
+  return fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'jsonl';
+}
+
+export function parseLoadFile(text: string, format: LoadFileFormat): Record<string, unknown>[] {
+  return format === 'csv' ? parseCsv(text) : parseJsonl(text);
+}
+
+// One JSON object per line; blank lines are skipped
+function parseJsonl(text: string): Record<string, unknown>[] {
+  const rows: Record<string, unknown>[] = [];
+  const problems: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+
+    try {
+      const row = JSON.parse(line);
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        problems.push(`line ${i + 1}: expected a JSON object`);
+      } else {
+        rows.push(row);
+      }
+    } catch (error) {
+      problems.push(`line ${i + 1}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+    }
+  });
+
+  if (problems.length > 0) throw new LoadFileError(problems);
+  return rows;
+}
+
+// Header row plus one load per row; empty cells are omitted
+function parseCsv(text: string): Record<string, unknown>[] {
+  const [header, ...records] = splitCsv(text).filter(record => record.some(cell => cell.trim() !== ''));
+
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  const problems: string[] = [];
+
+  const rows = records.map((cells, i) => {
+    if (cells.length > columns.length) {
+      problems.push(`row ${i + 2}: ${cells.length} cells but ${columns.length} columns`);
+    }
+
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, c) => {
+      const cell = (cells[c] ?? '').trim();
+      if (cell === '') return;
+      row[column] = NUMERIC_COLUMNS.has(column) && !isNaN(Number(cell)) ? Number(cell) : cell;
+    });
+    return row;
+  });
+
+  if (problems.length > 0) throw new LoadFileError(problems);
+  return rows;
+}
+
+// RFC 4180: quoted cells may contain commas, newlines and "" escapes
+function splitCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records;
+}
@@ -0,0 +1,186 @@
+/**
+ * Load Validation
+ * Declarative input schema shared by the API routes and bulk (file) input - coerces, normalizes and
+ * reports every field problem at once
+ */
+
+import { canonicalEquipment, parseCityState } from './rateCheck';
+import type { LoadVerificationInput } from './verificationService';
+
+// Types
+export type FieldErrorCode = 'required' | 'invalid_type' | 'invalid_format' | 'out_of_range';
+
+export interface FieldError {
+  field: string;
+  code: FieldErrorCode;
+  message: string;
+}
+
+export type LoadParseResult =
+  | { ok: true; load: LoadVerificationInput }
+  | { ok: false; errors: FieldError[] };
+
+export interface BatchItemErrors {
+  index: number;
+  load_id: string | null;
+  errors: FieldError[];
+}
+
+interface FieldSpec {
+  type: 'string' | 'number' | 'timestamp';
+  required: boolean;
+  // Inclusive bounds for numbers
+  min?: number;
+  max?: number;
+  greater_than?: number;
+  // Canonical form of a well-typed value; null when it doesn't match `format`
+  normalize?: (value: string) => string | null;
+  format?: string;
+}
+
+// US states, DC and Canadian provinces
+const REGION_CODES = new Set([
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+  'AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT',
+]);
+
+export const LOAD_INPUT_SCHEMA: Record<keyof LoadVerificationInput, FieldSpec> = {
+  load_id: { type: 'string', required: true },
+  broker_name: { type: 'string', required: true, normalize: value => value.replace(/\s+/g, ' ') },
+  broker_mc: { type: 'string', required: true, normalize: normalizeMcNumber, format: 'an MC number such as 123456 or MC-123456' },
+  credit_score: { type: 'number', required: true, min: 0, max: 100 },
+  posted_at: { type: 'timestamp', required: true },
+  pickup_city: { type: 'string', required: true, normalize: normalizeCityState, format: '"City, ST" with a US state or Canadian province' },
+  delivery_city: { type: 'string', required: true, normalize: normalizeCityState, format: '"City, ST" with a US state or Canadian province' },
+  rate: { type: 'number', required: true, greater_than: 0 },
+  // Unrecognized equipment passes through unchanged - the rate check reports it
+  equipment: { type: 'string', required: true, normalize: value => canonicalEquipment(value) || value },
+  broker_phone: { type: 'string', required: false },
+  broker_email: { type: 'string', required: false, normalize: normalizeEmail, format: 'an email address' },
+};
+
+// Validate and normalize one load; unknown fields are dropped
+export function parseLoadInput(input: unknown): LoadParseResult {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: 'load', code: 'invalid_type', message: 'load must be an object' }] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const load: Record<string, unknown> = {};
+  const errors: FieldError[] = [];
+
+  for (const [field, spec] of Object.entries(LOAD_INPUT_SCHEMA)) {
+    const result = parseField(field, raw[field], spec);
+
+    if ('error' in result) {
+      errors.push(result.error);
+    } else if (result.value !== undefined) {
+      load[field] = result.value;
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, load: load as unknown as LoadVerificationInput };
+}
+
+// Every item is checked, so one response lists all the bad rows
+export function parseLoadBatch(items: unknown[]): { loads: LoadVerificationInput[]; invalid: BatchItemErrors[] } {
+  const loads: LoadVerificationInput[] = [];
+  const invalid: BatchItemErrors[] = [];
+
+  items.forEach((item, index) => {
+    const result = parseLoadInput(item);
+
+    if (result.ok) {
+      loads.push(result.load);
+    } else {
+      const loadId = item && typeof item === 'object' ? (item as Record<string, unknown>).load_id : undefined;
+      invalid.push({ index, load_id: loadId !== undefined && loadId !== null ? String(loadId) : null, errors: result.errors });
+    }
+  });
+
+  return { loads, invalid };
+}
+
+export function describeErrors(errors: FieldError[]): string {
+  return errors.map(error => error.message).join('; ');
+}
+
+// "MC-012345", "mc# 12345", 12345 -> "12345"
+export function normalizeMcNumber(value: string): string | null {
+  const match = value.trim().match(/^(?:MC)?[-\s#:]*(\d{1,8})$/i);
+  return match ? match[1].replace(/^0+(?=\d)/, '') : null;
+}
+
+// "Chicago IL 60601", "St. Louis, MO" -> "Chicago, IL", "Saint Louis, MO"
+export function normalizeCityState(value: string): string | null {
+  const location = parseCityState(value);
+  if (!location || !REGION_CODES.has(location.state)) return null;
+
+  return `${location.city}, ${location.state}`;
+}
+
+function normalizeEmail(value: string): string | null {
+  const email = value.trim().toLowerCase();
+  return /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email) ? email : null;
+}
+
+function parseField(field: string, value: unknown, spec: FieldSpec): { value: unknown } | { error: FieldError } {
+  const missing = value === undefined || value === null || (typeof value === 'string' && !value.trim());
+
+  if (missing) {
+    return spec.required
+      ? { error: { field, code: 'required', message: `${field} is required` } }
+      : { value: undefined };
+  }
+
+  switch (spec.type) {
+    case 'number': {
+      const number = coerceNumber(value);
+      if (number === null) {
+        return { error: { field, code: 'invalid_type', message: `${field} must be a number` } };
+      }
+      if ((spec.min !== undefined && number < spec.min) || (spec.max !== undefined && number > spec.max)) {
+        return { error: { field, code: 'out_of_range', message: `${field} must be between ${spec.min} and ${spec.max}` } };
+      }
+      if (spec.greater_than !== undefined && number <= spec.greater_than) {
+        return { error: { field, code: 'out_of_range', message: `${field} must be greater than ${spec.greater_than}` } };
+      }
+      return { value: number };
+    }
+
+    case 'timestamp': {
+      if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+        return { error: { field, code: 'invalid_format', message: `${field} must be valid ISO 8601 timestamp` } };
+      }
+      return { value: new Date(value).toISOString() };
+    }
+
+    case 'string': {
+      if (typeof value !== 'string' && !(typeof value === 'number' && isFinite(value))) {
+        return { error: { field, code: 'invalid_type', message: `${field} must be a string` } };
+      }
+
+      const text = String(value).trim();
+      const normalized = spec.normalize ? spec.normalize(text) : text;
+      if (normalized === null) {
+        return { error: { field, code: 'invalid_format', message: `${field} must be ${spec.format}` } };
+      }
+      return { value: normalized };
+    }
+  }
+}
+
+// Numbers, or numeric strings as they come out of CSVs and spreadsheets ("2400", "$2,400.00")
+function coerceNumber(value: unknown): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const cleaned = value.trim().replace(/^\$/, '').replace(/,/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+
+  return Number(cleaned);
+}
@@ -0,0 +1,111 @@
+/**
+ * Structured Logging
+ * One JSON object per line, tagged with the current request id and scrubbed of secrets
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Types
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export type LogFields = Record<string, unknown>;
+
+// Carried through every async call made on behalf of one request (or background job)
+export interface LogContext {
+  request_id?: string;
+  job_id?: string;
+}
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+// Configuration
+const CONFIG = {
+  LEVEL: (LOG_LEVELS as readonly string[]).includes(process.env.LOG_LEVEL || '')
+    ? process.env.LOG_LEVEL as LogLevel
+    : 'info',
+  // LOG_LEVEL=silent turns logging off entirely (tests)
+  SILENT: process.env.LOG_LEVEL === 'silent',
+};
+
+const REDACTED = '[REDACTED]';
+
+// Field names whose values are never logged
+const SECRET_FIELD = /^(x[-_])?api[-_]?key$|authorization|password|secret|token|signature|webkey|^key$/i;
+
+// Secrets that turn up inside free text: issued API keys, FMCSA webKey query params, bearer tokens
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(lva_[a-f0-9]{12})_[A-Za-z0-9_-]+/g, `$1_${REDACTED}`],
+  [/(webKey=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, `$1${REDACTED}`],
+];
+
+const LEVEL_RANK: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+const context = new AsyncLocalStorage<LogContext>();
+
+// Run fn with the given context visible to every log line (and getLogContext) beneath it
+export function runWithLogContext<T>(ctx: LogContext, fn: () => T): T {
+  return context.run(ctx, fn);
+}
+
+export function getLogContext(): LogContext | undefined {
+  return context.getStore();
+}
+
+export function createLogger(bound: LogFields = {}): Logger {
+  const write = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+    if (CONFIG.SILENT || LEVEL_RANK[level] < LEVEL_RANK[CONFIG.LEVEL]) return;
+
+    const line = JSON.stringify(redact({
+      time: new Date().toISOString(),
+      level,
+      msg: message,
+      ...getLogContext(),
+      ...bound,
+      ...fields,
+    }));
+
+    (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(line + '\n');
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    child: fields => createLogger({ ...bound, ...fields }),
+  };
+}
+
+export const logger = createLogger();
+
+// Deep copy with secret fields masked, secret-looking substrings scrubbed and errors made serializable
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') {
+    return SECRET_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  }
+
+  if (value instanceof Error) {
+    return redact({ name: value.name, message: value.message, stack: value.stack }, depth);
+  }
+
+  if (!value || typeof value !== 'object' || depth > 8) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    SECRET_FIELD.test(key) && field !== undefined && field !== null ? REDACTED : redact(field, depth + 1),
+  ]));
+}
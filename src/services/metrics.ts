@@ -0,0 +1,166 @@
+/**
+ * Metrics
+ * In-process counters, gauges and histograms rendered in the Prometheus text exposition format
+ *
+ * FMCSA degradation shows up as a rising FMCSA_TIMEOUT / FMCSA_ERROR share of
+ * lva_verification_reasons_total next to lva_fmcsa_requests_total{outcome!="ok"} - e.g.
+ *   sum(rate(lva_fmcsa_requests_total{outcome=~"timeout|error"}[5m])) / sum(rate(lva_fmcsa_requests_total[5m]))
+ */
+
+// Types
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+  reset(): void;
+}
+
+// Configuration
+const PREFIX = 'lva_';
+
+// Seconds - checks are mostly sub-second, FMCSA-backed ones can run to the 15s timeout
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 15];
+const BATCH_SIZE_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Histogram implements Metric {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, private readonly help: string, private readonly buckets: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) || { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Gauge implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, private readonly help: string) {}
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value });
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} gauge`,
+      ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+    ];
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+}
+
+const registry: Metric[] = [];
+
+function counter(name: string, help: string): Counter {
+  const metric = new Counter(PREFIX + name, help);
+  registry.push(metric);
+  return metric;
+}
+
+function gauge(name: string, help: string): Gauge {
+  const metric = new Gauge(PREFIX + name, help);
+  registry.push(metric);
+  return metric;
+}
+
+function histogram(name: string, help: string, buckets: number[]): Histogram {
+  const metric = new Histogram(PREFIX + name, help, buckets);
+  registry.push(metric);
+  return metric;
+}
+
+export const metrics = {
+  verifications: counter('verifications_total', 'Verification decisions by status and evaluation mode'),
+  reasons: counter('verification_reasons_total', 'Findings reported on verification decisions by reason code and severity'),
+  checkDuration: histogram('check_duration_seconds', 'Verification check latency by check and outcome', LATENCY_BUCKETS),
+  fmcsaRequests: counter('fmcsa_requests_total', 'FMCSA carrier lookups by outcome (ok, not_found, timeout, error, circuit_open)'),
+  fmcsaDuration: histogram('fmcsa_request_duration_seconds', 'Upstream FMCSA carrier lookup latency', LATENCY_BUCKETS),
+  fmcsaCircuitOpen: gauge('fmcsa_circuit_open', '1 while the FMCSA circuit breaker is open and lookups fast-fail'),
+  fmcsaCache: counter('fmcsa_cache_lookups_total', 'FMCSA lookups by cache status (HIT, MISS, COALESCED, STALE)'),
+  batchSize: histogram('batch_size', 'Loads per batch request or job', BATCH_SIZE_BUCKETS),
+  httpRequests: counter('http_requests_total', 'HTTP requests by method, route and status code'),
+  httpDuration: histogram('http_request_duration_seconds', 'HTTP request latency by method and route', LATENCY_BUCKETS),
+};
+
+export function renderMetrics(): string {
+  return registry.map(metric => metric.render().join('\n')).join('\n\n') + '\n';
+}
+
+// Zero every series (tests)
+export function resetMetrics(): void {
+  registry.forEach(metric => metric.reset());
+}
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const escaped = entries.map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`);
+  return `{${escaped.join(',')}}`;
+}
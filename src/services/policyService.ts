@@ -0,0 +1,525 @@
+/**
+ * Verification Policy Service
+ * Named, per-tenant verification policies loaded from files or a policy API
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import yaml from 'js-yaml';
+import { isReasonCode, ReasonCode } from './reasonCodes';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'policies' });
+
+// Types
+export type CheckSeverity = 'reject' | 'review' | 'info';
+
+export interface CreditScorePolicy {
+  enabled: boolean;
+  min: number;
+  max: number;
+  severity: {
+    below_min: CheckSeverity;
+    above_max: CheckSeverity;
+  };
+}
+
+export interface FMCSAPolicy {
+  enabled: boolean;
+  severity: {
+    not_found: CheckSeverity;
+    not_authorized: CheckSeverity;
+    out_of_service: CheckSeverity;
+    unavailable: CheckSeverity;
+    stale: CheckSeverity;
+  };
+}
+
+export interface FreshnessPolicy {
+  enabled: boolean;
+  warning_minutes: number;
+  reject_minutes: number;
+  // posted_at up to this far ahead of the evaluation time is treated as clock skew (age 0)
+  future_tolerance_minutes: number;
+  severity: {
+    aging: CheckSeverity;
+    stale: CheckSeverity;
+    future: CheckSeverity;
+  };
+}
+
+export interface RateBenchmark {
+  low_rpm: number;
+  high_rpm: number;
+}
+
+export interface RatePolicy {
+  enabled: boolean;
+  // Road miles per straight-line mile when estimating lane distance
+  circuity_factor: number;
+  // Short lanes are priced as if they were at least this long
+  short_haul_miles: number;
+  // How far outside the benchmark band a rate must be to count as implausible
+  implausible_multiplier: number;
+  benchmarks: Record<string, RateBenchmark>;
+  severity: {
+    above_market: CheckSeverity;
+    below_market: CheckSeverity;
+    implausibly_high: CheckSeverity;
+    implausibly_low: CheckSeverity;
+    unknown_lane: CheckSeverity;
+  };
+}
+
+export interface BrokerIdentityPolicy {
+  enabled: boolean;
+  // Minimum 0-1 similarity between broker_name and the FMCSA legal/DBA name
+  match_threshold: number;
+  severity: {
+    mismatch: CheckSeverity;
+  };
+}
+
+export interface AuthorityPolicy {
+  enabled: boolean;
+  require_broker_authority: boolean;
+  // Authorities granted more recently than this are flagged
+  min_age_days: number;
+  require_bond: boolean;
+  severity: {
+    no_broker_authority: CheckSeverity;
+    new_authority: CheckSeverity;
+    no_bond: CheckSeverity;
+    unknown: CheckSeverity;
+  };
+}
+
+export interface DuplicatePolicy {
+  enabled: boolean;
+  // Postings of the same lane and equipment this close together (by posted_at) are compared
+  window_minutes: number;
+  // Rates within this fraction of each other count as the same rate band
+  rate_tolerance: number;
+  severity: {
+    double_brokered: CheckSeverity;
+    load_id_reused: CheckSeverity;
+  };
+}
+
+export interface BrokerDataPolicy {
+  enabled: boolean;
+  // A submitted credit_score further than this from the provider's score is flagged as possible tampering
+  max_credit_discrepancy: number;
+  max_days_to_pay: number;
+  max_complaints: number;
+  severity: {
+    credit_mismatch: CheckSeverity;
+    slow_pay: CheckSeverity;
+    complaints: CheckSeverity;
+    unavailable: CheckSeverity;
+  };
+}
+
+export interface ListsPolicy {
+  enabled: boolean;
+  // Findings an allowlist hit may waive - entries can narrow this set, never widen it
+  waivable: ReasonCode[];
+  severity: {
+    blocked: CheckSeverity;
+  };
+}
+
+export interface ScoringPolicy {
+  // Relative weight of each check's risk in the 0-100 score (checks without a weight don't contribute)
+  weights: Record<string, number>;
+  bands: {
+    review_at: number;
+    reject_at: number;
+  };
+}
+
+export interface VerificationPolicy {
+  id: string;
+  version: string;
+  description?: string;
+  checks: {
+    lists: ListsPolicy;
+    duplicates: DuplicatePolicy;
+    credit_score: CreditScorePolicy;
+    broker_data: BrokerDataPolicy;
+    fmcsa: FMCSAPolicy;
+    freshness: FreshnessPolicy;
+    rate: RatePolicy;
+    broker_identity: BrokerIdentityPolicy;
+    authority: AuthorityPolicy;
+  };
+  scoring: ScoringPolicy;
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+export class PolicyNotFoundError extends Error {
+  constructor(public readonly policyId: string) {
+    super(`Verification policy "${policyId}" not found`);
+    this.name = 'PolicyNotFoundError';
+  }
+}
+
+export class InvalidPolicyError extends Error {
+  constructor(public readonly policyId: string, public readonly problems: string[]) {
+    super(`Verification policy "${policyId}" is invalid: ${problems.join('; ')}`);
+    this.name = 'InvalidPolicyError';
+  }
+}
+
+// Built-in policy - mirrors the thresholds the service has always shipped with
+export const DEFAULT_POLICY: VerificationPolicy = {
+  id: 'default',
+  version: '1',
+  description: 'Built-in Pure Dispatch policy',
+  checks: {
+    lists: {
+      enabled: true,
+      waivable: ['CREDIT_ABOVE_MAX', 'AUTHORITY_TOO_NEW', 'BROKER_NAME_MISMATCH', 'RATE_ABOVE_MARKET', 'RATE_BELOW_MARKET'],
+      severity: { blocked: 'reject' },
+    },
+    duplicates: {
+      enabled: true,
+      window_minutes: 60,
+      rate_tolerance: 0.1,
+      severity: { double_brokered: 'review', load_id_reused: 'review' },
+    },
+    credit_score: {
+      enabled: true,
+      min: 82,
+      max: 97,
+      severity: { below_min: 'reject', above_max: 'review' },
+    },
+    broker_data: {
+      enabled: true,
+      max_credit_discrepancy: 15,
+      max_days_to_pay: 45,
+      max_complaints: 3,
+      severity: { credit_mismatch: 'review', slow_pay: 'review', complaints: 'review', unavailable: 'info' },
+    },
+    fmcsa: {
+      enabled: true,
+      severity: {
+        not_found: 'reject',
+        not_authorized: 'reject',
+        out_of_service: 'reject',
+        unavailable: 'review',
+        stale: 'info',
+      },
+    },
+    freshness: {
+      enabled: true,
+      warning_minutes: 30,
+      reject_minutes: 60,
+      future_tolerance_minutes: 5,
+      severity: { aging: 'review', stale: 'reject', future: 'review' },
+    },
+    rate: {
+      enabled: true,
+      circuity_factor: 1.2,
+      short_haul_miles: 150,
+      implausible_multiplier: 2,
+      benchmarks: {
+        'Dry Van': { low_rpm: 1.5, high_rpm: 3.75 },
+        'Reefer': { low_rpm: 1.75, high_rpm: 4.25 },
+        'Flatbed': { low_rpm: 2.0, high_rpm: 4.5 },
+        'Step Deck': { low_rpm: 2.25, high_rpm: 4.75 },
+        'Power Only': { low_rpm: 1.25, high_rpm: 3.25 },
+        'Hotshot': { low_rpm: 1.25, high_rpm: 3.5 },
+      },
+      severity: {
+        above_market: 'review',
+        below_market: 'review',
+        implausibly_high: 'reject',
+        implausibly_low: 'review',
+        unknown_lane: 'info',
+      },
+    },
+    broker_identity: {
+      enabled: true,
+      match_threshold: 0.85,
+      severity: { mismatch: 'review' },
+    },
+    authority: {
+      enabled: true,
+      require_broker_authority: true,
+      min_age_days: 180,
+      require_bond: true,
+      severity: {
+        no_broker_authority: 'reject',
+        new_authority: 'review',
+        no_bond: 'review',
+        unknown: 'info',
+      },
+    },
+  },
+  scoring: {
+    weights: {
+      credit_score: 35,
+      broker_data: 20,
+      fmcsa: 40,
+      freshness: 25,
+      rate: 20,
+      broker_identity: 20,
+      authority: 25,
+      duplicates: 20,
+    },
+    bands: {
+      review_at: 40,
+      reject_at: 75,
+    },
+  },
+};
+
+// Configuration
+const CONFIG = {
+  POLICY_DIR: process.env.POLICY_DIR || path.join(process.cwd(), 'policies'),
+  POLICY_API_URL: process.env.POLICY_API_URL,
+  POLICY_API_TIMEOUT_MS: 3000,
+  POLICY_CACHE_TTL_MS: parseInt(process.env.POLICY_CACHE_TTL_MS || '300000', 10),
+  DEFAULT_POLICY_ID: process.env.DEFAULT_POLICY_ID || DEFAULT_POLICY.id,
+};
+
+const SEVERITIES: CheckSeverity[] = ['reject', 'review', 'info'];
+
+let filePolicies: Map<string, VerificationPolicy> | null = null;
+const apiPolicyCache = new Map<string, { policy: VerificationPolicy; expiresAt: number }>();
+
+// Resolve a policy by id (or the configured default)
+export async function getPolicy(policyId?: string): Promise<VerificationPolicy> {
+  const id = policyId || CONFIG.DEFAULT_POLICY_ID;
+
+  const fromFile = loadFilePolicies().get(id);
+  if (fromFile) {
+    return fromFile;
+  }
+
+  if (CONFIG.POLICY_API_URL) {
+    const fromApi = await fetchApiPolicy(id);
+    if (fromApi) {
+      return fromApi;
+    }
+  }
+
+  if (id === DEFAULT_POLICY.id) {
+    return DEFAULT_POLICY;
+  }
+
+  throw new PolicyNotFoundError(id);
+}
+
+// List the ids and versions of every locally known policy
+export function listPolicies(): Array<{ id: string; version: string; description?: string }> {
+  const policies = new Map<string, VerificationPolicy>([[DEFAULT_POLICY.id, DEFAULT_POLICY]]);
+  loadFilePolicies().forEach((policy, id) => policies.set(id, policy));
+
+  return Array.from(policies.values()).map(({ id, version, description }) => ({ id, version, description }));
+}
+
+// Drop cached policies so the next lookup re-reads files and the policy API
+export function reloadPolicies(): void {
+  filePolicies = null;
+  apiPolicyCache.clear();
+}
+
+// Merge a partial policy document onto the built-in defaults and validate it
+export function buildPolicy(document: unknown, source: string): VerificationPolicy {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new InvalidPolicyError(source, ['policy document must be an object']);
+  }
+
+  const partial = document as DeepPartial<VerificationPolicy>;
+  const id = String(partial.id || source);
+
+  // Every policy must carry its own version so results can be traced back to it
+  if (partial.version === undefined || partial.version === '') {
+    throw new InvalidPolicyError(id, ['version is required']);
+  }
+
+  const policy = deepMerge(DEFAULT_POLICY, { ...partial, id }) as VerificationPolicy;
+  policy.version = String(policy.version);
+
+  const problems = validatePolicy(policy);
+  if (problems.length > 0) {
+    throw new InvalidPolicyError(id, problems);
+  }
+
+  return policy;
+}
+
+// Read a single policy file (JSON or YAML) - its id defaults to the file name
+export function loadPolicyFile(filePath: string): VerificationPolicy {
+  const ext = path.extname(filePath).toLowerCase();
+  const raw = fs.readFileSync(filePath, 'utf8');
+  const document = ext === '.json' ? JSON.parse(raw) : yaml.load(raw);
+  return buildPolicy(document, path.basename(filePath, ext));
+}
+
+// Policy file loading (JSON or YAML, one policy per file)
+function loadFilePolicies(): Map<string, VerificationPolicy> {
+  if (filePolicies) {
+    return filePolicies;
+  }
+
+  // Built aside and cached only once every file has loaded - a bad file must not leave a partial set behind
+  const policies = new Map<string, VerificationPolicy>();
+
+  if (fs.existsSync(CONFIG.POLICY_DIR)) {
+    for (const file of fs.readdirSync(CONFIG.POLICY_DIR).sort()) {
+      const ext = path.extname(file).toLowerCase();
+      if (!['.json', '.yaml', '.yml'].includes(ext)) continue;
+
+      const policy = loadPolicyFile(path.join(CONFIG.POLICY_DIR, file));
+
+      if (policies.has(policy.id)) {
+        throw new InvalidPolicyError(policy.id, [`duplicate policy id in ${file}`]);
+      }
+
+      policies.set(policy.id, policy);
+    }
+  }
+
+  filePolicies = policies;
+  return filePolicies;
+}
+
+// Remote policy API - GET {POLICY_API_URL}/{policy_id} returns a policy document
+async function fetchApiPolicy(id: string): Promise<VerificationPolicy | null> {
+  const cached = apiPolicyCache.get(id);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.policy;
+  }
+
+  try {
+    const response = await axios.get(`${CONFIG.POLICY_API_URL}/${encodeURIComponent(id)}`, {
+      timeout: CONFIG.POLICY_API_TIMEOUT_MS,
+      headers: { 'Accept': 'application/json' },
+    });
+
+    const policy = buildPolicy(response.data, id);
+    apiPolicyCache.set(id, { policy, expiresAt: Date.now() + CONFIG.POLICY_CACHE_TTL_MS });
+    return policy;
+
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return null;
+    }
+
+    // Keep serving the last known version if the policy API is unavailable
+    if (cached) {
+      log.warn('policy API error - using cached policy', { policy_id: id, error });
+      return cached.policy;
+    }
+
+    throw error;
+  }
+}
+
+function validatePolicy(policy: VerificationPolicy): string[] {
+  const problems: string[] = [];
+  const { lists, duplicates, credit_score, broker_data, fmcsa, freshness, rate, broker_identity, authority } = policy.checks;
+  const { weights, bands } = policy.scoring;
+
+  if (credit_score.min > credit_score.max) {
+    problems.push('checks.credit_score.min must not exceed checks.credit_score.max');
+  }
+
+  if (!(broker_data.max_credit_discrepancy >= 0 && broker_data.max_credit_discrepancy <= 100)) {
+    problems.push('checks.broker_data.max_credit_discrepancy must be between 0 and 100');
+  }
+
+  if (!(broker_data.max_days_to_pay >= 0) || !(broker_data.max_complaints >= 0)) {
+    problems.push('checks.broker_data.max_days_to_pay and max_complaints must be non-negative numbers');
+  }
+
+  if (freshness.warning_minutes > freshness.reject_minutes) {
+    problems.push('checks.freshness.warning_minutes must not exceed checks.freshness.reject_minutes');
+  }
+
+  if (!(freshness.future_tolerance_minutes >= 0)) {
+    problems.push('checks.freshness.future_tolerance_minutes must be a non-negative number');
+  }
+
+  for (const [equipment, benchmark] of Object.entries(rate.benchmarks)) {
+    if (!(benchmark.low_rpm > 0 && benchmark.low_rpm <= benchmark.high_rpm)) {
+      problems.push(`checks.rate.benchmarks.${equipment} must satisfy 0 < low_rpm <= high_rpm`);
+    }
+  }
+
+  if (rate.circuity_factor < 1 || rate.implausible_multiplier < 1) {
+    problems.push('checks.rate.circuity_factor and implausible_multiplier must be at least 1');
+  }
+
+  if (!(broker_identity.match_threshold >= 0 && broker_identity.match_threshold <= 1)) {
+    problems.push('checks.broker_identity.match_threshold must be between 0 and 1');
+  }
+
+  if (!Array.isArray(lists.waivable) || !lists.waivable.every(isReasonCode)) {
+    problems.push('checks.lists.waivable must be a list of reason codes');
+  }
+
+  if (!(duplicates.window_minutes > 0)) {
+    problems.push('checks.duplicates.window_minutes must be greater than 0');
+  }
+
+  if (!(duplicates.rate_tolerance >= 0 && duplicates.rate_tolerance <= 1)) {
+    problems.push('checks.duplicates.rate_tolerance must be between 0 and 1');
+  }
+
+  if (!(authority.min_age_days >= 0)) {
+    problems.push('checks.authority.min_age_days must be a non-negative number');
+  }
+
+  for (const [check, weight] of Object.entries(weights)) {
+    if (typeof weight !== 'number' || weight < 0) {
+      problems.push(`scoring.weights.${check} must be a non-negative number`);
+    }
+  }
+
+  if (!(bands.review_at >= 0 && bands.review_at <= bands.reject_at && bands.reject_at <= 100)) {
+    problems.push('scoring.bands must satisfy 0 <= review_at <= reject_at <= 100');
+  }
+
+  const severities: Array<[string, Record<string, CheckSeverity>]> = [
+    ['lists', lists.severity],
+    ['duplicates', duplicates.severity],
+    ['credit_score', credit_score.severity],
+    ['broker_data', broker_data.severity],
+    ['fmcsa', fmcsa.severity],
+    ['freshness', freshness.severity],
+    ['rate', rate.severity],
+    ['broker_identity', broker_identity.severity],
+    ['authority', authority.severity],
+  ];
+
+  for (const [check, map] of severities) {
+    for (const [key, value] of Object.entries(map)) {
+      if (!SEVERITIES.includes(value)) {
+        problems.push(`checks.${check}.severity.${key} must be one of ${SEVERITIES.join(', ')}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (override === undefined) return base;
+  if (!isPlainObject(base) || !isPlainObject(override)) return override;
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const key of Object.keys(override)) {
+    merged[key] = deepMerge(base[key], override[key]);
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
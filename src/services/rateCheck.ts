@@ -0,0 +1,104 @@
+/**
+ * Rate Reasonableness
+ * Offline lane distance estimates and rate-per-mile benchmarking
+ */
+
+import cityCoordinates from '../data/cityCoordinates.json';
+
+// Types
+export interface CityLocation {
+  city: string;
+  state: string;
+}
+
+export interface LaneEstimate {
+  origin: CityLocation;
+  destination: CityLocation;
+  miles: number;
+}
+
+// Configuration
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Common load board shorthands for each canonical equipment type
+const EQUIPMENT_ALIASES: Record<string, string> = {
+  'dry van': 'Dry Van',
+  'van': 'Dry Van',
+  'v': 'Dry Van',
+  'dv': 'Dry Van',
+  'reefer': 'Reefer',
+  'refrigerated': 'Reefer',
+  'r': 'Reefer',
+  'flatbed': 'Flatbed',
+  'flat': 'Flatbed',
+  'f': 'Flatbed',
+  'fb': 'Flatbed',
+  'step deck': 'Step Deck',
+  'stepdeck': 'Step Deck',
+  'sd': 'Step Deck',
+  'power only': 'Power Only',
+  'po': 'Power Only',
+  'hotshot': 'Hotshot',
+  'hot shot': 'Hotshot',
+  'hs': 'Hotshot',
+};
+
+const coordinates = new Map<string, [number, number]>(
+  Object.entries(cityCoordinates as Record<string, number[]>).map(([name, [lat, lon]]) => {
+    const location = parseCityState(name)!;
+    return [locationKey(location), [lat, lon]];
+  })
+);
+
+// "Chicago, IL", "Chicago IL 60601", "St. Louis, MO" -> { city, state }
+export function parseCityState(value: string): CityLocation | null {
+  if (!value) return null;
+
+  const match = value.trim().match(/^(.+?)[,\s]+([A-Za-z]{2})(?:\s+\d{5}(?:-\d{4})?)?$/);
+  if (!match) return null;
+
+  const city = match[1]
+    .replace(/\s+/g, ' ')
+    .replace(/^(st\.?|ste\.?)\s+/i, 'Saint ')
+    .trim();
+
+  return { city, state: match[2].toUpperCase() };
+}
+
+// Map a free-text equipment value onto its canonical type (null when unrecognized)
+export function canonicalEquipment(value: string): string | null {
+  if (!value) return null;
+  return EQUIPMENT_ALIASES[value.trim().toLowerCase().replace(/[-_]+/g, ' ')] || null;
+}
+
+// Estimated road miles between two "City, ST" strings using the bundled dataset
+export function estimateLane(pickup: string, delivery: string, circuityFactor: number): LaneEstimate | null {
+  const origin = parseCityState(pickup);
+  const destination = parseCityState(delivery);
+  if (!origin || !destination) return null;
+
+  const from = coordinates.get(locationKey(origin));
+  const to = coordinates.get(locationKey(destination));
+  if (!from || !to) return null;
+
+  return {
+    origin,
+    destination,
+    miles: Math.round(haversineMiles(from, to) * circuityFactor),
+  };
+}
+
+function haversineMiles([lat1, lon1]: [number, number], [lat2, lon2]: [number, number]): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+function locationKey(location: CityLocation): string {
+  return `${location.city.toLowerCase().replace(/[^a-z ]/g, '')}|${location.state}`;
+}
@@ -0,0 +1,410 @@
+/**
+ * Rate Limiting & Quotas
+ * Per-key token buckets plus daily/monthly quota counters, backed by a pluggable store
+ */
+
+import { logger } from './logger';
+
+const log = logger.child({ component: 'rate_limit' });
+
+// Types
+export interface RateLimits {
+  // Token bucket: burst size and steady refill
+  capacity: number;
+  refill_per_second: number;
+  // Units per UTC day / calendar month (0 disables)
+  daily_quota: number;
+  monthly_quota: number;
+}
+
+export type RateLimitOperation = 'verify' | 'verify:batch';
+
+export interface QuotaCounter {
+  key: string;
+  limit: number;
+  reset_at: number;
+}
+
+export interface QuotaUsage {
+  period: 'daily' | 'monthly';
+  limit: number;
+  used: number;
+  remaining: number;
+  reset_at: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  cost: number;
+  reason?: 'rate_limit' | 'daily_quota' | 'monthly_quota';
+  retry_after_seconds?: number;
+  limits: RateLimits;
+  tokens_remaining: number;
+  bucket_reset_seconds: number;
+  quotas: QuotaUsage[];
+}
+
+export interface RateLimitStore {
+  // Atomically refill the bucket and take `cost` tokens if available
+  takeTokens(key: string, cost: number, capacity: number, refillPerSecond: number, now: number): Promise<{ allowed: boolean; tokens: number }>;
+  // Atomically add `amount` to every counter, or to none if any would exceed its limit
+  consumeQuotas(counters: QuotaCounter[], amount: number): Promise<{ allowed: boolean; used: number[] }>;
+  readCounters(keys: string[]): Promise<number[]>;
+  // Give back a charge that shouldn't have been taken (refused or rejected requests)
+  returnTokens(key: string, amount: number, capacity: number): Promise<void>;
+  releaseQuotas(keys: string[], amount: number): Promise<void>;
+}
+
+// Configuration
+const CONFIG = {
+  ENABLED: process.env.RATE_LIMIT_ENABLED !== 'false',
+  BACKEND: process.env.RATE_LIMIT_BACKEND || 'memory',
+  REDIS_REST_URL: process.env.RATE_LIMIT_REDIS_REST_URL,
+  REDIS_REST_TOKEN: process.env.RATE_LIMIT_REDIS_REST_TOKEN,
+  // A store that hangs must fail (and so fail open) rather than stall every request
+  REDIS_REST_TIMEOUT_MS: parseNumber(process.env.RATE_LIMIT_REDIS_REST_TIMEOUT_MS, 500),
+  KEY_PREFIX: 'lva:ratelimit',
+  DEFAULT_LIMITS: {
+    capacity: parseNumber(process.env.RATE_LIMIT_CAPACITY, 60),
+    refill_per_second: parseNumber(process.env.RATE_LIMIT_REFILL_PER_SECOND, 1),
+    daily_quota: parseNumber(process.env.RATE_LIMIT_DAILY_QUOTA, 10000),
+    monthly_quota: parseNumber(process.env.RATE_LIMIT_MONTHLY_QUOTA, 200000),
+  } as RateLimits,
+  // Tokens charged per single verification / per load in a batch
+  WEIGHTS: {
+    'verify': parseNumber(process.env.RATE_LIMIT_VERIFY_WEIGHT, 1),
+    'verify:batch': parseNumber(process.env.RATE_LIMIT_BATCH_WEIGHT, 1),
+  } as Record<RateLimitOperation, number>,
+};
+
+// In-memory store - per instance only
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updated_at: number }>();
+  private counters = new Map<string, { used: number; reset_at: number }>();
+
+  async takeTokens(key: string, cost: number, capacity: number, refillPerSecond: number, now: number) {
+    const bucket = this.buckets.get(key) || { tokens: capacity, updated_at: now };
+    const elapsedSeconds = Math.max(0, now - bucket.updated_at) / 1000;
+    const tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+
+    const allowed = tokens >= cost;
+    const remaining = allowed ? tokens - cost : tokens;
+
+    this.buckets.set(key, { tokens: remaining, updated_at: now });
+    return { allowed, tokens: remaining };
+  }
+
+  async consumeQuotas(counters: QuotaCounter[], amount: number) {
+    const current = counters.map(counter => this.current(counter.key));
+
+    if (counters.some((counter, i) => current[i] + amount > counter.limit)) {
+      return { allowed: false, used: current };
+    }
+
+    counters.forEach((counter, i) => {
+      this.counters.set(counter.key, { used: current[i] + amount, reset_at: counter.reset_at });
+    });
+
+    return { allowed: true, used: current.map(used => used + amount) };
+  }
+
+  async readCounters(keys: string[]): Promise<number[]> {
+    return keys.map(key => this.current(key));
+  }
+
+  async returnTokens(key: string, amount: number, capacity: number): Promise<void> {
+    const bucket = this.buckets.get(key);
+    if (bucket) bucket.tokens = Math.min(capacity, bucket.tokens + amount);
+  }
+
+  async releaseQuotas(keys: string[], amount: number): Promise<void> {
+    for (const key of keys) {
+      const counter = this.counters.get(key);
+      if (counter) counter.used = Math.max(0, counter.used - amount);
+    }
+  }
+
+  private current(key: string): number {
+    const counter = this.counters.get(key);
+    if (!counter) return 0;
+
+    if (counter.reset_at <= Date.now()) {
+      this.counters.delete(key);
+      return 0;
+    }
+
+    return counter.used;
+  }
+}
+
+// Redis over its REST interface (e.g. Upstash) - shared by every serverless instance
+export class RedisRestRateLimitStore implements RateLimitStore {
+  private static readonly TAKE_TOKENS = `
+    local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+    local capacity, rate, now, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+    local tokens = tonumber(bucket[1]) or capacity
+    local ts = tonumber(bucket[2]) or now
+    tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * rate)
+    local allowed = 0
+    if tokens >= cost then
+      tokens = tokens - cost
+      allowed = 1
+    end
+    redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+    redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / math.max(rate, 0.001) * 1000) + 60000)
+    return { allowed, tostring(tokens) }
+  `;
+
+  private static readonly CONSUME_QUOTAS = `
+    local amount = tonumber(ARGV[1])
+    local used = {}
+    for i, key in ipairs(KEYS) do
+      used[i] = tonumber(redis.call('GET', key) or '0')
+    end
+    for i, key in ipairs(KEYS) do
+      if used[i] + amount > tonumber(ARGV[i * 2]) then
+        table.insert(used, 1, 0)
+        return used
+      end
+    end
+    for i, key in ipairs(KEYS) do
+      used[i] = redis.call('INCRBY', key, amount)
+      redis.call('PEXPIREAT', key, ARGV[i * 2 + 1])
+    end
+    table.insert(used, 1, 1)
+    return used
+  `;
+
+  private static readonly RETURN_TOKENS = `
+    local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+    if tokens then
+      redis.call('HSET', KEYS[1], 'tokens', tostring(math.min(tonumber(ARGV[1]), tokens + tonumber(ARGV[2]))))
+    end
+    return 1
+  `;
+
+  private static readonly RELEASE_QUOTAS = `
+    for i, key in ipairs(KEYS) do
+      local used = tonumber(redis.call('GET', key) or '0')
+      if used > 0 then
+        redis.call('SET', key, math.max(0, used - tonumber(ARGV[1])), 'KEEPTTL')
+      end
+    end
+    return 1
+  `;
+
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+    private readonly timeoutMs = CONFIG.REDIS_REST_TIMEOUT_MS
+  ) {}
+
+  async takeTokens(key: string, cost: number, capacity: number, refillPerSecond: number, now: number) {
+    const [allowed, tokens] = await this.command<[number, string]>([
+      'EVAL', RedisRestRateLimitStore.TAKE_TOKENS, 1, key, capacity, refillPerSecond, now, cost,
+    ]);
+    return { allowed: allowed === 1, tokens: Number(tokens) };
+  }
+
+  async consumeQuotas(counters: QuotaCounter[], amount: number) {
+    const [allowed, ...used] = await this.command<number[]>([
+      'EVAL', RedisRestRateLimitStore.CONSUME_QUOTAS, counters.length,
+      ...counters.map(counter => counter.key),
+      amount,
+      ...counters.flatMap(counter => [counter.limit, counter.reset_at]),
+    ]);
+    return { allowed: allowed === 1, used: used.map(Number) };
+  }
+
+  async readCounters(keys: string[]): Promise<number[]> {
+    if (keys.length === 0) return [];
+    const values = await this.command<Array<string | null>>(['MGET', ...keys]);
+    return values.map(value => Number(value || 0));
+  }
+
+  async returnTokens(key: string, amount: number, capacity: number): Promise<void> {
+    await this.command(['EVAL', RedisRestRateLimitStore.RETURN_TOKENS, 1, key, capacity, amount]);
+  }
+
+  async releaseQuotas(keys: string[], amount: number): Promise<void> {
+    if (keys.length === 0) return;
+    await this.command(['EVAL', RedisRestRateLimitStore.RELEASE_QUOTAS, keys.length, ...keys, amount]);
+  }
+
+  private async command<T>(args: Array<string | number>): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args.map(String)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const body = await response.json().catch(() => null) as { result?: T; error?: string } | null;
+
+    if (!response.ok || !body || body.error) {
+      throw new Error(`Rate limit store error: ${body?.error || response.status}`);
+    }
+
+    return body.result as T;
+  }
+}
+
+let store: RateLimitStore = createStore();
+
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export function isRateLimitEnabled(): boolean {
+  return CONFIG.ENABLED;
+}
+
+// Units a request costs: one weight per single verification, per load for batches
+export function requestCost(operation: RateLimitOperation, loadCount = 1): number {
+  return CONFIG.WEIGHTS[operation] * Math.max(1, loadCount);
+}
+
+// Effective limits for a key - per-key overrides on top of the configured defaults
+export function resolveLimits(overrides?: Partial<RateLimits> | null): RateLimits {
+  return { ...CONFIG.DEFAULT_LIMITS, ...(overrides || {}) };
+}
+
+// Charge a request against the key's bucket, then its quotas
+export async function consumeRateLimit(
+  keyId: string,
+  cost: number,
+  overrides?: Partial<RateLimits> | null,
+  now = Date.now()
+): Promise<RateLimitDecision> {
+  const limits = resolveLimits(overrides);
+  const counters = quotaCounters(keyId, limits, now);
+
+  // A batch larger than the whole bucket drains it rather than being refused forever
+  const bucketCost = Math.min(cost, limits.capacity);
+  const bucketKey = `${CONFIG.KEY_PREFIX}:bucket:${keyId}`;
+  const bucket = await store.takeTokens(bucketKey, bucketCost, limits.capacity, limits.refill_per_second, now);
+
+  const decision: RateLimitDecision = {
+    allowed: bucket.allowed,
+    cost,
+    limits,
+    tokens_remaining: Math.floor(bucket.tokens),
+    bucket_reset_seconds: secondsUntilTokens(limits.capacity - bucket.tokens, limits.refill_per_second),
+    quotas: [],
+  };
+
+  if (!bucket.allowed) {
+    const used = await store.readCounters(counters.map(c => c.counter.key));
+    decision.quotas = counters.map((c, i) => toUsage(c.period, c.counter, used[i]));
+    decision.reason = 'rate_limit';
+    decision.retry_after_seconds = Math.max(1, secondsUntilTokens(bucketCost - bucket.tokens, limits.refill_per_second));
+    return decision;
+  }
+
+  const quota = await store.consumeQuotas(counters.map(c => c.counter), cost);
+  decision.quotas = counters.map((c, i) => toUsage(c.period, c.counter, quota.used[i]));
+
+  if (!quota.allowed) {
+    // The quota refused the request, so the bucket shouldn't keep its tokens either
+    await store.returnTokens(bucketKey, bucketCost, limits.capacity);
+    decision.tokens_remaining = Math.floor(Math.min(limits.capacity, bucket.tokens + bucketCost));
+
+    const exhausted = counters.find((c, i) => quota.used[i] + cost > c.counter.limit)!;
+    decision.allowed = false;
+    decision.reason = exhausted.period === 'daily' ? 'daily_quota' : 'monthly_quota';
+    decision.retry_after_seconds = Math.max(1, Math.ceil((exhausted.counter.reset_at - now) / 1000));
+  }
+
+  return decision;
+}
+
+// Undo an allowed charge - for requests the route then rejected, which shouldn't count against the caller
+export async function refundRateLimit(
+  keyId: string,
+  cost: number,
+  overrides?: Partial<RateLimits> | null,
+  now = Date.now()
+): Promise<void> {
+  const limits = resolveLimits(overrides);
+  const counters = quotaCounters(keyId, limits, now);
+
+  await store.returnTokens(`${CONFIG.KEY_PREFIX}:bucket:${keyId}`, Math.min(cost, limits.capacity), limits.capacity);
+  await store.releaseQuotas(counters.map(c => c.counter.key), cost);
+}
+
+// Current quota usage for a key without charging anything
+export async function getQuotaUsage(keyId: string, overrides?: Partial<RateLimits> | null, now = Date.now()): Promise<QuotaUsage[]> {
+  const counters = quotaCounters(keyId, resolveLimits(overrides), now);
+  const used = await store.readCounters(counters.map(c => c.counter.key));
+  return counters.map((c, i) => toUsage(c.period, c.counter, used[i]));
+}
+
+function createStore(): RateLimitStore {
+  if (CONFIG.BACKEND === 'redis-rest') {
+    if (!CONFIG.REDIS_REST_URL || !CONFIG.REDIS_REST_TOKEN) {
+      log.warn('RATE_LIMIT_BACKEND=redis-rest but RATE_LIMIT_REDIS_REST_URL/TOKEN not set - using memory');
+      return new MemoryRateLimitStore();
+    }
+    return new RedisRestRateLimitStore(CONFIG.REDIS_REST_URL, CONFIG.REDIS_REST_TOKEN);
+  }
+
+  return new MemoryRateLimitStore();
+}
+
+// Counters are keyed by UTC period so they roll over without a reset job
+function quotaCounters(keyId: string, limits: RateLimits, now: number): Array<{ period: QuotaUsage['period']; counter: QuotaCounter }> {
+  const date = new Date(now);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const monthLabel = `${year}-${String(month + 1).padStart(2, '0')}`;
+
+  const counters: Array<{ period: QuotaUsage['period']; counter: QuotaCounter }> = [];
+
+  if (limits.daily_quota > 0) {
+    counters.push({
+      period: 'daily',
+      counter: {
+        key: `${CONFIG.KEY_PREFIX}:daily:${keyId}:${monthLabel}-${String(day).padStart(2, '0')}`,
+        limit: limits.daily_quota,
+        reset_at: Date.UTC(year, month, day + 1),
+      },
+    });
+  }
+
+  if (limits.monthly_quota > 0) {
+    counters.push({
+      period: 'monthly',
+      counter: {
+        key: `${CONFIG.KEY_PREFIX}:monthly:${keyId}:${monthLabel}`,
+        limit: limits.monthly_quota,
+        reset_at: Date.UTC(year, month + 1, 1),
+      },
+    });
+  }
+
+  return counters;
+}
+
+function toUsage(period: QuotaUsage['period'], counter: QuotaCounter, used: number): QuotaUsage {
+  return {
+    period,
+    limit: counter.limit,
+    used,
+    remaining: Math.max(0, counter.limit - used),
+    reset_at: new Date(counter.reset_at).toISOString(),
+  };
+}
+
+function secondsUntilTokens(missing: number, refillPerSecond: number): number {
+  if (missing <= 0) return 0;
+  return Math.ceil(missing / Math.max(refillPerSecond, 0.001));
+}
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
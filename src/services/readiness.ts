@@ -0,0 +1,82 @@
+/**
+ * Readiness
+ * Per-dependency status for /ready - storage must work to take traffic, FMCSA trouble only degrades decisions
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { checkFMCSAHealth, FMCSAHealth } from './fmcsaClient';
+import { describeAuditStorage } from './auditLog';
+import { describeDocumentStorage } from './documentStore';
+
+// Types
+export type DependencyStatus = 'ok' | 'degraded' | 'down' | 'not_configured';
+
+export interface StorageTarget {
+  name: string;
+  backend: string;
+  status: 'ok' | 'down';
+  error?: string;
+}
+
+export interface ReadinessReport {
+  // not_ready: storage is failing; degraded: verifications work but FMCSA-backed checks will be incomplete
+  status: 'ready' | 'degraded' | 'not_ready';
+  checked_at: string;
+  dependencies: {
+    fmcsa: FMCSAHealth & { status: DependencyStatus };
+    storage: { status: 'ok' | 'down'; targets: StorageTarget[] };
+  };
+}
+
+export async function checkReadiness(): Promise<ReadinessReport> {
+  const [fmcsa, targets] = await Promise.all([
+    checkFMCSAHealth(),
+    Promise.all([
+      checkStorage('audit_log', describeAuditStorage(), 'file'),
+      checkStorage('documents', describeDocumentStorage(), 'directory'),
+    ]),
+  ]);
+
+  const fmcsaStatus = fmcsaDependencyStatus(fmcsa);
+  const storageStatus = targets.every(target => target.status === 'ok') ? 'ok' : 'down';
+
+  return {
+    status: storageStatus === 'down' ? 'not_ready' : fmcsaStatus === 'ok' ? 'ready' : 'degraded',
+    checked_at: new Date().toISOString(),
+    dependencies: {
+      fmcsa: { status: fmcsaStatus, ...fmcsa },
+      storage: { status: storageStatus, targets },
+    },
+  };
+}
+
+function fmcsaDependencyStatus(health: FMCSAHealth): DependencyStatus {
+  if (!health.configured) return 'not_configured';
+  if (health.breaker.state === 'OPEN' || health.probe?.reachable === false) return 'down';
+  if (health.breaker.state === 'HALF_OPEN' || health.breaker.consecutive_failures > 0) return 'degraded';
+  return 'ok';
+}
+
+// File backends: write and remove a probe file where the data lives
+async function checkStorage(
+  name: string,
+  storage: { backend: string; path: string | null },
+  kind: 'file' | 'directory'
+): Promise<StorageTarget> {
+  if (!storage.path) {
+    return { name, backend: storage.backend, status: 'ok' };
+  }
+
+  const dir = kind === 'file' ? path.dirname(storage.path) : storage.path;
+  const probe = path.join(dir, `.ready-${name}-${process.pid}`);
+
+  try {
+    await fs.promises.mkdir(dir, { recursive: true });
+    await fs.promises.writeFile(probe, '');
+    await fs.promises.unlink(probe);
+    return { name, backend: storage.backend, status: 'ok' };
+  } catch (error) {
+    return { name, backend: storage.backend, status: 'down', error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Reason Codes
+ * Stable, machine-readable codes for every verification finding
+ */
+
+import type { CheckSeverity } from './policyService';
+import en from '../locales/en';
+import es from '../locales/es';
+
+// Types
+export const REASON_CODES = [
+  'CREDIT_BELOW_MIN',
+  'CREDIT_ABOVE_MAX',
+  'CREDIT_SCORE_MISMATCH',
+  'BROKER_SLOW_PAY',
+  'BROKER_COMPLAINTS',
+  'BROKER_DATA_UNAVAILABLE',
+  'FMCSA_NOT_CONFIGURED',
+  'FMCSA_TIMEOUT',
+  'FMCSA_ERROR',
+  'FMCSA_NOT_FOUND',
+  'FMCSA_NOT_AUTHORIZED',
+  'FMCSA_OUT_OF_SERVICE',
+  'FMCSA_STALE_RECORD',
+  'BROKER_NAME_MISMATCH',
+  'AUTHORITY_NOT_BROKER',
+  'AUTHORITY_TOO_NEW',
+  'AUTHORITY_UNKNOWN',
+  'AUTHORITY_AGE_UNKNOWN',
+  'BROKER_BOND_MISSING',
+  'LOAD_AGING',
+  'LOAD_STALE',
+  'LOAD_POSTED_IN_FUTURE',
+  'RATE_ABOVE_MARKET',
+  'RATE_BELOW_MARKET',
+  'RATE_IMPLAUSIBLY_HIGH',
+  'RATE_IMPLAUSIBLY_LOW',
+  'RATE_LANE_UNKNOWN',
+  'RATE_EQUIPMENT_UNKNOWN',
+  'LOAD_DOUBLE_BROKERED',
+  'LOAD_ID_REUSED',
+  'BROKER_BLOCKLISTED',
+  'BROKER_ALLOWLISTED',
+  'CHECK_TIMEOUT',
+  'CHECK_FAILED',
+  'SYSTEM_ERROR',
+] as const;
+
+export type ReasonCode = typeof REASON_CODES[number];
+
+export type ReasonParams = Record<string, string | number | boolean | null>;
+
+export interface VerificationReason {
+  code: ReasonCode;
+  severity: CheckSeverity;
+  check: string;
+  params: ReasonParams;
+  message: string;
+}
+
+export type MessageCatalog = Record<ReasonCode, string>;
+
+export const SUPPORTED_LOCALES = ['en', 'es'] as const;
+export type Locale = typeof SUPPORTED_LOCALES[number];
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, es };
+
+export function isReasonCode(value: unknown): value is ReasonCode {
+  return typeof value === 'string' && (REASON_CODES as readonly string[]).includes(value);
+}
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+// Build a reason with its message rendered in the requested locale
+export function buildReason(
+  check: string,
+  code: ReasonCode,
+  severity: CheckSeverity,
+  params: ReasonParams = {},
+  locale: Locale = 'en'
+): VerificationReason {
+  return {
+    code,
+    severity,
+    check,
+    params,
+    message: renderMessage(code, params, locale),
+  };
+}
+
+// Re-render an existing reason (e.g. a stored result) in another locale
+export function localizeReason(reason: VerificationReason, locale: Locale): VerificationReason {
+  return { ...reason, message: renderMessage(reason.code, reason.params, locale) };
+}
+
+// Fill {placeholders} in the locale's template; unknown placeholders are left as-is
+export function renderMessage(code: ReasonCode, params: ReasonParams, locale: Locale = 'en'): string {
+  const template = CATALOGS[locale][code] || CATALOGS.en[code] || code;
+
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    params[key] === undefined || params[key] === null ? match : String(params[key])
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * Review Queue
+ * NEEDS_REVIEW verifications become review items that a dispatcher claims and approves or rejects
+ */
+
+import { randomUUID } from 'crypto';
+import { createDocumentStore, DocumentStore } from './documentStore';
+import { getClock } from './clock';
+import type { AuditRecord } from './auditLog';
+import type { ReasonCode } from './reasonCodes';
+import type { VerificationStatus } from './verificationService';
+
+// Types
+export const REVIEW_STATUSES = ['OPEN', 'CLAIMED', 'APPROVED', 'REJECTED'] as const;
+export type ReviewStatus = typeof REVIEW_STATUSES[number];
+
+export type ReviewDecisionStatus = 'APPROVED' | 'REJECTED';
+
+export interface ReviewNote {
+  author: string;
+  text: string;
+  created_at: string;
+}
+
+// Who acts on an item: `id` (the caller's API key) decides who holds a claim, `name` is only a display label
+export interface Reviewer {
+  id: string;
+  name: string;
+}
+
+export interface ReviewDecision {
+  status: ReviewDecisionStatus;
+  justification: string;
+  decided_by: string;
+  decided_by_id: string;
+  decided_at: string;
+  within_sla: boolean;
+}
+
+export interface ReviewItem {
+  id: string;
+  verification_id: string;
+  load_id: string;
+  broker_mc: string;
+  broker_name: string;
+  // Client whose verification raised the item - non-admin reviewers only see their own
+  client_name: string | null;
+  status: ReviewStatus;
+  // Reason codes that sent the load to review
+  reasons: ReasonCode[];
+  risk_score: number | null;
+  assignee: string | null;
+  assignee_id: string | null;
+  claimed_at: string | null;
+  sla_due_at: string;
+  notes: ReviewNote[];
+  decision: ReviewDecision | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewQuery {
+  client_name?: string;
+  status?: ReviewStatus;
+  assignee?: string;
+  overdue?: boolean;
+}
+
+export class ReviewNotFoundError extends Error {
+  constructor(public readonly reviewId: string) {
+    super(`Review item ${reviewId} not found`);
+    this.name = 'ReviewNotFoundError';
+  }
+}
+
+// The action isn't allowed in the item's current state (already decided, claimed by someone else)
+export class ReviewConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewConflictError';
+  }
+}
+
+export class InvalidReviewActionError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid review action: ${problems.join('; ')}`);
+    this.name = 'InvalidReviewActionError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  SLA_MINUTES: parseInt(process.env.REVIEW_SLA_MINUTES || '240'),
+};
+
+let store: DocumentStore<ReviewItem> = createDocumentStore<ReviewItem>('review-queue');
+
+// Pending write per item - state changes on one item run one after another, so two reviewers can't both
+// pass the state check and race to save (per instance, like the job result file queue)
+const itemWrites = new Map<string, Promise<unknown>>();
+
+export function setReviewStore(next: DocumentStore<ReviewItem>): void {
+  store = next;
+}
+
+// Open a review item for a recorded NEEDS_REVIEW decision (anything else is ignored)
+export async function enqueueForReview(record: AuditRecord): Promise<ReviewItem | null> {
+  if (record.verification_status !== 'NEEDS_REVIEW') return null;
+
+  const now = getClock().now();
+  const item: ReviewItem = {
+    id: randomUUID(),
+    verification_id: record.verification_id,
+    load_id: record.load_id,
+    broker_mc: record.broker_mc,
+    broker_name: record.input.broker_name,
+    client_name: record.caller?.client_name || null,
+    status: 'OPEN',
+    reasons: Array.from(new Set(
+      record.result.reasons.filter(reason => reason.severity === 'review').map(reason => reason.code)
+    )),
+    risk_score: record.result.risk_score ?? null,
+    assignee: null,
+    assignee_id: null,
+    claimed_at: null,
+    sla_due_at: new Date(now + CONFIG.SLA_MINUTES * 60 * 1000).toISOString(),
+    notes: [],
+    decision: null,
+    created_at: new Date(now).toISOString(),
+    updated_at: new Date(now).toISOString(),
+  };
+
+  await store.put(item.id, item);
+  return item;
+}
+
+export async function getReviewItem(id: string): Promise<ReviewItem | null> {
+  return store.get(id);
+}
+
+// Oldest deadline first, so the queue reads as a work list
+export async function listReviewItems(query: ReviewQuery = {}): Promise<ReviewItem[]> {
+  const now = getClock().now();
+  const items = await store.list();
+
+  return items
+    .filter(item => !query.client_name || item.client_name === query.client_name)
+    .filter(item => !query.status || item.status === query.status)
+    .filter(item => !query.assignee || item.assignee === query.assignee)
+    .filter(item => query.overdue === undefined || isOverdue(item, now) === query.overdue)
+    .sort((a, b) => a.sla_due_at.localeCompare(b.sla_due_at));
+}
+
+// Review items keyed by verification id, for attaching the human decision to audit records
+export async function reviewsForVerifications(verificationIds: string[]): Promise<Map<string, ReviewItem>> {
+  const wanted = new Set(verificationIds);
+  const items = await store.list();
+
+  return new Map(items.filter(item => wanted.has(item.verification_id)).map(item => [item.verification_id, item]));
+}
+
+// The verdict the load board should show: the reviewer's decision once there is one
+export function resolvedStatus(status: VerificationStatus, review: ReviewItem | undefined): VerificationStatus {
+  return review?.decision?.status || status;
+}
+
+// Take an open item (or re-take one you already hold)
+export async function claimReviewItem(id: string, reviewer: Reviewer): Promise<ReviewItem> {
+  requireReviewer(reviewer);
+
+  return serialized(id, async () => {
+    const item = await undecidedItem(id);
+    if (item.status === 'CLAIMED' && item.assignee_id !== reviewer.id) {
+      throw new ReviewConflictError(`Review item ${id} is already claimed by ${item.assignee}`);
+    }
+
+    const now = new Date(getClock().now()).toISOString();
+    return save({
+      ...item,
+      status: 'CLAIMED',
+      assignee: reviewer.name.trim(),
+      assignee_id: reviewer.id,
+      claimed_at: item.claimed_at && item.assignee_id === reviewer.id ? item.claimed_at : now,
+      updated_at: now,
+    });
+  });
+}
+
+// Put a claimed item back in the queue
+export async function releaseReviewItem(id: string, reviewer: Reviewer): Promise<ReviewItem> {
+  requireReviewer(reviewer);
+
+  return serialized(id, async () => {
+    const item = await undecidedItem(id);
+    if (item.status !== 'CLAIMED' || item.assignee_id !== reviewer.id) {
+      throw new ReviewConflictError(`Review item ${id} is not claimed by ${reviewer.name}`);
+    }
+
+    return save({
+      ...item,
+      status: 'OPEN',
+      assignee: null,
+      assignee_id: null,
+      claimed_at: null,
+      updated_at: new Date(getClock().now()).toISOString(),
+    });
+  });
+}
+
+export async function addReviewNote(id: string, author: string, text: string): Promise<ReviewItem> {
+  requireText({ author, text });
+
+  return serialized(id, async () => {
+    const item = await store.get(id);
+    if (!item) throw new ReviewNotFoundError(id);
+
+    const now = new Date(getClock().now()).toISOString();
+    return save({
+      ...item,
+      notes: [...item.notes, { author: author.trim(), text: text.trim(), created_at: now }],
+      updated_at: now,
+    });
+  });
+}
+
+// Final human decision - an open item is claimed implicitly, someone else's claim is a conflict
+export async function decideReviewItem(
+  id: string,
+  reviewer: Reviewer,
+  status: ReviewDecisionStatus,
+  justification: string
+): Promise<ReviewItem> {
+  requireReviewer(reviewer);
+  requireText({ justification });
+
+  return serialized(id, async () => {
+    const item = await undecidedItem(id);
+    if (item.status === 'CLAIMED' && item.assignee_id !== reviewer.id) {
+      throw new ReviewConflictError(`Review item ${id} is claimed by ${item.assignee}`);
+    }
+
+    const now = getClock().now();
+    const decidedAt = new Date(now).toISOString();
+    const name = reviewer.name.trim();
+
+    return save({
+      ...item,
+      status,
+      assignee: name,
+      assignee_id: reviewer.id,
+      claimed_at: item.claimed_at || decidedAt,
+      decision: {
+        status,
+        justification: justification.trim(),
+        decided_by: name,
+        decided_by_id: reviewer.id,
+        decided_at: decidedAt,
+        within_sla: now <= Date.parse(item.sla_due_at),
+      },
+      updated_at: decidedAt,
+    });
+  });
+}
+
+export function isOverdue(item: ReviewItem, now = getClock().now()): boolean {
+  return !item.decision && Date.parse(item.sla_due_at) < now;
+}
+
+async function undecidedItem(id: string): Promise<ReviewItem> {
+  const item = await store.get(id);
+  if (!item) throw new ReviewNotFoundError(id);
+
+  if (item.decision) {
+    throw new ReviewConflictError(`Review item ${id} was already ${item.decision.status.toLowerCase()} by ${item.decision.decided_by}`);
+  }
+
+  return item;
+}
+
+function requireReviewer(reviewer: Reviewer): void {
+  requireText({ reviewer: reviewer.name, reviewer_id: reviewer.id });
+}
+
+function requireText(fields: Record<string, unknown>): void {
+  const problems = Object.entries(fields)
+    .filter(([, value]) => typeof value !== 'string' || !value.trim())
+    .map(([name]) => `${name} is required`);
+
+  if (problems.length > 0) throw new InvalidReviewActionError(problems);
+}
+
+// Run `action` once every earlier write to the same item has settled
+function serialized<T>(id: string, action: () => Promise<T>): Promise<T> {
+  const run = (itemWrites.get(id) || Promise.resolve()).then(action);
+  const settled = run.catch(() => undefined);
+
+  itemWrites.set(id, settled);
+  settled.then(() => {
+    if (itemWrites.get(id) === settled) itemWrites.delete(id);
+  });
+
+  return run;
+}
+
+async function save(item: ReviewItem): Promise<ReviewItem> {
+  await store.put(item.id, item);
+  return item;
+}
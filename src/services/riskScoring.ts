@@ -0,0 +1,66 @@
+/**
+ * Risk Scoring
+ * Weighted 0-100 risk score built from individual check results
+ */
+
+import type { ScoringPolicy } from './policyService';
+import type { VerificationStatus } from './verificationService';
+
+// Types
+export interface CheckRisk {
+  check: string;
+  risk: number; // 0 (no risk) - 1 (maximum risk)
+}
+
+export interface ScoreComponent {
+  check: string;
+  weight: number;
+  risk: number;
+  contribution: number;
+}
+
+export interface RiskAssessment {
+  score: number;
+  band: VerificationStatus;
+  breakdown: ScoreComponent[];
+}
+
+// Combine per-check risks into a single score, normalized over the checks that ran
+export function assessRisk(risks: CheckRisk[], scoring: ScoringPolicy): RiskAssessment {
+  const weighted = risks.map(({ check, risk }) => ({
+    check,
+    weight: scoring.weights[check] ?? 0,
+    risk: clamp(risk),
+  }));
+
+  const totalWeight = weighted.reduce((sum, c) => sum + c.weight, 0);
+
+  const breakdown: ScoreComponent[] = weighted.map(c => ({
+    ...c,
+    risk: round(c.risk, 2),
+    contribution: totalWeight > 0 ? round((c.weight * c.risk * 100) / totalWeight, 1) : 0,
+  }));
+
+  const score = Math.round(breakdown.reduce((sum, c) => sum + c.contribution, 0));
+
+  return {
+    score,
+    band: scoreBand(score, scoring),
+    breakdown,
+  };
+}
+
+export function scoreBand(score: number, scoring: ScoringPolicy): VerificationStatus {
+  if (score >= scoring.bands.reject_at) return 'REJECTED';
+  if (score >= scoring.bands.review_at) return 'NEEDS_REVIEW';
+  return 'APPROVED';
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,332 @@
+/**
+ * Policy Simulation
+ * Replays historical loads under a baseline and a candidate policy and reports what would change
+ */
+
+import { verifyLoad, EvaluationMode, LoadVerificationInput, PolicyReference, VerificationResult, VerificationStatus } from './verificationService';
+import { VerificationPolicy } from './policyService';
+import { queryVerifications, AuditQuery, AuditRecord, CallerIdentity } from './auditLog';
+import { FMCSACarrier, FMCSALookup, FMCSAUnavailableError } from './fmcsaClient';
+import { BrokerDataUnavailableError, BrokerProfile } from './brokerData';
+import { MemoryRecentLoadIndex } from './duplicateDetection';
+import { describeErrors, parseLoadInput } from './loadValidation';
+import { summarize, BatchSummary } from './batchJobs';
+import { BrokerDataSource, CarrierSource, CheckSources } from './checkPipeline';
+import { ReasonCode } from './reasonCodes';
+import { getClock } from './clock';
+
+// Types
+
+// FMCSA records as they were when the loads were verified, keyed by MC (null = not found)
+export type CarrierSnapshot = Record<string, FMCSACarrier | null>;
+
+// Broker data profiles as they were when the loads were verified, keyed by MC (null = no record).
+// Empty = no broker data source was configured, so the broker_data check stays off.
+export type BrokerProfileSnapshot = Record<string, BrokerProfile | null>;
+
+// A historical load - evaluated_at is when it was originally seen (defaults to now), caller who submitted it
+// (audit replays only - duplicate detection scopes load_ids to the caller's client)
+export type HistoricalLoad = LoadVerificationInput & { evaluated_at?: string; caller?: CallerIdentity | null };
+
+export interface SimulationInput {
+  loads: Record<string, unknown>[];
+  baseline: VerificationPolicy;
+  candidate: VerificationPolicy;
+  // Recorded FMCSA inputs; omitted = live (cached) lookups
+  carriers?: CarrierSnapshot;
+  // Recorded broker data profiles; omitted = the configured provider
+  broker_profiles?: BrokerProfileSnapshot;
+  mode?: EvaluationMode;
+  // The loads are a capped sample - more matched than were supplied
+  truncated?: boolean;
+}
+
+export interface SimulatedOutcome {
+  status: VerificationStatus;
+  risk_score: number | null;
+  reasons: ReasonCode[];
+}
+
+export interface VerdictChange {
+  index: number;
+  load_id: string;
+  from: VerificationStatus;
+  to: VerificationStatus;
+  added_reasons: ReasonCode[];
+  removed_reasons: ReasonCode[];
+  baseline_risk_score: number | null;
+  candidate_risk_score: number | null;
+}
+
+export interface SimulationReport {
+  baseline: PolicyReference;
+  candidate: PolicyReference;
+  mode: EvaluationMode;
+  fmcsa_source: 'recorded' | 'live';
+  broker_data_source: 'recorded' | 'live';
+  evaluated: number;
+  // More loads matched the audit query than SIMULATION_MAX_LOADS (or the requested limit) let through
+  truncated: boolean;
+  skipped: Array<{ index: number; load_id: string | null; error: string }>;
+  status_counts: { baseline: BatchSummary; candidate: BatchSummary };
+  // Every (from, to) pair that occurred, unchanged verdicts included
+  transitions: Array<{ from: VerificationStatus; to: VerificationStatus; count: number }>;
+  reason_counts: Array<{ code: ReasonCode; baseline: number; candidate: number; delta: number }>;
+  changed: VerdictChange[];
+  // MCs the recorded inputs had no entry for - those loads saw a source error in both runs
+  missing_inputs: { fmcsa: string[]; broker_data: string[] };
+  generated_at: string;
+}
+
+export class SimulationInputError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid simulation input: ${problems.join('; ')}`);
+    this.name = 'SimulationInputError';
+  }
+}
+
+// Configuration
+const CONFIG = {
+  MAX_LOADS: parseInt(process.env.SIMULATION_MAX_LOADS || '5000'),
+};
+
+const STATUSES: VerificationStatus[] = ['APPROVED', 'NEEDS_REVIEW', 'REJECTED'];
+
+// Run every load under both policies against identical inputs, so any difference comes from the policy
+export async function runSimulation(input: SimulationInput): Promise<SimulationReport> {
+  if (input.loads.length > CONFIG.MAX_LOADS) {
+    throw new SimulationInputError([`at most ${CONFIG.MAX_LOADS} loads per simulation`]);
+  }
+
+  const mode = input.mode || 'exhaustive';
+  const skipped: SimulationReport['skipped'] = [];
+  const loads: Array<{ index: number; load: HistoricalLoad }> = [];
+
+  input.loads.forEach((row, index) => {
+    const parsed = parseLoadInput(row);
+    const evaluatedAtInvalid = row.evaluated_at !== undefined && isNaN(Date.parse(String(row.evaluated_at)));
+
+    if (!parsed.ok || evaluatedAtInvalid) {
+      const problems = [
+        ...(parsed.ok ? [] : [describeErrors(parsed.errors)]),
+        ...(evaluatedAtInvalid ? ['evaluated_at must be valid ISO 8601 timestamp'] : []),
+      ];
+      skipped.push({ index, load_id: row.load_id ? String(row.load_id) : null, error: problems.join('; ') });
+    } else {
+      loads.push({
+        index,
+        load: {
+          ...parsed.load,
+          ...(row.evaluated_at !== undefined && { evaluated_at: String(row.evaluated_at) }),
+          ...(isCaller(row.caller) && { caller: row.caller }),
+        },
+      });
+    }
+  });
+
+  // Chronological, so duplicate detection sees the loads in the order they arrived
+  loads.sort((a, b) => seenAt(a.load) - seenAt(b.load) || a.index - b.index);
+
+  const missing: Missing = { fmcsa: new Set(), broker_data: new Set() };
+  const baseline = await replay(loads, input.baseline, mode, input, missing);
+  const candidate = await replay(loads, input.candidate, mode, input, missing);
+
+  const transitions = new Map<string, number>();
+  const reasonCounts = new Map<ReasonCode, { baseline: number; candidate: number }>();
+  const changed: VerdictChange[] = [];
+
+  loads.forEach(({ index, load }, i) => {
+    const before = baseline[i];
+    const after = candidate[i];
+
+    const key = `${before.status}>${after.status}`;
+    transitions.set(key, (transitions.get(key) || 0) + 1);
+
+    countReasons(reasonCounts, before.reasons, 'baseline');
+    countReasons(reasonCounts, after.reasons, 'candidate');
+
+    if (before.status !== after.status) {
+      changed.push({
+        index,
+        load_id: load.load_id,
+        from: before.status,
+        to: after.status,
+        added_reasons: after.reasons.filter(code => !before.reasons.includes(code)),
+        removed_reasons: before.reasons.filter(code => !after.reasons.includes(code)),
+        baseline_risk_score: before.risk_score,
+        candidate_risk_score: after.risk_score,
+      });
+    }
+  });
+
+  return {
+    baseline: { id: input.baseline.id, version: input.baseline.version },
+    candidate: { id: input.candidate.id, version: input.candidate.version },
+    mode,
+    fmcsa_source: input.carriers ? 'recorded' : 'live',
+    broker_data_source: input.broker_profiles ? 'recorded' : 'live',
+    evaluated: loads.length,
+    truncated: !!input.truncated,
+    skipped,
+    status_counts: {
+      baseline: summarize(baseline.map(outcome => outcome.status)),
+      candidate: summarize(candidate.map(outcome => outcome.status)),
+    },
+    transitions: STATUSES.flatMap(from => STATUSES.map(to => ({ from, to, count: transitions.get(`${from}>${to}`) || 0 })))
+      .filter(transition => transition.count > 0),
+    reason_counts: Array.from(reasonCounts.entries())
+      .map(([code, counts]) => ({ code, ...counts, delta: counts.candidate - counts.baseline }))
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || a.code.localeCompare(b.code)),
+    changed: changed.sort((a, b) => a.index - b.index),
+    missing_inputs: { fmcsa: Array.from(missing.fmcsa).sort(), broker_data: Array.from(missing.broker_data).sort() },
+    generated_at: new Date(getClock().now()).toISOString(),
+  };
+}
+
+// Past verifications from the audit log, with the FMCSA records and broker data profiles they were decided
+// on. The audit store pages results, so this walks the pages until the limit is reached or the query runs out.
+export async function loadsFromAudit(query: AuditQuery): Promise<{
+  loads: HistoricalLoad[];
+  carriers: CarrierSnapshot;
+  broker_profiles: BrokerProfileSnapshot;
+  truncated: boolean;
+}> {
+  const limit = Math.min(query.limit || CONFIG.MAX_LOADS, CONFIG.MAX_LOADS);
+  const records = new Map<string, AuditRecord>();
+  let offset = 0;
+  let total = 0;
+
+  while (records.size < limit) {
+    const page = await queryVerifications({ ...query, limit: limit - records.size, offset });
+    total = page.total;
+    offset += page.records.length;
+
+    // A verification written mid-walk shifts the newest-first pages by one - skip the repeat
+    page.records.forEach(record => records.set(record.verification_id, record));
+    if (page.records.length === 0 || offset >= total) break;
+  }
+
+  const carriers: CarrierSnapshot = {};
+  const brokerProfiles: BrokerProfileSnapshot = {};
+
+  const loads = Array.from(records.values()).map(record => {
+    const fmcsa = record.checks.find(check => check.check === 'fmcsa');
+    const status = fmcsa?.metadata.fmcsa_status;
+
+    if (status === 'NOT_FOUND') {
+      carriers[record.broker_mc] = null;
+    } else if (fmcsa?.metadata.carrier_info) {
+      carriers[record.broker_mc] = fmcsa.metadata.carrier_info as FMCSACarrier;
+    }
+
+    const brokerData = record.checks.find(check => check.check === 'broker_data')?.metadata.broker_data_check as
+      { status: string; profile?: BrokerProfile } | undefined;
+
+    if (brokerData?.status === 'NO_RECORD') {
+      brokerProfiles[record.broker_mc] = null;
+    } else if (brokerData?.profile) {
+      brokerProfiles[record.broker_mc] = brokerData.profile;
+    }
+
+    return { ...record.input, evaluated_at: record.options.evaluated_at || record.created_at, caller: record.caller };
+  });
+
+  return { loads, carriers, broker_profiles: brokerProfiles, truncated: total > loads.length };
+}
+
+// MCs each recorded source was asked about but had no entry for
+interface Missing {
+  fmcsa: Set<string>;
+  broker_data: Set<string>;
+}
+
+async function replay(
+  loads: Array<{ load: HistoricalLoad }>,
+  policy: VerificationPolicy,
+  mode: EvaluationMode,
+  recorded: Pick<SimulationInput, 'carriers' | 'broker_profiles'>,
+  missing: Missing
+): Promise<SimulatedOutcome[]> {
+  // Each run gets its own index so the runs can't see each other's (or live) loads
+  const sources: Partial<CheckSources> = {
+    recent_loads: new MemoryRecentLoadIndex(),
+    ...(recorded.carriers && { fmcsa: recordedCarriers(recorded.carriers, missing.fmcsa) }),
+    ...(recorded.broker_profiles && { broker_data: recordedBrokerProfiles(recorded.broker_profiles, missing.broker_data) }),
+  };
+
+  const outcomes: SimulatedOutcome[] = [];
+
+  for (const { load } of loads) {
+    const { evaluated_at, caller, ...input } = load;
+    const result: VerificationResult = await verifyLoad(input, {
+      policy,
+      mode,
+      evaluated_at,
+      caller,
+      sources,
+      dry_run: true,
+    });
+
+    outcomes.push({
+      status: result.verification_status,
+      risk_score: result.risk_score ?? null,
+      reasons: Array.from(new Set(result.reasons.map(reason => reason.code))),
+    });
+  }
+
+  return outcomes;
+}
+
+function recordedCarriers(carriers: CarrierSnapshot, missing: Set<string>): CarrierSource {
+  return {
+    isConfigured: () => true,
+    lookup: async (mcNumber: string): Promise<FMCSALookup> => {
+      if (!(mcNumber in carriers)) {
+        missing.add(mcNumber);
+        throw new FMCSAUnavailableError('ERROR', `no recorded FMCSA data for MC ${mcNumber}`);
+      }
+
+      const carrier = carriers[mcNumber];
+      return {
+        found: !!carrier,
+        carrier: carrier || undefined,
+        cache: { status: 'HIT', fetched_at: new Date(getClock().now()).toISOString(), age_seconds: 0 },
+      };
+    },
+  };
+}
+
+function recordedBrokerProfiles(profiles: BrokerProfileSnapshot, missing: Set<string>): BrokerDataSource {
+  return {
+    isConfigured: () => Object.keys(profiles).length > 0,
+    lookup: async (mcNumber: string): Promise<BrokerProfile | null> => {
+      if (!(mcNumber in profiles)) {
+        missing.add(mcNumber);
+        throw new BrokerDataUnavailableError('recorded', `no recorded broker data for MC ${mcNumber}`);
+      }
+
+      const profile = profiles[mcNumber];
+      return profile ? { ...profile } : null;
+    },
+  };
+}
+
+function isCaller(value: unknown): value is CallerIdentity {
+  return !!value && typeof value === 'object' && typeof (value as CallerIdentity).key_id === 'string';
+}
+
+function seenAt(load: HistoricalLoad): number {
+  return Date.parse(load.evaluated_at || load.posted_at);
+}
+
+function countReasons(
+  counts: Map<ReasonCode, { baseline: number; candidate: number }>,
+  codes: ReasonCode[],
+  run: 'baseline' | 'candidate'
+): void {
+  for (const code of codes) {
+    const entry = counts.get(code) || { baseline: 0, candidate: 0 };
+    entry[run]++;
+    counts.set(code, entry);
+  }
+}
@@ -3,7 +3,24 @@
  * Core verification logic for Pure Dispatch
  */
 
-import axios from 'axios';
+import { randomUUID } from 'crypto';
+import { getPolicy, VerificationPolicy } from './policyService';
+import { buildReason, Locale, ReasonCode, VerificationReason } from './reasonCodes';
+import { assessRisk, CheckRisk, RiskAssessment, ScoreComponent } from './riskScoring';
+import { recordVerification, AuditRecord, CallerIdentity, CheckRecord } from './auditLog';
+import { enqueueForReview } from './reviewQueue';
+import { runChecks, CheckFinding, CheckSources } from './checkPipeline';
+import { lookupCarrier, isFMCSAConfigured, FMCSACarrier, FMCSALookup } from './fmcsaClient';
+import { isBrokerDataConfigured, lookupBrokerProfile, BrokerProfile } from './brokerData';
+import type { NameMatch } from './brokerIdentity';
+import type { ListMatch } from './brokerLists';
+import { getRecentLoadIndex } from './duplicateDetection';
+import { getClock } from './clock';
+import { checkRegistry } from '../checks';
+import { getLogContext, logger } from './logger';
+import { metrics } from './metrics';
+
+const log = logger.child({ component: 'verify' });
 
 // Types
 export interface LoadVerificationInput {
@@ -16,279 +33,283 @@ export interface LoadVerificationInput {
   delivery_city: string;
   rate: number;
   equipment: string;
+  // Optional contact details, matched against the internal block/allow lists
+  broker_phone?: string;
+  broker_email?: string;
 }
 
+export type EvaluationMode = 'fast' | 'exhaustive';
+
+export interface VerifyOptions {
+  policy_id?: string;
+  locale?: Locale;
+  // fast: stop at the first rejecting check; exhaustive: run every check concurrently
+  mode?: EvaluationMode;
+  // Recorded in the audit log alongside the decision; its client_name scopes load_id reuse detection
+  caller?: CallerIdentity | null;
+  // Judge the load as of this instant (ISO 8601) instead of now - for replaying historical decisions
+  evaluated_at?: string;
+  // An already resolved policy, used instead of looking up policy_id - batch jobs pin the version they were
+  // submitted under, simulations pass unsaved candidates
+  policy?: VerificationPolicy;
+  // Simulation: evaluate against recorded inputs and keep the result out of the audit log
+  sources?: Partial<CheckSources>;
+  dry_run?: boolean;
+}
+
+export type VerificationStatus = 'APPROVED' | 'REJECTED' | 'NEEDS_REVIEW';
+
 export interface VerificationResult {
-  verification_status: 'APPROVED' | 'REJECTED' | 'NEEDS_REVIEW';
-  reasons: string[];
+  verification_id?: string;
+  verification_status: VerificationStatus;
+  reasons: VerificationReason[];
   verified_at: string;
-  metadata?: any;
+  risk_score?: number;
+  risk_breakdown?: ScoreComponent[];
+  policy?: PolicyReference;
+  metadata?: VerificationMetadata;
 }
 
-interface FMCSACarrier {
-  mc_number: string;
-  legal_name: string;
-  status: string;
-  allowed_to_operate: boolean;
-  out_of_service: boolean;
-  carrier_operation: string;
+// What the run recorded about itself plus each built-in check's details, keyed as the checks write them.
+// Registered checks may add keys of their own.
+export interface VerificationMetadata {
+  evaluation_mode: EvaluationMode;
+  evaluated_at: string;
+  checks_skipped?: string[];
+  waived_findings?: Array<{ check: string; code: CheckFinding['code']; params: CheckFinding['params'] }>;
+  fmcsa_status?: string;
+  fmcsa_cache?: FMCSALookup['cache'];
+  // broker_identity adds its identity_match to the carrier the fmcsa check found
+  carrier_info?: Partial<FMCSACarrier> & { identity_match?: NameMatch & { submitted_name: string } };
+  broker_identity_check?: string;
+  authority_check?: {
+    status: string;
+    broker_authority?: boolean | null;
+    authority_age_days?: number | null;
+    bond_on_file?: boolean | null;
+    docket_numbers?: string[];
+  };
+  broker_data_check?: { status: string; profile?: BrokerProfile; credit_difference?: number | null };
+  credit_score_check?: string;
+  duplicate_check?: {
+    status: string;
+    fingerprint?: string;
+    matching_load_ids: string[];
+    other_client_matches?: number;
+    matching_loads?: Array<{ load_id: string; broker_mc: string; rate: number; posted_at: string }>;
+    reused_load_id?: { load_id: string; previous_broker_mc: string; changed_fields: string[] };
+  };
+  list_check?: { status: string; matches: ListMatch[]; waives?: ReasonCode[] };
+  load_age_minutes?: number;
+  rate_check?: {
+    status: string;
+    equipment?: string;
+    miles?: number;
+    rate_per_mile?: number;
+    benchmark?: { low_rpm: number; high_rpm: number };
+  };
+  [key: string]: unknown;
 }
 
-// Configuration
-const CONFIG = {
-  CREDIT_SCORE_MIN: 82,
-  CREDIT_SCORE_MAX: 97,
-  LOAD_FRESHNESS_WARNING_MINUTES: 30,
-  LOAD_FRESHNESS_REJECT_MINUTES: 60,
-  FMCSA_API_BASE: 'https://mobile.fmcsa.dot.gov/qc/services/carriers',
-  FMCSA_TIMEOUT_MS: 5000,
-};
+export interface PolicyReference {
+  id: string;
+  version: string;
+}
 
 // Main verification function
-export async function verifyLoad(load: LoadVerificationInput): Promise<VerificationResult> {
-  const reasons: string[] = [];
-  const metadata: any = {};
+export async function verifyLoad(
+  load: LoadVerificationInput,
+  options: VerifyOptions = {}
+): Promise<VerificationResult> {
+  const policy = options.policy || await getPolicy(options.policy_id);
+  const policyRef: PolicyReference = { id: policy.id, version: policy.version };
+  const locale = options.locale || 'en';
+  const mode = options.mode || 'fast';
+  const clock = getClock();
+  const evaluatedAt = options.evaluated_at ? Date.parse(options.evaluated_at) : clock.now();
+  const reasons: VerificationReason[] = [];
+  const risks: CheckRisk[] = [];
+  const metadata: VerificationMetadata = { evaluation_mode: mode, evaluated_at: new Date(evaluatedAt).toISOString() };
+  const checkRecords: CheckRecord[] = [];
+  const verificationId = randomUUID();
+  let result: VerificationResult;
 
   try {
-    // 1. Credit Score Check
-    const creditCheck = verifyCreditScore(load.credit_score);
-    metadata.credit_score_check = creditCheck.status;
-    
-    if (creditCheck.reject) {
-      return reject(creditCheck.reason, metadata);
-    }
-    
-    if (creditCheck.warning) {
-      reasons.push(creditCheck.warning);
-    }
+    const sources: CheckSources = { ...liveSources(), ...options.sources };
+    const pipeline = await runChecks(checkRegistry.resolve(policy, sources), {
+      load,
+      policy,
+      evaluated_at: evaluatedAt,
+      client_name: options.caller?.client_name ?? null,
+      sources,
+    }, mode);
+
+    for (const run of pipeline.runs) {
+      mergeMetadata(metadata, run.metadata);
+
+      if (run.waived.length > 0) {
+        metadata.waived_findings = [
+          ...(metadata.waived_findings || []),
+          ...run.waived.map(f => ({ check: run.check, code: f.code, params: f.params })),
+        ];
+      }
 
-    // 2. FMCSA MC Number Validation
-    const fmcsaCheck = await verifyFMCSA(load.broker_mc);
-    metadata.fmcsa_status = fmcsaCheck.status;
-    
-    if (fmcsaCheck.carrier) {
-      metadata.carrier_info = fmcsaCheck.carrier;
-    }
-    
-    if (fmcsaCheck.reject) {
-      return reject(fmcsaCheck.reason, metadata);
-    }
-    
-    if (fmcsaCheck.warning) {
-      reasons.push(fmcsaCheck.warning);
-    }
+      // A check that failed or timed out has no risk to score - its finding still floors the verdict
+      if (run.risk !== null) {
+        risks.push({ check: run.check, risk: run.risk });
+      }
 
-    // 3. Load Freshness Check
-    const freshnessCheck = verifyLoadFreshness(load.posted_at);
-    metadata.load_age_minutes = freshnessCheck.ageMinutes;
-    
-    if (freshnessCheck.reject) {
-      return reject(freshnessCheck.reason, metadata);
-    }
-    
-    if (freshnessCheck.warning) {
-      reasons.push(freshnessCheck.warning);
+      checkRecords.push({
+        check: run.check,
+        status: run.status,
+        duration_ms: run.duration_ms,
+        risk: run.risk,
+        findings: run.findings,
+        ...(run.waived.length > 0 && { waived: run.waived }),
+        metadata: run.metadata,
+        ...(run.evidence && { evidence: run.evidence }),
+      });
+
+      for (const finding of run.findings) {
+        reasons.push(toReason(run.check, finding, locale));
+      }
     }
 
-    // Final Decision
-    if (reasons.length > 0) {
-      return needsReview(reasons, metadata);
+    if (pipeline.short_circuited.length > 0) {
+      metadata.checks_skipped = pipeline.short_circuited;
     }
 
-    return approve(metadata);
+    // Final Decision - the score band sets the verdict, finding severities act as a floor
+    // (a reject finding always rejects; info findings are reported but never block approval)
+    const risk = assessRisk(risks, policy.scoring);
+    const status = strictestStatus(risk.band, ...reasons.map(severityFloor));
+
+    result = decision(verificationId, status, reasons, metadata, policyRef, clock.now(), risk);
 
   } catch (error) {
-    console.error('Verification error:', error);
-    return needsReview(
-      [`Verification system error: ${error instanceof Error ? error.message : 'Unknown error'}`],
-      metadata
+    log.error('verification error', { load_id: load.load_id, verification_id: verificationId, error });
+    result = decision(
+      verificationId,
+      'NEEDS_REVIEW',
+      [buildReason('system', 'SYSTEM_ERROR', 'review', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }, locale)],
+      metadata,
+      policyRef,
+      clock.now()
     );
   }
-}
-
-// Credit score verification
-function verifyCreditScore(score: number): {
-  status: string;
-  reject?: boolean;
-  warning?: string;
-  reason?: string;
-} {
-  if (score < CONFIG.CREDIT_SCORE_MIN) {
-    return {
-      status: 'FAILED',
-      reject: true,
-      reason: `Credit score ${score} below minimum threshold (${CONFIG.CREDIT_SCORE_MIN})`,
-    };
-  }
 
-  if (score > CONFIG.CREDIT_SCORE_MAX) {
-    return {
-      status: 'SUSPICIOUS',
-      warning: `Credit score ${score} unusually high - may indicate fake/manipulated score`,
-    };
+  if (options.dry_run) {
+    return result;
   }
 
-  return { status: 'PASSED' };
-}
+  recordMetrics(result, mode, checkRecords);
+
+  const record: AuditRecord = {
+    verification_id: verificationId,
+    load_id: load.load_id,
+    broker_mc: load.broker_mc,
+    verification_status: result.verification_status,
+    input: load,
+    policy: policyRef,
+    score_bands: policy.scoring.bands,
+    options: { mode, locale, ...(options.evaluated_at && { evaluated_at: options.evaluated_at }) },
+    checks: checkRecords,
+    result,
+    caller: options.caller || null,
+    request_id: getLogContext()?.request_id || null,
+    created_at: result.verified_at,
+  };
 
-// Load freshness verification
-function verifyLoadFreshness(postedAt: string): {
-  ageMinutes: number;
-  reject?: boolean;
-  warning?: string;
-  reason?: string;
-} {
-  const postedTime = new Date(postedAt).getTime();
-  const now = Date.now();
-  const ageMinutes = Math.floor((now - postedTime) / 1000 / 60);
-
-  if (ageMinutes > CONFIG.LOAD_FRESHNESS_REJECT_MINUTES) {
-    return {
-      ageMinutes,
-      reject: true,
-      reason: `Load posted ${ageMinutes} minutes ago - likely unavailable (>${CONFIG.LOAD_FRESHNESS_REJECT_MINUTES}min threshold)`,
-    };
+  // Persist the decision; a storage failure must not hide the verdict from the caller
+  try {
+    await recordVerification(record);
+  } catch (error) {
+    log.error('audit log write failed', { verification_id: verificationId, error });
   }
 
-  if (ageMinutes > CONFIG.LOAD_FRESHNESS_WARNING_MINUTES) {
-    return {
-      ageMinutes,
-      warning: `Load posted ${ageMinutes} minutes ago - may be stale`,
-    };
+  // NEEDS_REVIEW decisions go to the human review queue
+  try {
+    await enqueueForReview(record);
+  } catch (error) {
+    log.error('review queue write failed', { verification_id: verificationId, error });
   }
 
-  return { ageMinutes };
+  return result;
 }
 
-// FMCSA API verification
-async function verifyFMCSA(mcNumber: string): Promise<{
-  status: string;
-  carrier?: FMCSACarrier;
-  reject?: boolean;
-  warning?: string;
-  reason?: string;
-}> {
-  const apiKey = process.env.FMCSA_API_KEY;
-
-  if (!apiKey) {
-    console.warn('FMCSA_API_KEY not configured - skipping FMCSA check');
-    return {
-      status: 'SKIPPED',
-      warning: 'FMCSA validation unavailable (API key not configured)',
-    };
-  }
+// Live FMCSA client, the configured broker data provider and the shared recent-loads index
+function liveSources(): CheckSources {
+  return {
+    fmcsa: { isConfigured: isFMCSAConfigured, lookup: mcNumber => lookupCarrier(mcNumber) },
+    broker_data: { isConfigured: isBrokerDataConfigured, lookup: lookupBrokerProfile },
+    recent_loads: getRecentLoadIndex(),
+  };
+}
 
-  try {
-   const url = `${CONFIG.FMCSA_API_BASE}/${mcNumber}?webKey=${apiKey!}`;
-    
-    const response = await axios.get(url, {
-      timeout: CONFIG.FMCSA_TIMEOUT_MS,
-      headers: { 'Accept': 'application/json' },
-    });
-
-    const data = response.data;
-    
-    if (!data || !data.content) {
-      return {
-        status: 'NOT_FOUND',
-        reject: true,
-        reason: `MC number ${mcNumber} not found in FMCSA database`,
-      };
-    }
+function recordMetrics(result: VerificationResult, mode: EvaluationMode, checks: CheckRecord[]): void {
+  metrics.verifications.inc({ status: result.verification_status, mode });
 
-    const carrier = data.content.carrier;
-    
-    if (!carrier) {
-      return {
-        status: 'NOT_FOUND',
-        reject: true,
-        reason: `MC number ${mcNumber} has no carrier data`,
-      };
-    }
+  for (const reason of result.reasons) {
+    metrics.reasons.inc({ code: reason.code, severity: reason.severity });
+  }
 
-    const carrierInfo: FMCSACarrier = {
-      mc_number: mcNumber,
-      legal_name: carrier.legalName || 'Unknown',
-      status: carrier.allowedToOperate || 'UNKNOWN',
-      allowed_to_operate: carrier.allowedToOperate === 'Y',
-      out_of_service: carrier.outOfServiceDate !== null,
-      carrier_operation: carrier.carrierOperation || 'Unknown',
-    };
-
-    if (!carrierInfo.allowed_to_operate) {
-      return {
-        status: 'NOT_AUTHORIZED',
-        carrier: carrierInfo,
-        reject: true,
-        reason: `Carrier ${mcNumber} (${carrierInfo.legal_name}) not authorized to operate`,
-      };
-    }
+  for (const check of checks) {
+    metrics.checkDuration.observe({ check: check.check, status: check.status || 'completed' }, (check.duration_ms || 0) / 1000);
+  }
+}
 
-    if (carrierInfo.out_of_service) {
-      return {
-        status: 'OUT_OF_SERVICE',
-        carrier: carrierInfo,
-        reject: true,
-        reason: `Carrier ${mcNumber} (${carrierInfo.legal_name}) is out of service`,
-      };
-    }
+// Shallow merge, except nested objects (e.g. carrier_info) from several checks are combined
+function mergeMetadata(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    const bothObjects = existing && typeof existing === 'object' && !Array.isArray(existing)
+      && value && typeof value === 'object' && !Array.isArray(value);
 
-    return {
-      status: 'ACTIVE',
-      carrier: carrierInfo,
-    };
+    target[key] = bothObjects ? { ...existing, ...value } : value;
+  }
+}
 
-  } catch (error) {
-    console.error('FMCSA API error:', error);
-    
-    if (axios.isAxiosError(error)) {
-      if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
-        return {
-          status: 'TIMEOUT',
-          warning: 'FMCSA API timeout - broker verification incomplete',
-        };
-      }
-      
-      if (error.response?.status === 404) {
-        return {
-          status: 'NOT_FOUND',
-          reject: true,
-          reason: `MC number ${mcNumber} not found in FMCSA database`,
-        };
-      }
-    }
+// Decision helpers
+const STATUS_RANK: Record<VerificationStatus, number> = {
+  APPROVED: 0,
+  NEEDS_REVIEW: 1,
+  REJECTED: 2,
+};
 
-    return {
-      status: 'ERROR',
-      warning: `FMCSA API error - broker verification incomplete`,
-    };
-  }
+function toReason(check: string, finding: CheckFinding, locale: Locale): VerificationReason {
+  return buildReason(check, finding.code, finding.severity, finding.params, locale);
 }
 
-// Decision builders
-function approve(metadata?: any): VerificationResult {
-  return {
-    verification_status: 'APPROVED',
-    reasons: [],
-    verified_at: new Date().toISOString(),
-    metadata,
-  };
+export function severityFloor(reason: Pick<VerificationReason, 'severity'>): VerificationStatus {
+  if (reason.severity === 'reject') return 'REJECTED';
+  if (reason.severity === 'review') return 'NEEDS_REVIEW';
+  return 'APPROVED';
 }
 
-function reject(reason: string, metadata?: any): VerificationResult {
-  return {
-    verification_status: 'REJECTED',
-    reasons: [reason],
-    verified_at: new Date().toISOString(),
-    metadata,
-  };
+export function strictestStatus(...statuses: VerificationStatus[]): VerificationStatus {
+  return statuses.reduce((worst, s) => (STATUS_RANK[s] > STATUS_RANK[worst] ? s : worst), 'APPROVED');
 }
 
-function needsReview(reasons: string[], metadata?: any): VerificationResult {
+// Decision builder
+function decision(
+  verificationId: string,
+  status: VerificationStatus,
+  reasons: VerificationReason[],
+  metadata: VerificationMetadata,
+  policy: PolicyReference,
+  verifiedAt: number,
+  risk?: RiskAssessment
+): VerificationResult {
   return {
-    verification_status: 'NEEDS_REVIEW',
+    verification_id: verificationId,
+    verification_status: status,
     reasons,
-    verified_at: new Date().toISOString(),
+    verified_at: new Date(verifiedAt).toISOString(),
+    risk_score: risk?.score,
+    risk_breakdown: risk?.breakdown,
+    policy,
     metadata,
   };
 }
@@ -0,0 +1,169 @@
+/**
+ * Webhook Delivery
+ * HMAC-signed JSON callbacks with retry and exponential backoff
+ */
+
+import { createHmac, randomUUID } from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'webhooks' });
+
+// Types
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  event: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  last_status_code?: number;
+  last_error?: string;
+  delivered_at?: string;
+}
+
+// Configuration
+const CONFIG = {
+  SIGNING_SECRET: process.env.WEBHOOK_SIGNING_SECRET,
+  TIMEOUT_MS: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+  MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+  RETRY_BASE_MS: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '1000'),
+  // Local development only - lets callbacks reach localhost and private networks
+  ALLOW_PRIVATE_HOSTS: process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true',
+};
+
+// Loopback, private, carrier-grade NAT, link-local (cloud metadata), multicast and reserved ranges. IPv4-mapped
+// IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges by BlockList itself.
+const INTERNAL_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 3],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  INTERNAL_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+export function defaultSigningSecret(): string | undefined {
+  return CONFIG.SIGNING_SECRET;
+}
+
+// Callback URLs come from API callers, so they must not point the service at itself or its own network
+export function validateCallbackUrl(url: unknown): string | null {
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url) || !URL.canParse(url)) {
+    return 'callback_url must be an http(s) URL';
+  }
+
+  if (!CONFIG.ALLOW_PRIVATE_HOSTS && isInternalHost(new URL(url).hostname)) {
+    return 'callback_url must not point to a private or internal host';
+  }
+
+  return null;
+}
+
+export function isInternalAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && INTERNAL_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// "t=<unix seconds>,v1=<hex HMAC-SHA256 of `${t}.${body}`>" - the timestamp lets receivers reject replays
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// POST the event, retrying on network errors and non-2xx responses; never throws
+export async function deliverWebhook(
+  url: string,
+  event: string,
+  payload: unknown,
+  secret: string,
+  onAttempt?: (delivery: WebhookDelivery) => void
+): Promise<WebhookDelivery> {
+  const delivery: WebhookDelivery = { id: randomUUID(), url, event, status: 'pending', attempts: 0 };
+  const body = JSON.stringify({ id: delivery.id, event, created_at: new Date().toISOString(), data: payload });
+
+  while (delivery.attempts < CONFIG.MAX_ATTEMPTS) {
+    delivery.attempts++;
+
+    try {
+      // Checked again at send time - a public hostname can be re-pointed at an internal address later
+      const blocked = await resolvesInternally(new URL(url).hostname);
+      if (blocked) {
+        delivery.last_error = `callback host resolves to internal address ${blocked}`;
+        break;
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), CONFIG.TIMEOUT_MS);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': event,
+          'X-Webhook-Signature': signPayload(body, secret),
+        },
+        body,
+        // A redirect could bounce the request to an internal address - treat it as a failed attempt
+        redirect: 'manual',
+        signal: controller.signal,
+      }).finally(() => clearTimeout(timeout));
+
+      delivery.last_status_code = response.status;
+
+      if (response.ok) {
+        delivery.status = 'delivered';
+        delivery.delivered_at = new Date().toISOString();
+        delete delivery.last_error;
+        onAttempt?.(delivery);
+        return delivery;
+      }
+
+      delivery.last_error = `HTTP ${response.status}`;
+
+    } catch (error) {
+      delivery.last_error = error instanceof Error && error.name === 'AbortError'
+        ? 'Timed out'
+        : error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    onAttempt?.(delivery);
+
+    if (delivery.attempts < CONFIG.MAX_ATTEMPTS) {
+      await sleep(CONFIG.RETRY_BASE_MS * 2 ** (delivery.attempts - 1));
+    }
+  }
+
+  delivery.status = 'failed';
+  log.error('webhook delivery failed', { event, url, attempts: delivery.attempts, error: delivery.last_error });
+  onAttempt?.(delivery);
+  return delivery;
+}
+
+function isInternalHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  return host === 'localhost' || INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)) || isInternalAddress(host);
+}
+
+// The first internal address the hostname resolves to, or null
+async function resolvesInternally(hostname: string): Promise<string | null> {
+  if (CONFIG.ALLOW_PRIVATE_HOSTS) return null;
+  if (isInternalHost(hostname)) return hostname;
+
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) return null;
+
+  const addresses = await dns.promises.lookup(host, { all: true });
+  return addresses.find(entry => isInternalAddress(entry.address))?.address || null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
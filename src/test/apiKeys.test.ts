@@ -0,0 +1,49 @@
+/**
+ * API Keys - Test Suite
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  authenticateApiKey,
+  issueApiKey,
+  revokeApiKey,
+  rotateApiKey,
+  setApiKeyStore,
+  ApiKeyInactiveError,
+} from '../services/apiKeyStore';
+import { MemoryDocumentStore } from '../services/documentStore';
+
+describe('rotateApiKey', () => {
+  beforeEach(() => setApiKeyStore(new MemoryDocumentStore()));
+
+  it('issues a replacement with the same scopes and revokes the old key', async () => {
+    const { key, info } = await issueApiKey({ client_name: 'Board', scopes: ['verify', 'review'] });
+
+    const rotated = await rotateApiKey(info.id);
+
+    assert.deepEqual(rotated.info.scopes, ['verify', 'review']);
+    assert.equal(rotated.info.rotated_from, info.id);
+    assert.deepEqual(await authenticateApiKey(key), { ok: false, reason: 'revoked' });
+    assert.equal((await authenticateApiKey(rotated.key)).ok, true);
+  });
+
+  it('refuses to rotate a revoked key', async () => {
+    const { info } = await issueApiKey({ client_name: 'Board', scopes: ['verify'] });
+    await revokeApiKey(info.id);
+
+    await assert.rejects(rotateApiKey(info.id), (error: unknown) =>
+      error instanceof ApiKeyInactiveError && error.reason === 'revoked');
+  });
+
+  it('refuses to rotate an expired key', async () => {
+    const { info } = await issueApiKey({
+      client_name: 'Board',
+      scopes: ['verify'],
+      expires_at: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    await assert.rejects(rotateApiKey(info.id), (error: unknown) =>
+      error instanceof ApiKeyInactiveError && error.reason === 'expired');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Batch Jobs - Test Suite
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  getBatchJob,
+  setBatchJobStores,
+  startBatchJobRunner,
+  submitBatchJob,
+  summarize,
+  BatchJob,
+  BatchJobsUnavailableError,
+  MemoryJobResultStore,
+} from '../services/batchJobs';
+import { DEFAULT_POLICY } from '../services/policyService';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { deliverWebhook, validateCallbackUrl } from '../services/webhooks';
+import { baseLoad } from './helpers';
+
+function persistedJob(id: string, status: BatchJob['status']): BatchJob {
+  return {
+    id,
+    status,
+    policy: { id: 'default', version: '1' },
+    options: { locale: 'en' },
+    caller: null,
+    total: 10,
+    processed: 0,
+    summary: summarize([]),
+    webhook: null,
+    created_at: '2026-03-02T15:00:00.000Z',
+    started_at: null,
+    completed_at: null,
+  };
+}
+
+describe('startBatchJobRunner', () => {
+  let jobs: MemoryDocumentStore<BatchJob>;
+
+  beforeEach(() => {
+    jobs = new MemoryDocumentStore();
+    setBatchJobStores(jobs, new MemoryJobResultStore());
+  });
+
+  it('refuses submissions until the long-lived server starts the runner', async () => {
+    await assert.rejects(
+      submitBatchJob({ loads: [baseLoad()], policy: DEFAULT_POLICY, locale: 'en', caller: null }),
+      BatchJobsUnavailableError
+    );
+    assert.deepEqual(await jobs.list(), []);
+  });
+
+  it('fails jobs a restart left queued or running and leaves finished ones alone', async () => {
+    await jobs.put('queued', persistedJob('queued', 'queued'));
+    await jobs.put('running', persistedJob('running', 'running'));
+    await jobs.put('done', persistedJob('done', 'completed'));
+
+    const orphaned = await startBatchJobRunner();
+
+    assert.deepEqual(orphaned.map(job => job.id).sort(), ['queued', 'running']);
+    assert.equal((await getBatchJob('running'))?.status, 'failed');
+    assert.match((await getBatchJob('queued'))?.error || '', /restart/);
+    assert.equal((await getBatchJob('done'))?.status, 'completed');
+  });
+});
+
+describe('callback URLs', () => {
+  it('refuses loopback, private, link-local and internal hosts', () => {
+    for (const url of [
+      'http://localhost:8080/hook',
+      'http://127.0.0.1/hook',
+      'http://2130706433/hook',
+      'http://10.1.2.3/hook',
+      'http://172.20.0.5/hook',
+      'http://192.168.1.10/hook',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/hook',
+      'http://[::ffff:127.0.0.1]/hook',
+      'http://[fd00::1]/hook',
+      'http://metadata.google.internal/computeMetadata/v1/',
+    ]) {
+      assert.equal(validateCallbackUrl(url), 'callback_url must not point to a private or internal host', url);
+    }
+  });
+
+  it('accepts public http(s) URLs and rejects other schemes', () => {
+    assert.equal(validateCallbackUrl('https://hooks.example.com/loads'), null);
+    assert.equal(validateCallbackUrl('http://203.0.113.7/hook'), null);
+    assert.equal(validateCallbackUrl('file:///etc/passwd'), 'callback_url must be an http(s) URL');
+  });
+
+  it('does not deliver to an internal address', async () => {
+    const delivery = await deliverWebhook('http://127.0.0.1:9/hook', 'test.event', {}, 'x'.repeat(16));
+
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts, 1);
+    assert.match(delivery.last_error || '', /internal address/);
+  });
+});
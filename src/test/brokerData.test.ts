@@ -0,0 +1,154 @@
+/**
+ * Broker Data - Test Suite
+ * Import provider parsing and credit score reconciliation against a secondary source
+ */
+
+import { describe, it, beforeEach, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { verifyLoad } from '../services/verificationService';
+import { getVerification } from '../services/auditLog';
+import {
+  setBrokerDataProvider,
+  BrokerDataUnavailableError,
+  ImportBrokerDataProvider,
+} from '../services/brokerData';
+import { baseLoad, reasonCodes, useOfflineServices, FIXTURE_MCS } from './helpers';
+
+describe('ImportBrokerDataProvider', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'broker-data-'));
+  });
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('reads a CSV export keyed by normalized MC number', async () => {
+    const file = path.join(dir, 'export.csv');
+    fs.writeFileSync(file, [
+      'mc_number,credit_score,credit_rating,days_to_pay,complaint_count,as_of',
+      'MC-0123456,88,A,28,0,2026-09-30',
+      '654321,,C,61,7,',
+    ].join('\n'));
+
+    const provider = new ImportBrokerDataProvider(file);
+
+    assert.deepEqual(await provider.lookup('123456'), {
+      mc_number: '123456',
+      source: 'import',
+      credit_score: 88,
+      credit_rating: 'A',
+      days_to_pay: 28,
+      complaint_count: 0,
+      as_of: '2026-09-30T00:00:00.000Z',
+    });
+    assert.equal((await provider.lookup('MC-654321'))?.credit_score, null);
+    assert.equal(await provider.lookup('999999'), null);
+  });
+
+  it('picks up a replaced export without a restart', async () => {
+    const file = path.join(dir, 'export.json');
+    fs.writeFileSync(file, JSON.stringify([{ mc_number: '123456', credit_score: 70 }]));
+
+    const provider = new ImportBrokerDataProvider(file);
+    assert.equal((await provider.lookup('123456'))?.credit_score, 70);
+
+    fs.writeFileSync(file, JSON.stringify([{ broker_mc: '123456', credit_score: 91 }]));
+    fs.utimesSync(file, new Date(), new Date(Date.now() + 5000));
+    assert.equal((await provider.lookup('123456'))?.credit_score, 91);
+  });
+
+  it('rejects the whole import when any row is invalid', async () => {
+    const provider = new ImportBrokerDataProvider([
+      { mc_number: '123456', credit_score: 140 },
+      { mc_number: 'not-an-mc' },
+      { mc_number: '200001', days_to_pay: -3 },
+      { mc_number: '200001' },
+    ]);
+
+    await assert.rejects(provider.lookup('123456'), (error: unknown) =>
+      error instanceof BrokerDataUnavailableError
+      && /row 1: credit_score must be between 0 and 100/.test(error.message)
+      && /row 2: mc_number is required/.test(error.message)
+      && /row 3: days_to_pay must be a non-negative number/.test(error.message)
+    );
+  });
+});
+
+describe('broker data check', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('stays out of the pipeline until a provider is configured', async () => {
+    const result = await verifyLoad(baseLoad());
+    const audit = await getVerification(result.verification_id!);
+
+    assert.ok(!audit?.checks.some(check => check.check === 'broker_data'));
+  });
+
+  it('runs against an injected source even with no provider configured', async () => {
+    const result = await verifyLoad(baseLoad({ credit_score: 90 }), {
+      sources: { broker_data: new ImportBrokerDataProvider([{ mc_number: FIXTURE_MCS.ACTIVE, credit_score: 55 }]) },
+    });
+
+    assert.deepEqual(reasonCodes(result), ['CREDIT_SCORE_MISMATCH']);
+  });
+
+  it('passes a submitted score that matches the source', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ mc_number: FIXTURE_MCS.ACTIVE, credit_score: 80, days_to_pay: 30 }]));
+
+    const result = await verifyLoad(baseLoad({ credit_score: 85 }));
+
+    assert.equal(result.verification_status, 'APPROVED');
+    assert.equal(result.metadata?.broker_data_check?.status, 'PASSED');
+    assert.equal(result.metadata?.broker_data_check?.credit_difference, 5);
+  });
+
+  it('flags a submitted score far above the source as possible tampering', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ mc_number: FIXTURE_MCS.ACTIVE, credit_score: 55 }]));
+
+    const result = await verifyLoad(baseLoad({ credit_score: 90 }));
+
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.deepEqual(reasonCodes(result), ['CREDIT_SCORE_MISMATCH']);
+    assert.deepEqual(result.reasons[0].params, {
+      submitted_score: 90,
+      source_score: 55,
+      difference: 35,
+      max_difference: 15,
+      source: 'import',
+    });
+  });
+
+  it('flags slow payers and brokers with repeated complaints', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([
+      { mc_number: FIXTURE_MCS.ACTIVE, credit_score: 85, days_to_pay: 62, complaint_count: 5 },
+    ]));
+
+    const result = await verifyLoad(baseLoad());
+
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.deepEqual(reasonCodes(result), ['BROKER_SLOW_PAY', 'BROKER_COMPLAINTS']);
+  });
+
+  it('treats an MC the source does not know as no evidence either way', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ mc_number: '777777', credit_score: 20 }]));
+
+    const result = await verifyLoad(baseLoad());
+
+    assert.equal(result.verification_status, 'APPROVED');
+    assert.equal(result.metadata?.broker_data_check?.status, 'NO_RECORD');
+  });
+
+  it('reports an unusable source without blocking the load', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ credit_score: 50 }]));
+
+    const result = await verifyLoad(baseLoad());
+
+    assert.equal(result.verification_status, 'APPROVED');
+    assert.deepEqual(reasonCodes(result), ['BROKER_DATA_UNAVAILABLE']);
+    assert.equal(result.reasons[0].severity, 'info');
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Broker Monitoring - Test Suite
+ * Watchlist sweeps against mutable FMCSA fixtures and in-memory stores
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { listMonitorEvents, listWatchedBrokers, runMonitorSweep, setMonitorStores, watchBroker } from '../services/brokerMonitor';
+import { setFMCSAProvider } from '../services/fmcsaClient';
+import { FixtureFMCSAProvider, FMCSAFixtureSet } from '../services/fmcsaProvider';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { useOfflineServices } from './helpers';
+
+const MC = '400001';
+
+function carrierFixture(fields: { legalName?: string; allowedToOperate?: string; outOfServiceDate?: string | null } = {}) {
+  return {
+    status: 200,
+    body: {
+      content: {
+        carrier: {
+          dotNumber: 4000001,
+          legalName: 'WATCHED FREIGHT LLC',
+          allowedToOperate: 'Y',
+          outOfServiceDate: null,
+          ...fields,
+        },
+      },
+    },
+  };
+}
+
+describe('broker monitor sweep', () => {
+  let fixtures: FMCSAFixtureSet;
+  let requested: string[];
+
+  beforeEach(() => {
+    fixtures = { [MC]: carrierFixture() };
+    requested = [];
+
+    useOfflineServices();
+    setMonitorStores(new MemoryDocumentStore(), new MemoryDocumentStore());
+
+    // The provider reads the fixture object on every call, so tests change FMCSA's answer between sweeps
+    const provider = new FixtureFMCSAProvider(fixtures);
+    const get = provider.get.bind(provider);
+    provider.get = resource => {
+      requested.push(resource);
+      return get(resource);
+    };
+    setFMCSAProvider(provider);
+  });
+
+  it('takes the first check as the baseline without raising events', async () => {
+    await watchBroker({ mc_number: MC, client_name: 'acme' });
+
+    const result = await runMonitorSweep();
+    const [watch] = await listWatchedBrokers('acme');
+
+    assert.equal(result.checked, 1);
+    assert.deepEqual(result.events, []);
+    assert.equal(watch.last_status, 'FOUND');
+    assert.equal(watch.snapshot?.legal_name, 'WATCHED FREIGHT LLC');
+  });
+
+  for (const [name, fields, type, previous, current] of [
+    ['operating authority', { allowedToOperate: 'N' }, 'ALLOWED_TO_OPERATE_CHANGED', true, false],
+    ['out-of-service status', { outOfServiceDate: '2026-10-01' }, 'OUT_OF_SERVICE_CHANGED', false, true],
+    ['legal name', { legalName: 'RENAMED FREIGHT LLC' }, 'LEGAL_NAME_CHANGED', 'WATCHED FREIGHT LLC', 'RENAMED FREIGHT LLC'],
+  ] as const) {
+    it(`raises ${type} when the ${name} changes`, async () => {
+      await watchBroker({ mc_number: MC, client_name: 'acme', label: 'Watched' });
+      await runMonitorSweep();
+
+      fixtures[MC] = carrierFixture(fields);
+      const result = await runMonitorSweep();
+
+      assert.deepEqual(result.events.map(event => [event.type, event.previous, event.current]), [[type, previous, current]]);
+      assert.equal(result.events[0].label, 'Watched');
+      assert.deepEqual((await listMonitorEvents({ client_name: 'acme' })).map(event => event.type), [type]);
+    });
+  }
+
+  it('records a lookup error without touching the baseline snapshot', async () => {
+    await watchBroker({ mc_number: MC, client_name: 'acme' });
+    await runMonitorSweep();
+
+    fixtures[MC] = { error: 'network' };
+    const result = await runMonitorSweep();
+    const [watch] = await listWatchedBrokers('acme');
+
+    assert.equal(result.errors, 1);
+    assert.deepEqual(result.events, []);
+    assert.equal(watch.last_status, 'ERROR');
+    assert.match(watch.last_error || '', /network/);
+    assert.equal(watch.snapshot?.legal_name, 'WATCHED FREIGHT LLC');
+  });
+
+  it('looks an MC up once however many clients watch it', async () => {
+    await watchBroker({ mc_number: MC, client_name: 'acme' });
+    await watchBroker({ mc_number: MC, client_name: 'globex' });
+    await runMonitorSweep();
+
+    fixtures[MC] = carrierFixture({ legalName: 'RENAMED FREIGHT LLC' });
+    requested.length = 0;
+    const result = await runMonitorSweep();
+
+    assert.equal(result.checked, 1);
+    assert.equal(requested.filter(resource => resource === MC).length, 1);
+    assert.deepEqual(result.events.map(event => event.client_name).sort(), ['acme', 'globex']);
+  });
+});
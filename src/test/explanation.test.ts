@@ -0,0 +1,128 @@
+/**
+ * Explanation Reports - Test Suite
+ */
+
+import { describe, it, beforeEach, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../server';
+import { verifyLoad } from '../services/verificationService';
+import { getVerification, AuditRecord } from '../services/auditLog';
+import { buildExplanation, VerificationExplanation } from '../services/explanation';
+import { renderExplanationHtml } from '../services/explanationReport';
+import { issueApiKey, setApiKeyStore } from '../services/apiKeyStore';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { baseLoad, useOfflineServices } from './helpers';
+
+async function recorded(...args: Parameters<typeof verifyLoad>): Promise<AuditRecord> {
+  const result = await verifyLoad(...args);
+  return (await getVerification(result.verification_id!))!;
+}
+
+describe('buildExplanation', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('explains an approval by its score band, with each check\'s inputs, thresholds and FMCSA fields', async () => {
+    const explanation = buildExplanation(await recorded(baseLoad()));
+
+    assert.equal(explanation.verdict.status, 'APPROVED');
+    assert.equal(explanation.verdict.decided_by, 'score');
+    assert.equal(explanation.verdict.score_band, 'APPROVED');
+    assert.deepEqual(explanation.verdict.policy, { id: 'default', version: '1' });
+
+    const credit = explanation.checks.find(check => check.check === 'credit_score')!;
+    assert.equal(credit.result, 'PASSED');
+    assert.deepEqual(credit.inputs, { credit_score: 85 });
+    assert.deepEqual(credit.thresholds, { min: 82, max: 97 });
+    assert.equal(credit.score?.weight, 35);
+
+    const fmcsa = explanation.checks.find(check => check.check === 'fmcsa')!;
+    assert.equal(fmcsa.sources.fmcsa.legal_name, 'TEST LOGISTICS LLC');
+    assert.equal(fmcsa.sources.fmcsa.allowed_to_operate, true);
+
+    const authority = explanation.checks.find(check => check.check === 'authority')!;
+    assert.equal(authority.sources.fmcsa.bond_on_file, true);
+    assert.equal(authority.thresholds.min_age_days, 180);
+  });
+
+  it('attributes a rejection to the finding that forced it and lists the checks never run', async () => {
+    const explanation = buildExplanation(await recorded(baseLoad({ credit_score: 60 })), { locale: 'es' });
+
+    assert.equal(explanation.verdict.status, 'REJECTED');
+    assert.equal(explanation.verdict.decided_by, 'findings');
+    assert.equal(explanation.verdict.finding_floor, 'REJECTED');
+
+    const credit = explanation.checks.find(check => check.check === 'credit_score')!;
+    assert.equal(credit.effect, 'rejects');
+    assert.equal(credit.findings[0].code, 'CREDIT_BELOW_MIN');
+    assert.ok(credit.findings[0].message.length > 0);
+
+    assert.ok(explanation.not_run.includes('fmcsa'));
+    assert.ok(!explanation.checks.some(check => check.check === 'fmcsa'));
+  });
+
+  it('still explains records written before evidence was kept', async () => {
+    const record = await recorded(baseLoad());
+    const legacy: AuditRecord = {
+      ...record,
+      score_bands: undefined,
+      checks: record.checks.map(({ evidence, ...check }) => check),
+    };
+
+    const explanation = buildExplanation(legacy);
+
+    assert.equal(explanation.verdict.score_band, null);
+    assert.equal(explanation.checks[0].result, null);
+    assert.deepEqual(explanation.checks[0].inputs, {});
+  });
+
+  it('renders escaped, printable HTML', async () => {
+    const html = renderExplanationHtml(buildExplanation(await recorded(baseLoad({ broker_name: 'Test <b>Logistics</b>' }))));
+
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.match(html, /@media print/);
+    assert.ok(html.includes('Test &lt;b&gt;Logistics&lt;/b&gt;'));
+    assert.ok(!html.includes('<b>Logistics</b>'));
+  });
+});
+
+describe('GET /api/verifications/:id/explanation', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    useOfflineServices();
+    setApiKeyStore(new MemoryDocumentStore());
+  });
+
+  it('serves JSON and HTML to the caller that owns the decision only', async () => {
+    const { key, info } = await issueApiKey({ client_name: 'acme', scopes: ['verify'] });
+    const { key: otherKey } = await issueApiKey({ client_name: 'other', scopes: ['verify'] });
+    const result = await verifyLoad(baseLoad(), { caller: { key_id: info.id, client_name: 'acme' } });
+    const url = `${baseUrl}/api/verifications/${result.verification_id}/explanation`;
+
+    const json = await fetch(url, { headers: { 'X-API-Key': key } });
+    assert.equal(json.status, 200);
+    assert.equal(((await json.json()) as VerificationExplanation).verification_id, result.verification_id);
+
+    const html = await fetch(`${url}?format=html`, { headers: { 'X-API-Key': key } });
+    assert.equal(html.status, 200);
+    assert.match(html.headers.get('content-type')!, /^text\/html/);
+    assert.match(await html.text(), /Load verification report/);
+
+    const hidden = await fetch(url, { headers: { 'X-API-Key': otherKey } });
+    assert.equal(hidden.status, 404);
+
+    const invalid = await fetch(`${url}?format=pdf`, { headers: { 'X-API-Key': key } });
+    assert.equal(invalid.status, 400);
+  });
+});
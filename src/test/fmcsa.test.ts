@@ -0,0 +1,206 @@
+/**
+ * FMCSA - Test Suite
+ * Carrier lookups and the FMCSA-backed checks against canned provider responses
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyLoad } from '../services/verificationService';
+import { lookupCarrier, setFMCSAProvider, FMCSAUnavailableError } from '../services/fmcsaClient';
+import { FixtureFMCSAProvider, HttpFMCSAProvider } from '../services/fmcsaProvider';
+import { baseLoad, reasonCodes, useOfflineServices, FIXTURE_MCS, FMCSA_FIXTURES_FILE } from './helpers';
+
+describe('lookupCarrier', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('parses an active carrier with its authority, bond and dockets', async () => {
+    const lookup = await lookupCarrier(FIXTURE_MCS.ACTIVE);
+
+    assert.equal(lookup.found, true);
+    assert.equal(lookup.cache.status, 'MISS');
+    assert.deepEqual(lookup.carrier, {
+      mc_number: FIXTURE_MCS.ACTIVE,
+      dot_number: '1000001',
+      legal_name: 'TEST LOGISTICS LLC',
+      dba_name: null,
+      status: 'Y',
+      allowed_to_operate: true,
+      out_of_service: false,
+      out_of_service_date: null,
+      carrier_operation: 'Interstate',
+      authority: {
+        broker: true,
+        broker_status: 'A',
+        common: false,
+        common_status: 'N',
+        contract: false,
+        contract_status: 'N',
+        granted_at: '2015-03-02T00:00:00.000Z',
+      },
+      insurance: {
+        bond_required: true,
+        bond_on_file: true,
+        bipd_required_amount: 0,
+        bipd_on_file_amount: 0,
+      },
+      docket_numbers: ['MC123456'],
+    });
+  });
+
+  it('serves repeat lookups from the cache', async () => {
+    await lookupCarrier(FIXTURE_MCS.ACTIVE);
+    const lookup = await lookupCarrier(FIXTURE_MCS.ACTIVE);
+
+    assert.equal(lookup.cache.status, 'HIT');
+  });
+
+  it('treats a 404 as not found', async () => {
+    const lookup = await lookupCarrier(FIXTURE_MCS.NOT_FOUND);
+
+    assert.equal(lookup.found, false);
+    assert.equal(lookup.carrier, undefined);
+  });
+
+  it('raises a timeout as FMCSAUnavailableError(TIMEOUT)', async () => {
+    await assert.rejects(lookupCarrier(FIXTURE_MCS.TIMEOUT), (error: unknown) =>
+      error instanceof FMCSAUnavailableError && error.kind === 'TIMEOUT'
+    );
+  });
+
+  it('raises a non-JSON body as an outage rather than a missing MC', async () => {
+    await assert.rejects(lookupCarrier(FIXTURE_MCS.MALFORMED_BODY), (error: unknown) =>
+      error instanceof FMCSAUnavailableError && error.kind === 'ERROR' && /malformed/.test(error.message)
+    );
+  });
+
+  it('raises a carrier field of the wrong type as an outage', async () => {
+    await assert.rejects(lookupCarrier(FIXTURE_MCS.MALFORMED_CARRIER), (error: unknown) =>
+      error instanceof FMCSAUnavailableError && error.kind === 'ERROR'
+    );
+  });
+
+  it('leaves authority null when the secondary endpoints are missing', async () => {
+    const lookup = await lookupCarrier(FIXTURE_MCS.NOT_AUTHORIZED);
+
+    assert.equal(lookup.carrier?.authority, null);
+    assert.deepEqual(lookup.carrier?.docket_numbers, []);
+  });
+});
+
+describe('FMCSA checks', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('rejects a carrier not allowed to operate', async () => {
+    const result = await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.NOT_AUTHORIZED }));
+
+    assert.equal(result.verification_status, 'REJECTED');
+    assert.deepEqual(reasonCodes(result), ['FMCSA_NOT_AUTHORIZED']);
+    assert.deepEqual(result.reasons[0].params, {
+      mc_number: FIXTURE_MCS.NOT_AUTHORIZED,
+      legal_name: 'REVOKED FREIGHT INC',
+      status: 'N',
+    });
+    assert.equal(result.metadata?.fmcsa_status, 'NOT_AUTHORIZED');
+  });
+
+  it('rejects an out-of-service carrier', async () => {
+    const result = await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.OUT_OF_SERVICE }));
+
+    assert.equal(result.verification_status, 'REJECTED');
+    assert.deepEqual(reasonCodes(result), ['FMCSA_OUT_OF_SERVICE']);
+    assert.equal(result.metadata?.fmcsa_status, 'OUT_OF_SERVICE');
+    assert.equal(result.metadata?.carrier_info?.out_of_service_date, '2024-05-01');
+  });
+
+  it('rejects an MC unknown to FMCSA', async () => {
+    const result = await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.NOT_FOUND }));
+
+    assert.equal(result.verification_status, 'REJECTED');
+    assert.deepEqual(reasonCodes(result), ['FMCSA_NOT_FOUND']);
+    assert.equal(result.metadata?.fmcsa_status, 'NOT_FOUND');
+    assert.equal(result.metadata?.carrier_info, undefined);
+  });
+
+  it('sends a load to review when FMCSA times out, without failing the dependent checks', async () => {
+    const result = await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.TIMEOUT }), { mode: 'exhaustive' });
+
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.deepEqual(reasonCodes(result), ['FMCSA_TIMEOUT']);
+    assert.equal(result.metadata?.fmcsa_status, 'TIMEOUT');
+    assert.equal(result.metadata?.broker_identity_check, 'SKIPPED');
+    assert.equal(result.metadata?.authority_check?.status, 'SKIPPED');
+  });
+
+  it('asks FMCSA once per verification, even while it is failing', async () => {
+    const requested: string[] = [];
+    const provider = new FixtureFMCSAProvider(FMCSA_FIXTURES_FILE);
+    const get = provider.get.bind(provider);
+    provider.get = resource => {
+      requested.push(resource);
+      return get(resource);
+    };
+    setFMCSAProvider(provider);
+
+    await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.SERVER_ERROR }), { mode: 'exhaustive' });
+    assert.deepEqual(requested, [FIXTURE_MCS.SERVER_ERROR]);
+
+    requested.length = 0;
+    const result = await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.ACTIVE }));
+    assert.equal(result.metadata?.authority_check?.status, 'PASSED');
+    assert.equal(requested.filter(resource => resource === FIXTURE_MCS.ACTIVE).length, 1);
+  });
+
+  for (const [name, mc] of [
+    ['a malformed payload', FIXTURE_MCS.MALFORMED_BODY],
+    ['an upstream 5xx', FIXTURE_MCS.SERVER_ERROR],
+  ]) {
+    it(`sends a load to review on ${name}`, async () => {
+      const result = await verifyLoad(baseLoad({ broker_mc: mc }));
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['FMCSA_ERROR']);
+      assert.equal(result.metadata?.fmcsa_status, 'ERROR');
+    });
+  }
+
+  it('flags a submitted broker name that does not match the FMCSA legal name', async () => {
+    const result = await verifyLoad(baseLoad({ broker_name: 'Totally Different Freight' }));
+
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.deepEqual(reasonCodes(result), ['BROKER_NAME_MISMATCH']);
+    assert.equal(result.metadata?.broker_identity_check, 'MISMATCH');
+    assert.equal(result.metadata?.carrier_info?.identity_match?.submitted_name, 'Totally Different Freight');
+  });
+
+  it('flags a recently granted broker authority', async () => {
+    const grantedAt = new Date(Date.now() - 30 * 86400000).toISOString().slice(0, 10);
+    useOfflineServices({
+      '300001': { status: 200, body: { content: { carrier: { dotNumber: 3000001, legalName: 'TEST LOGISTICS LLC', allowedToOperate: 'Y', bondInsuranceOnFile: '75' } } } },
+      '3000001/authority': { status: 200, body: { content: [{ carrierAuthority: { authorizedForBroker: 'Y', brokerAuthorityStatus: 'A', brokerAuthorityGrantDate: grantedAt } }] } },
+    });
+
+    const result = await verifyLoad(baseLoad({ broker_mc: '300001' }));
+
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.deepEqual(reasonCodes(result), ['AUTHORITY_TOO_NEW']);
+    assert.equal(result.metadata?.authority_check?.status, 'FLAGGED');
+    assert.equal(result.metadata?.authority_check?.authority_age_days, 30);
+  });
+
+  it('reports FMCSA as not configured when the live provider has no API key', async () => {
+    const apiKey = process.env.FMCSA_API_KEY;
+    delete process.env.FMCSA_API_KEY;
+    setFMCSAProvider(new HttpFMCSAProvider());
+
+    try {
+      const result = await verifyLoad(baseLoad());
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['FMCSA_NOT_CONFIGURED']);
+      assert.equal(result.metadata?.fmcsa_status, 'SKIPPED');
+    } finally {
+      if (apiKey !== undefined) process.env.FMCSA_API_KEY = apiKey;
+      setFMCSAProvider(new FixtureFMCSAProvider({}));
+    }
+  });
+});
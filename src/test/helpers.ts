@@ -0,0 +1,85 @@
+/**
+ * Test Helpers
+ * Offline wiring shared by the test files - in-memory stores and the FMCSA fixture provider
+ */
+
+import path from 'path';
+import { LoadVerificationInput, VerificationResult } from '../services/verificationService';
+import { ReasonCode } from '../services/reasonCodes';
+import { setAuditStore, MemoryAuditStore } from '../services/auditLog';
+import { createListEntry, setBrokerListStore } from '../services/brokerLists';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { setRecentLoadIndex, MemoryRecentLoadIndex } from '../services/duplicateDetection';
+import { setFMCSACacheStore, setFMCSAProvider, MemoryFMCSACacheStore } from '../services/fmcsaClient';
+import { FixtureFMCSAProvider, FMCSAFixtureSet } from '../services/fmcsaProvider';
+import { setReviewStore } from '../services/reviewQueue';
+import { setBrokerDataProvider, NoBrokerDataProvider } from '../services/brokerData';
+
+export const FMCSA_FIXTURES_FILE = path.join(__dirname, 'fixtures', 'fmcsa.json');
+
+// MC numbers with canned FMCSA responses (see fixtures/fmcsa.json)
+export const FIXTURE_MCS = {
+  ACTIVE: '123456',
+  NOT_AUTHORIZED: '200001',
+  OUT_OF_SERVICE: '200002',
+  NOT_FOUND: '200003',
+  TIMEOUT: '200004',
+  MALFORMED_BODY: '200005',
+  MALFORMED_CARRIER: '200006',
+  SERVER_ERROR: '200007',
+};
+
+// A load every default check passes against the fixtures
+export function baseLoad(overrides: Partial<LoadVerificationInput> = {}): LoadVerificationInput {
+  return {
+    load_id: 'test-load-001',
+    broker_name: 'Test Logistics',
+    broker_mc: FIXTURE_MCS.ACTIVE,
+    credit_score: 85,
+    posted_at: minutesAgo(10),
+    pickup_city: 'Chicago, IL',
+    delivery_city: 'Atlanta, GA',
+    rate: 2400,
+    equipment: 'Dry Van',
+    ...overrides,
+  };
+}
+
+export function minutesAgo(minutes: number): string {
+  return new Date(Date.now() - minutes * 60 * 1000).toISOString();
+}
+
+// Fresh in-memory stores and FMCSA fixtures - call from beforeEach so no state leaks between tests
+export function useOfflineServices(fixtures: FMCSAFixtureSet | string = FMCSA_FIXTURES_FILE): void {
+  setAuditStore(new MemoryAuditStore());
+  setBrokerListStore(new MemoryDocumentStore());
+  setReviewStore(new MemoryDocumentStore());
+  setRecentLoadIndex(new MemoryRecentLoadIndex());
+  setFMCSACacheStore(new MemoryFMCSACacheStore());
+  setFMCSAProvider(new FixtureFMCSAProvider(fixtures));
+  setBrokerDataProvider(new NoBrokerDataProvider());
+}
+
+// List entries referenced by the list tests
+export async function seedBrokerLists(): Promise<void> {
+  await createListEntry({
+    list: 'block',
+    field: 'mc',
+    value: 'MC-666666',
+    reason: 'Reported double-brokering scam',
+    author: 'test-suite',
+  });
+
+  await createListEntry({
+    list: 'allow',
+    field: 'email',
+    value: '@trustedpartners.com',
+    reason: 'Vetted partner',
+    author: 'test-suite',
+    waives: ['CREDIT_ABOVE_MAX'],
+  });
+}
+
+export function reasonCodes(result: VerificationResult): ReasonCode[] {
+  return result.reasons.map(reason => reason.code);
+}
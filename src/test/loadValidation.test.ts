@@ -0,0 +1,107 @@
+/**
+ * Load Validation - Test Suite
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLoadBatch, parseLoadInput } from '../services/loadValidation';
+import { batchInputError, optionErrors } from '../routes/requestHelpers';
+import { baseLoad } from './helpers';
+
+describe('parseLoadInput', () => {
+  it('coerces and normalizes fields and drops unknown ones', () => {
+    const result = parseLoadInput({
+      ...baseLoad({ posted_at: '2026-03-02T09:00:00-06:00' }),
+      load_id: 1042,
+      broker_name: '  Test   Logistics ',
+      broker_mc: 'MC-0123456',
+      credit_score: '85',
+      pickup_city: 'St. Louis MO 63101',
+      delivery_city: 'Atlanta, ga',
+      rate: '$2,400.50',
+      equipment: 'reefer',
+      broker_email: 'Dispatch@Example.com',
+      notes: 'not part of the schema',
+    });
+
+    assert.ok(result.ok);
+    assert.deepEqual(result.load, {
+      load_id: '1042',
+      broker_name: 'Test Logistics',
+      broker_mc: '123456',
+      credit_score: 85,
+      posted_at: '2026-03-02T15:00:00.000Z',
+      pickup_city: 'Saint Louis, MO',
+      delivery_city: 'Atlanta, GA',
+      rate: 2400.5,
+      equipment: 'Reefer',
+      broker_email: 'dispatch@example.com',
+    });
+  });
+
+  it('reports every field error at once', () => {
+    const result = parseLoadInput({
+      load_id: 'L1',
+      broker_mc: 'ABC123',
+      credit_score: 140,
+      posted_at: 'yesterday',
+      pickup_city: 'Chicago',
+      delivery_city: 'Springfield, ZZ',
+      rate: 0,
+      equipment: 'Dry Van',
+    });
+
+    assert.ok(!result.ok);
+    assert.deepEqual(result.errors.map(e => [e.field, e.code]), [
+      ['broker_name', 'required'],
+      ['broker_mc', 'invalid_format'],
+      ['credit_score', 'out_of_range'],
+      ['posted_at', 'invalid_format'],
+      ['pickup_city', 'invalid_format'],
+      ['delivery_city', 'invalid_format'],
+      ['rate', 'out_of_range'],
+    ]);
+  });
+
+  it('keeps unrecognized equipment for the rate check to report', () => {
+    const result = parseLoadInput(baseLoad({ equipment: 'Conestoga' }));
+    assert.ok(result.ok && result.load.equipment === 'Conestoga');
+  });
+});
+
+describe('parseLoadBatch', () => {
+  it('validates items one by one', () => {
+    const { loads, invalid } = parseLoadBatch([baseLoad({ load_id: 'A' }), { load_id: 'B' }, 'not a load']);
+
+    assert.deepEqual(loads.map(load => load.load_id), ['A']);
+    assert.deepEqual(invalid.map(item => [item.index, item.load_id, item.errors.length]), [
+      [1, 'B', 8],
+      [2, null, 1],
+    ]);
+  });
+});
+
+describe('optionErrors', () => {
+  it('reports every invalid verification option as a field error', () => {
+    const errors = optionErrors({ policy_id: 7, mode: 'thorough', evaluated_at: '2999-01-01T00:00:00Z' });
+
+    assert.deepEqual(errors.map(error => [error.field, error.code]), [
+      ['policy_id', 'invalid_type'],
+      ['mode', 'invalid_format'],
+      ['evaluated_at', 'out_of_range'],
+    ]);
+    assert.deepEqual(optionErrors({ mode: 'fast' }), []);
+  });
+});
+
+describe('batchInputError', () => {
+  it('reports invalid options and invalid loads in one response', () => {
+    const { invalid } = parseLoadBatch([baseLoad(), { ...baseLoad(), rate: 'TBD' }]);
+    const body = batchInputError(optionErrors({ mode: 'thorough' }), invalid, 2);
+
+    assert.equal(body?.message, 'mode must be "fast" or "exhaustive"; 1 of 2 loads failed validation');
+    assert.deepEqual(body?.errors.map(error => error.field), ['mode']);
+    assert.deepEqual(body?.items.map(item => item.index), [1]);
+    assert.equal(batchInputError([], [], 2), null);
+  });
+});
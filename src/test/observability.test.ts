@@ -0,0 +1,99 @@
+/**
+ * Logging & Metrics - Test Suite
+ */
+
+import { describe, it, beforeEach, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../server';
+import { verifyLoad } from '../services/verificationService';
+import { getVerification } from '../services/auditLog';
+import { getLogContext, redact, runWithLogContext } from '../services/logger';
+import { metrics, renderMetrics, resetMetrics } from '../services/metrics';
+import { baseLoad, useOfflineServices, FIXTURE_MCS } from './helpers';
+
+describe('redact', () => {
+  it('masks secret fields and secret-looking substrings', () => {
+    const redacted = redact({
+      api_key: 'lva_0123456789ab_c2VjcmV0',
+      headers: { Authorization: 'Bearer abc.def', 'x-api-key': 'whatever' },
+      key_id: '0123456789ab',
+      message: 'GET https://fmcsa.example/carriers/123?webKey=topsecret failed for lva_0123456789ab_c2VjcmV0',
+      error: new Error('token Bearer abc123 rejected'),
+    }) as Record<string, any>;
+
+    assert.equal(redacted.api_key, '[REDACTED]');
+    assert.deepEqual(redacted.headers, { Authorization: '[REDACTED]', 'x-api-key': '[REDACTED]' });
+    assert.equal(redacted.key_id, '0123456789ab');
+    assert.equal(redacted.message, 'GET https://fmcsa.example/carriers/123?webKey=[REDACTED] failed for lva_0123456789ab_[REDACTED]');
+    assert.equal(redacted.error.message, 'token Bearer [REDACTED] rejected');
+  });
+});
+
+describe('metrics', () => {
+  beforeEach(() => {
+    useOfflineServices();
+    resetMetrics();
+  });
+
+  it('counts decisions, reasons, check latency and FMCSA outcomes', async () => {
+    await verifyLoad(baseLoad({ load_id: 'M1' }));
+    await verifyLoad(baseLoad({ load_id: 'M2', broker_mc: FIXTURE_MCS.TIMEOUT, pickup_city: 'Dallas, TX' }));
+
+    assert.equal(metrics.verifications.get({ status: 'APPROVED', mode: 'fast' }), 1);
+    assert.equal(metrics.verifications.get({ status: 'NEEDS_REVIEW', mode: 'fast' }), 1);
+    assert.equal(metrics.reasons.get({ code: 'FMCSA_TIMEOUT', severity: 'review' }), 1);
+    assert.equal(metrics.fmcsaRequests.get({ outcome: 'ok' }), 1);
+    // Checks that depend on FMCSA retry the lookup, so a timing-out MC counts once per attempt
+    assert.ok(metrics.fmcsaRequests.get({ outcome: 'timeout' }) >= 1);
+
+    const text = renderMetrics();
+    assert.match(text, /^# TYPE lva_check_duration_seconds histogram$/m);
+    assert.match(text, /^lva_check_duration_seconds_count\{check="fmcsa",status="completed"\} 2$/m);
+  });
+
+  it('leaves dry runs out', async () => {
+    await verifyLoad(baseLoad(), { dry_run: true });
+    assert.equal(metrics.verifications.get({ status: 'APPROVED', mode: 'fast' }), 0);
+  });
+});
+
+describe('request context', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => useOfflineServices());
+
+  it('echoes a caller-supplied request id and generates one otherwise', async () => {
+    const supplied = await fetch(`${baseUrl}/health`, { headers: { 'X-Request-Id': 'board-trace-42' } });
+    assert.equal(supplied.headers.get('x-request-id'), 'board-trace-42');
+
+    const generated = await fetch(`${baseUrl}/health`, { headers: { 'X-Request-Id': 'bad id with spaces' } });
+    assert.match(generated.headers.get('x-request-id')!, /^[0-9a-f-]{36}$/);
+  });
+
+  it('records the request id on decisions made inside the request', async () => {
+    const result = await runWithLogContext({ request_id: 'req-123' }, async () => {
+      assert.equal(getLogContext()?.request_id, 'req-123');
+      return verifyLoad(baseLoad());
+    });
+
+    assert.equal((await getVerification(result.verification_id!))?.request_id, 'req-123');
+  });
+
+  it('serves Prometheus text at /metrics', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type')!, /^text\/plain/);
+    assert.match(await response.text(), /^# TYPE lva_verifications_total counter$/m);
+  });
+});
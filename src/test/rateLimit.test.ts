@@ -0,0 +1,87 @@
+/**
+ * Rate Limiting - Test Suite
+ */
+
+import { describe, it, beforeEach, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import app from '../server';
+import { consumeRateLimit, getQuotaUsage, setRateLimitStore, MemoryRateLimitStore, RedisRestRateLimitStore } from '../services/rateLimiter';
+import { issueApiKey, setApiKeyStore } from '../services/apiKeyStore';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { baseLoad, useOfflineServices } from './helpers';
+
+const LIMITS = { capacity: 10, refill_per_second: 0.001, daily_quota: 100, monthly_quota: 0 };
+
+describe('consumeRateLimit', () => {
+  beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()));
+
+  it('leaves the bucket untouched when the quota refuses the request', async () => {
+    const refused = await consumeRateLimit('key-1', 3, { ...LIMITS, daily_quota: 2 });
+
+    assert.equal(refused.allowed, false);
+    assert.equal(refused.reason, 'daily_quota');
+    assert.equal(refused.tokens_remaining, 10);
+
+    const next = await consumeRateLimit('key-1', 2, { ...LIMITS, daily_quota: 2 });
+    assert.equal(next.allowed, true);
+    assert.equal(next.tokens_remaining, 8);
+  });
+});
+
+describe('RedisRestRateLimitStore', () => {
+  it('gives up on a store that never answers', async () => {
+    // Accepts the request and never responds
+    const hanging = createServer(() => undefined).listen(0);
+    await new Promise(resolve => hanging.once('listening', resolve));
+
+    try {
+      const store = new RedisRestRateLimitStore(`http://127.0.0.1:${(hanging.address() as AddressInfo).port}`, 'token', 50);
+      await assert.rejects(store.takeTokens('key-1', 1, 10, 1, Date.now()), { name: 'TimeoutError' });
+    } finally {
+      hanging.closeAllConnections();
+      await new Promise(resolve => hanging.close(resolve));
+    }
+  });
+});
+
+describe('rate limit middleware', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    useOfflineServices();
+    setApiKeyStore(new MemoryDocumentStore());
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  it('refunds a batch the route rejects as invalid', async () => {
+    const { key, info } = await issueApiKey({ client_name: 'Board', scopes: ['verify:batch'], rate_limits: LIMITS });
+    const post = (loads: unknown[]) => fetch(`${baseUrl}/api/verify/batch`, {
+      method: 'POST',
+      headers: { 'X-API-Key': key, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ loads }),
+    });
+
+    const oversized = await post(Array.from({ length: 60 }, (_, i) => baseLoad({ load_id: `L${i}` })));
+    assert.equal(oversized.status, 400);
+
+    // The refund runs once the response has gone out
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal((await getQuotaUsage(info.id, LIMITS))[0].used, 0);
+
+    const valid = await post([baseLoad()]);
+    assert.equal(valid.status, 200);
+    assert.equal(valid.headers.get('X-RateLimit-Remaining'), '9');
+    assert.equal((await getQuotaUsage(info.id, LIMITS))[0].used, 1);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Readiness & Circuit Breaker - Test Suite
+ */
+
+import { describe, it, beforeEach, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import app from '../server';
+import { CircuitBreaker, CircuitOpenError } from '../services/circuitBreaker';
+import { describeFMCSA, lookupCarrier, FMCSAUnavailableError } from '../services/fmcsaClient';
+import { verifyLoad } from '../services/verificationService';
+import { ReadinessReport } from '../services/readiness';
+import { issueApiKey, setApiKeyStore } from '../services/apiKeyStore';
+import { MemoryDocumentStore } from '../services/documentStore';
+import { baseLoad, reasonCodes, useOfflineServices, FIXTURE_MCS } from './helpers';
+
+const failing = () => Promise.reject(new Error('upstream down'));
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and fast-fails while open', async () => {
+    const breaker = new CircuitBreaker('test', { failure_threshold: 2, reset_timeout_ms: 60000 });
+    let calls = 0;
+    const counted = () => { calls++; return failing(); };
+
+    await assert.rejects(breaker.execute(counted), /upstream down/);
+    assert.equal(breaker.getState(), 'CLOSED');
+    await assert.rejects(breaker.execute(counted), /upstream down/);
+    assert.equal(breaker.getState(), 'OPEN');
+
+    await assert.rejects(breaker.execute(counted), CircuitOpenError);
+    assert.equal(calls, 2);
+    assert.ok(breaker.snapshot().retry_at);
+  });
+
+  it('ignores errors the upstream is not to blame for', async () => {
+    const breaker = new CircuitBreaker('test', { failure_threshold: 1, reset_timeout_ms: 60000 }, error => !(error instanceof RangeError));
+
+    await assert.rejects(breaker.execute(() => Promise.reject(new RangeError('bad input'))));
+    assert.equal(breaker.getState(), 'CLOSED');
+  });
+
+  it('lets one trial through after the reset timeout and closes on success', async () => {
+    const breaker = new CircuitBreaker('test', { failure_threshold: 1, reset_timeout_ms: 20 });
+
+    await assert.rejects(breaker.execute(failing));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal(breaker.getState(), 'HALF_OPEN');
+
+    let release!: () => void;
+    const trial = breaker.execute(() => new Promise<string>(resolve => { release = () => resolve('ok'); }));
+    await assert.rejects(breaker.execute(failing), CircuitOpenError);
+
+    release();
+    assert.equal(await trial, 'ok');
+    assert.equal(breaker.getState(), 'CLOSED');
+    assert.equal(breaker.snapshot().consecutive_failures, 0);
+  });
+
+  it('re-opens when the trial fails', async () => {
+    const breaker = new CircuitBreaker('test', { failure_threshold: 3, reset_timeout_ms: 20 });
+
+    for (let i = 0; i < 3; i++) await assert.rejects(breaker.execute(failing));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await assert.rejects(breaker.execute(failing), /upstream down/);
+
+    assert.equal(breaker.getState(), 'OPEN');
+  });
+});
+
+describe('FMCSA circuit breaker', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('fast-fails lookups once FMCSA keeps timing out', async () => {
+    const threshold = describeFMCSA().breaker.failure_threshold;
+
+    for (let i = 0; i < threshold; i++) {
+      await assert.rejects(lookupCarrier(FIXTURE_MCS.TIMEOUT));
+    }
+
+    assert.equal(describeFMCSA().breaker.state, 'OPEN');
+    await assert.rejects(lookupCarrier(FIXTURE_MCS.ACTIVE), (error: unknown) =>
+      error instanceof FMCSAUnavailableError && error.kind === 'CIRCUIT_OPEN'
+    );
+
+    const result = await verifyLoad(baseLoad());
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    assert.ok(reasonCodes(result).includes('FMCSA_ERROR'));
+  });
+
+  it('does not count a missing MC as a failure', async () => {
+    await lookupCarrier(FIXTURE_MCS.NOT_FOUND);
+    assert.equal(describeFMCSA().breaker.consecutive_failures, 0);
+  });
+});
+
+describe('readiness and diagnostics', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  beforeEach(() => {
+    useOfflineServices();
+    setApiKeyStore(new MemoryDocumentStore());
+  });
+
+  it('reports ready when FMCSA answers and storage is writable', async () => {
+    const response = await fetch(`${baseUrl}/ready`);
+    const body = await response.json() as ReadinessReport;
+
+    assert.equal(response.status, 200);
+    assert.equal(body.status, 'ready');
+    assert.equal(body.dependencies.fmcsa.status, 'ok');
+    assert.equal(body.dependencies.fmcsa.probe?.reachable, true);
+    assert.equal(body.dependencies.storage.status, 'ok');
+  });
+
+  it('stays in rotation but reports degraded while the FMCSA breaker is open', async () => {
+    const threshold = describeFMCSA().breaker.failure_threshold;
+    for (let i = 0; i < threshold; i++) {
+      await assert.rejects(lookupCarrier(FIXTURE_MCS.TIMEOUT));
+    }
+
+    const response = await fetch(`${baseUrl}/ready`);
+    const body = await response.json() as ReadinessReport;
+
+    assert.equal(response.status, 200);
+    assert.equal(body.status, 'degraded');
+    assert.equal(body.dependencies.fmcsa.status, 'down');
+    assert.equal(body.dependencies.fmcsa.breaker.state, 'OPEN');
+    assert.equal(body.dependencies.fmcsa.probe, null);
+  });
+
+  it('serves diagnostics to admins only, without secret values', async () => {
+    const { key: verifyKey } = await issueApiKey({ client_name: 'Board', scopes: ['verify'] });
+    const { key: adminKey } = await issueApiKey({ client_name: 'Ops', scopes: ['admin'] });
+
+    const forbidden = await fetch(`${baseUrl}/admin/diagnostics`, { headers: { 'X-API-Key': verifyKey } });
+    assert.equal(forbidden.status, 403);
+
+    const response = await fetch(`${baseUrl}/admin/diagnostics`, { headers: { 'X-API-Key': adminKey } });
+    const text = await response.text();
+    const body = JSON.parse(text);
+
+    assert.equal(response.status, 200);
+    assert.equal(typeof body.configured.FMCSA_API_KEY, 'boolean');
+    assert.equal(body.fmcsa.breaker.state, 'CLOSED');
+    assert.ok(!text.includes(adminKey));
+    if (process.env.API_KEY) assert.ok(!text.includes(process.env.API_KEY.substring(0, 10)));
+  });
+
+  it('no longer serves /debug/env', async () => {
+    const response = await fetch(`${baseUrl}/debug/env`);
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Review Queue - Test Suite
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyLoad } from '../services/verificationService';
+import {
+  claimReviewItem,
+  decideReviewItem,
+  listReviewItems,
+  releaseReviewItem,
+  resolvedStatus,
+  reviewsForVerifications,
+  InvalidReviewActionError,
+  ReviewConflictError,
+  Reviewer,
+} from '../services/reviewQueue';
+import { fixedClock, getClock, setClock, systemClock } from '../services/clock';
+import { baseLoad, useOfflineServices, FIXTURE_MCS } from './helpers';
+
+const NOW = '2026-03-02T15:00:00.000Z';
+
+const DANA: Reviewer = { id: 'key-dana', name: 'dana' };
+const SAM: Reviewer = { id: 'key-sam', name: 'sam' };
+
+describe('review queue', () => {
+  beforeEach(() => {
+    useOfflineServices();
+    setClock(fixedClock(NOW));
+  });
+
+  afterEach(() => setClock(systemClock));
+
+  function postedJustNow(): string {
+    return new Date(getClock().now() - 10 * 60 * 1000).toISOString();
+  }
+
+  async function reviewLoad(loadId = 'R1') {
+    const result = await verifyLoad(
+      baseLoad({ load_id: loadId, broker_mc: FIXTURE_MCS.TIMEOUT, posted_at: postedJustNow() }),
+      { caller: { key_id: 'key-1', client_name: 'acme' } }
+    );
+    assert.equal(result.verification_status, 'NEEDS_REVIEW');
+    return result;
+  }
+
+  it('opens an item with an SLA deadline for NEEDS_REVIEW decisions only', async () => {
+    const result = await reviewLoad();
+    await verifyLoad(baseLoad({ load_id: 'OK1', posted_at: postedJustNow(), pickup_city: 'Dallas, TX' }));
+
+    const items = await listReviewItems();
+    assert.equal(items.length, 1);
+    assert.equal(items[0].verification_id, result.verification_id);
+    assert.equal(items[0].client_name, 'acme');
+    assert.equal(items[0].status, 'OPEN');
+    assert.deepEqual(items[0].reasons, ['FMCSA_TIMEOUT']);
+    assert.equal(items[0].sla_due_at, '2026-03-02T19:00:00.000Z');
+  });
+
+  it('keeps dry runs out of the queue', async () => {
+    await verifyLoad(baseLoad({ broker_mc: FIXTURE_MCS.TIMEOUT }), { dry_run: true });
+    assert.equal((await listReviewItems()).length, 0);
+  });
+
+  it('lets only the claiming reviewer release or decide an item', async () => {
+    await reviewLoad();
+    const [item] = await listReviewItems();
+
+    await claimReviewItem(item.id, DANA);
+    await assert.rejects(claimReviewItem(item.id, SAM), ReviewConflictError);
+    await assert.rejects(decideReviewItem(item.id, SAM, 'APPROVED', 'Called the broker'), ReviewConflictError);
+
+    const released = await releaseReviewItem(item.id, DANA);
+    assert.equal(released.status, 'OPEN');
+    assert.equal(released.assignee, null);
+  });
+
+  it('decides claims by the caller identity, not the reviewer label', async () => {
+    await reviewLoad();
+    const [item] = await listReviewItems();
+
+    await claimReviewItem(item.id, DANA);
+    await assert.rejects(decideReviewItem(item.id, { ...SAM, name: 'dana' }, 'APPROVED', 'Called the broker'), ReviewConflictError);
+
+    const decided = await decideReviewItem(item.id, DANA, 'APPROVED', 'Called the broker');
+    assert.equal(decided.decision?.decided_by, 'dana');
+    assert.equal(decided.decision?.decided_by_id, 'key-dana');
+  });
+
+  it('lets only one of two concurrent decisions win', async () => {
+    await reviewLoad();
+    const [item] = await listReviewItems();
+
+    const outcomes = await Promise.allSettled([
+      decideReviewItem(item.id, DANA, 'APPROVED', 'Called the broker'),
+      decideReviewItem(item.id, DANA, 'REJECTED', 'Broker did not answer'),
+    ]);
+
+    assert.equal(outcomes[0].status, 'fulfilled');
+    assert.equal(outcomes[1].status, 'rejected');
+    assert.ok(outcomes[1].status === 'rejected' && outcomes[1].reason instanceof ReviewConflictError);
+    assert.equal((await listReviewItems())[0].status, 'APPROVED');
+  });
+
+  it('requires a justification and links the decision back to the verification', async () => {
+    const result = await reviewLoad();
+    const [item] = await listReviewItems();
+
+    await assert.rejects(decideReviewItem(item.id, DANA, 'REJECTED', '  '), InvalidReviewActionError);
+
+    setClock(fixedClock('2026-03-02T20:00:00.000Z'));
+    const decided = await decideReviewItem(item.id, DANA, 'APPROVED', 'FMCSA confirmed active by phone');
+
+    assert.equal(decided.status, 'APPROVED');
+    assert.equal(decided.decision?.within_sla, false);
+    await assert.rejects(decideReviewItem(item.id, DANA, 'REJECTED', 'Changed my mind'), ReviewConflictError);
+
+    const review = (await reviewsForVerifications([result.verification_id!])).get(result.verification_id!);
+    assert.equal(resolvedStatus(result.verification_status, review), 'APPROVED');
+  });
+
+  it('filters overdue items', async () => {
+    await reviewLoad('R1');
+    setClock(fixedClock('2026-03-02T17:00:00.000Z'));
+    await reviewLoad('R2');
+
+    setClock(fixedClock('2026-03-02T19:30:00.000Z'));
+    assert.deepEqual((await listReviewItems({ overdue: true })).map(item => item.load_id), ['R1']);
+    assert.deepEqual((await listReviewItems({ overdue: false })).map(item => item.load_id), ['R2']);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Policy Simulation - Test Suite
+ */
+
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { runSimulation, loadsFromAudit } from '../services/simulation';
+import { parseLoadFile, LoadFileError } from '../services/loadFiles';
+import { buildPolicy, DEFAULT_POLICY } from '../services/policyService';
+import { getVerification, queryVerifications, setAuditStore, MemoryAuditStore } from '../services/auditLog';
+import { verifyLoad } from '../services/verificationService';
+import { lookupCarrier } from '../services/fmcsaClient';
+import { setBrokerDataProvider, ImportBrokerDataProvider } from '../services/brokerData';
+import { baseLoad, useOfflineServices, FIXTURE_MCS } from './helpers';
+
+const SEEN_AT = '2026-03-01T10:10:00.000Z';
+
+// Credit floor raised from 82 to 88
+const CANDIDATE = buildPolicy({ id: 'candidate', version: '2', checks: { credit_score: { min: 88 } } }, 'candidate');
+
+describe('parseLoadFile', () => {
+  it('reads CSV with quoted cells and numeric columns', () => {
+    const rows = parseLoadFile(
+      'load_id,broker_mc,credit_score,pickup_city,rate\nL1,123456,85,"Chicago, IL",2400\nL2,123456,,"Say ""hi""",\n',
+      'csv'
+    );
+
+    assert.deepEqual(rows, [
+      { load_id: 'L1', broker_mc: '123456', credit_score: 85, pickup_city: 'Chicago, IL', rate: 2400 },
+      { load_id: 'L2', broker_mc: '123456', pickup_city: 'Say "hi"' },
+    ]);
+  });
+
+  it('reports every malformed JSONL line', () => {
+    assert.throws(() => parseLoadFile('{"load_id":"L1"}\nnot json\n[1]\n', 'jsonl'), (error: unknown) =>
+      error instanceof LoadFileError && error.problems.length === 2 && error.problems[1].startsWith('line 3')
+    );
+  });
+});
+
+describe('runSimulation', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('reports status transitions, reason counts and changed verdicts', async () => {
+    const report = await runSimulation({
+      loads: [
+        { ...baseLoad({ load_id: 'L1', credit_score: 85, posted_at: '2026-03-01T10:00:00.000Z' }), evaluated_at: SEEN_AT },
+        { ...baseLoad({ load_id: 'L2', credit_score: 90, posted_at: '2026-03-01T10:00:00.000Z', pickup_city: 'Dallas, TX' }), evaluated_at: SEEN_AT },
+        { ...baseLoad({ load_id: 'L3' }), broker_mc: 'unknown', rate: 'TBD' },
+      ],
+      baseline: DEFAULT_POLICY,
+      candidate: CANDIDATE,
+      carriers: { [FIXTURE_MCS.ACTIVE]: (await lookupCarrier(FIXTURE_MCS.ACTIVE)).carrier! },
+    });
+
+    assert.equal(report.evaluated, 2);
+    assert.deepEqual(report.skipped, [{ index: 2, load_id: 'L3', error: 'broker_mc must be an MC number such as 123456 or MC-123456; rate must be a number' }]);
+    assert.deepEqual(report.status_counts.baseline, { total: 2, approved: 2, rejected: 0, needs_review: 0 });
+    assert.deepEqual(report.status_counts.candidate, { total: 2, approved: 1, rejected: 1, needs_review: 0 });
+    assert.deepEqual(report.transitions, [
+      { from: 'APPROVED', to: 'APPROVED', count: 1 },
+      { from: 'APPROVED', to: 'REJECTED', count: 1 },
+    ]);
+    assert.deepEqual(report.reason_counts, [{ code: 'CREDIT_BELOW_MIN', baseline: 0, candidate: 1, delta: 1 }]);
+    assert.equal(report.changed.length, 1);
+    assert.equal(report.changed[0].load_id, 'L1');
+    assert.deepEqual(report.changed[0].added_reasons, ['CREDIT_BELOW_MIN']);
+    assert.deepEqual(report.missing_inputs.fmcsa, []);
+  });
+
+  it('flags loads whose MC has no recorded FMCSA data', async () => {
+    const report = await runSimulation({
+      loads: [{ ...baseLoad({ posted_at: '2026-03-01T10:00:00.000Z' }), evaluated_at: SEEN_AT }],
+      baseline: DEFAULT_POLICY,
+      candidate: CANDIDATE,
+      carriers: {},
+    });
+
+    assert.deepEqual(report.missing_inputs.fmcsa, [FIXTURE_MCS.ACTIVE]);
+    assert.deepEqual(report.reason_counts.find(r => r.code === 'FMCSA_ERROR'), { code: 'FMCSA_ERROR', baseline: 1, candidate: 1, delta: 0 });
+  });
+
+  it('replays audited verifications without writing to the audit log', async () => {
+    await verifyLoad(baseLoad({ load_id: 'A1' }));
+    await verifyLoad(baseLoad({ load_id: 'A2', broker_mc: FIXTURE_MCS.NOT_FOUND }));
+
+    const history = await loadsFromAudit({});
+    assert.equal(history.loads.length, 2);
+    assert.equal(history.carriers[FIXTURE_MCS.NOT_FOUND], null);
+    assert.equal(history.carriers[FIXTURE_MCS.ACTIVE]?.legal_name, 'TEST LOGISTICS LLC');
+
+    const report = await runSimulation({
+      loads: history.loads as unknown as Record<string, unknown>[],
+      baseline: DEFAULT_POLICY,
+      candidate: CANDIDATE,
+      carriers: history.carriers,
+    });
+
+    assert.deepEqual(report.status_counts.baseline, { total: 2, approved: 1, rejected: 1, needs_review: 0 });
+    assert.deepEqual(report.changed.map(c => c.load_id), ['A1']);
+    assert.equal((await queryVerifications({})).total, 2);
+  });
+
+  it('replays the broker data profiles the audited verifications were decided on', async () => {
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ mc_number: FIXTURE_MCS.ACTIVE, credit_score: 84, days_to_pay: 30 }]));
+    await verifyLoad(baseLoad({ load_id: 'B1', credit_score: 85 }));
+
+    // Today's data would flag the load - the replay must still see the profile it was decided on
+    setBrokerDataProvider(new ImportBrokerDataProvider([{ mc_number: FIXTURE_MCS.ACTIVE, credit_score: 40, days_to_pay: 90 }]));
+
+    const history = await loadsFromAudit({});
+    assert.equal(history.broker_profiles[FIXTURE_MCS.ACTIVE]?.credit_score, 84);
+
+    const report = await runSimulation({
+      loads: history.loads as unknown as Record<string, unknown>[],
+      baseline: DEFAULT_POLICY,
+      candidate: DEFAULT_POLICY,
+      carriers: history.carriers,
+      broker_profiles: history.broker_profiles,
+    });
+
+    assert.equal(report.broker_data_source, 'recorded');
+    assert.deepEqual(report.status_counts.baseline, { total: 1, approved: 1, rejected: 0, needs_review: 0 });
+    assert.deepEqual(report.reason_counts, []);
+    assert.deepEqual(report.missing_inputs.broker_data, []);
+  });
+
+  it('pages past the audit query limit and reports a capped replay as truncated', async () => {
+    const result = await verifyLoad(baseLoad());
+    const record = (await getVerification(result.verification_id!))!;
+    const store = new MemoryAuditStore();
+    setAuditStore(store);
+
+    for (let i = 0; i < 620; i++) {
+      const created = new Date(Date.parse(record.created_at) - i * 1000).toISOString();
+      await store.save({ ...record, verification_id: `v-${i}`, input: { ...record.input, load_id: `L${i}` }, created_at: created });
+    }
+
+    const all = await loadsFromAudit({});
+    assert.equal(all.loads.length, 620);
+    assert.equal(new Set(all.loads.map(load => load.load_id)).size, 620);
+    assert.equal(all.truncated, false);
+
+    const capped = await loadsFromAudit({ limit: 550 });
+    assert.equal(capped.loads.length, 550);
+    assert.equal(capped.truncated, true);
+  });
+});
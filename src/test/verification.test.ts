@@ -0,0 +1,309 @@
+/**
+ * Load Verification - Test Suite
+ * Runs verifyLoad end to end against in-memory stores and the FMCSA fixtures
+ */
+
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyLoad } from '../services/verificationService';
+import { getVerification } from '../services/auditLog';
+import { createListEntry } from '../services/brokerLists';
+import { VerificationCheck } from '../services/checkPipeline';
+import { checkRegistry } from '../checks';
+import { fixedClock, setClock, systemClock } from '../services/clock';
+import { baseLoad, minutesAgo, reasonCodes, seedBrokerLists, useOfflineServices } from './helpers';
+
+describe('verifyLoad', () => {
+  beforeEach(() => useOfflineServices());
+
+  it('approves a perfect load: good credit, fresh, active MC with broker authority', async () => {
+    const result = await verifyLoad(baseLoad());
+
+    assert.equal(result.verification_status, 'APPROVED');
+    assert.deepEqual(result.reasons, []);
+    assert.ok(result.risk_score! < 40, `risk score ${result.risk_score} should be below the review band`);
+    assert.equal(result.metadata?.fmcsa_status, 'ACTIVE');
+    assert.equal(result.metadata?.carrier_info?.legal_name, 'TEST LOGISTICS LLC');
+    assert.equal(result.metadata?.broker_identity_check, 'MATCHED');
+    assert.equal(result.metadata?.authority_check?.status, 'PASSED');
+    assert.equal(result.metadata?.authority_check?.bond_on_file, true);
+    assert.equal(result.metadata?.credit_score_check, 'PASSED');
+    assert.equal(result.metadata?.load_age_minutes, 10);
+  });
+
+  it('records the decision in the audit log', async () => {
+    const result = await verifyLoad(baseLoad());
+    const audit = await getVerification(result.verification_id!);
+
+    assert.equal(audit?.verification_status, result.verification_status);
+    assert.deepEqual(audit?.checks.map(c => c.check), [
+      'lists', 'duplicates', 'credit_score', 'fmcsa', 'freshness', 'broker_identity', 'authority', 'rate',
+    ]);
+    assert.ok(audit?.checks.every(c => c.status === 'completed'));
+  });
+
+  describe('credit score', () => {
+    it('rejects a score below the minimum (81 < 82)', async () => {
+      const result = await verifyLoad(baseLoad({ credit_score: 81 }));
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['CREDIT_BELOW_MIN']);
+      assert.deepEqual(result.reasons[0].params, { score: 81, min: 82 });
+    });
+
+    it('rejects a very low score (50) and skips the remaining checks in fast mode', async () => {
+      const result = await verifyLoad(baseLoad({ credit_score: 50 }));
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['CREDIT_BELOW_MIN']);
+      assert.deepEqual(result.metadata?.checks_skipped, ['fmcsa', 'freshness', 'broker_identity', 'authority', 'rate']);
+    });
+
+    it('flags a suspiciously high score (98 > 97) for review', async () => {
+      const result = await verifyLoad(baseLoad({ credit_score: 98 }));
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['CREDIT_ABOVE_MAX']);
+    });
+
+    it('applies the strict policy minimum (85 < 88)', async () => {
+      const result = await verifyLoad(baseLoad(), { policy_id: 'strict' });
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['CREDIT_BELOW_MIN']);
+      assert.equal(result.policy?.id, 'strict');
+      assert.equal(result.reasons[0].params.min, 88);
+    });
+  });
+
+  describe('freshness', () => {
+    const NOW = Date.parse('2026-03-02T15:00:00.000Z');
+    const postedMinutesBefore = (time: number, minutes: number) => new Date(time - minutes * 60 * 1000).toISOString();
+
+    beforeEach(() => setClock(fixedClock(NOW)));
+    afterEach(() => setClock(systemClock));
+
+    it('rejects a load older than the threshold (90 > 60 minutes)', async () => {
+      const result = await verifyLoad(baseLoad({ posted_at: postedMinutesBefore(NOW, 90) }));
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['LOAD_STALE']);
+      assert.equal(result.metadata?.load_age_minutes, 90);
+      assert.equal(result.verified_at, '2026-03-02T15:00:00.000Z');
+    });
+
+    it('flags a somewhat stale load (45 minutes) for review', async () => {
+      const result = await verifyLoad(baseLoad({ posted_at: postedMinutesBefore(NOW, 45) }));
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['LOAD_AGING']);
+    });
+
+    it('treats a posted_at slightly ahead of the clock as just posted', async () => {
+      const result = await verifyLoad(baseLoad({ posted_at: postedMinutesBefore(NOW, -3) }));
+
+      assert.equal(result.verification_status, 'APPROVED');
+      assert.equal(result.metadata?.load_age_minutes, 0);
+    });
+
+    it('flags a posted_at further in the future than the skew tolerance', async () => {
+      const result = await verifyLoad(baseLoad({ posted_at: postedMinutesBefore(NOW, -120) }));
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['LOAD_POSTED_IN_FUTURE']);
+      assert.deepEqual(result.reasons[0].params, { minutes_ahead: 120, tolerance_minutes: 5 });
+      assert.equal(result.metadata?.load_age_minutes, -120);
+    });
+
+    it('evaluates a historical load as of evaluated_at', async () => {
+      const seenAt = NOW - 24 * 60 * 60 * 1000;
+      const load = baseLoad({ posted_at: postedMinutesBefore(seenAt, 10) });
+
+      const live = await verifyLoad(load);
+      const replayed = await verifyLoad(load, { evaluated_at: new Date(seenAt).toISOString() });
+      const audit = await getVerification(replayed.verification_id!);
+
+      assert.deepEqual(reasonCodes(live), ['LOAD_STALE']);
+      assert.equal(replayed.verification_status, 'APPROVED');
+      assert.equal(replayed.metadata?.load_age_minutes, 10);
+      assert.equal(replayed.metadata?.evaluated_at, new Date(seenAt).toISOString());
+      assert.equal(replayed.verified_at, '2026-03-02T15:00:00.000Z');
+      assert.equal(audit?.options.evaluated_at, new Date(seenAt).toISOString());
+    });
+  });
+
+  describe('rate', () => {
+    it('rejects a rate far above the Dry Van market range for Chicago -> Atlanta', async () => {
+      const result = await verifyLoad(baseLoad({ rate: 9000 }));
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['RATE_IMPLAUSIBLY_HIGH']);
+      assert.equal(result.metadata?.rate_check?.status, 'IMPLAUSIBLY_HIGH');
+    });
+  });
+
+  describe('evaluation modes and locales', () => {
+    it('reports every failing check in exhaustive mode', async () => {
+      const result = await verifyLoad(
+        baseLoad({ credit_score: 81, posted_at: minutesAgo(90) }),
+        { mode: 'exhaustive' }
+      );
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['CREDIT_BELOW_MIN', 'LOAD_STALE']);
+      assert.equal(result.metadata?.evaluation_mode, 'exhaustive');
+      assert.equal(result.metadata?.checks_skipped, undefined);
+    });
+
+    it('renders reason messages in Spanish', async () => {
+      const result = await verifyLoad(baseLoad({ credit_score: 81 }), { locale: 'es' });
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.equal(result.reasons[0].message, 'Puntaje de crédito 81 por debajo del mínimo permitido (82)');
+    });
+  });
+
+  describe('broker lists', () => {
+    beforeEach(() => seedBrokerLists());
+
+    it('rejects an MC on the internal blocklist (entered as "MC-666666")', async () => {
+      const result = await verifyLoad(baseLoad({ broker_mc: '666666' }));
+
+      assert.equal(result.verification_status, 'REJECTED');
+      assert.deepEqual(reasonCodes(result), ['BROKER_BLOCKLISTED']);
+      assert.equal(result.metadata?.list_check?.status, 'BLOCKED');
+      assert.equal(result.metadata?.list_check?.matches[0].value, 'MC-666666');
+    });
+
+    it('lets an allowlisted email domain waive the high credit score warning', async () => {
+      const result = await verifyLoad(baseLoad({ credit_score: 99, broker_email: 'dispatch@trustedpartners.com' }));
+
+      assert.equal(result.verification_status, 'APPROVED');
+      assert.deepEqual(reasonCodes(result), ['BROKER_ALLOWLISTED']);
+      assert.deepEqual(result.metadata?.waived_findings?.map(finding => finding.code), ['CREDIT_ABOVE_MAX']);
+    });
+
+    it('does not let an allowlisted name waive the name mismatch when submitted under another MC', async () => {
+      await createListEntry({
+        list: 'allow',
+        field: 'broker_name',
+        value: 'Trusted Partners Freight',
+        reason: 'Vetted partner',
+        author: 'test-suite',
+      });
+
+      const result = await verifyLoad(baseLoad({ broker_name: 'Trusted Partners Freight' }));
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.ok(reasonCodes(result).includes('BROKER_NAME_MISMATCH'));
+      assert.equal(result.metadata?.waived_findings, undefined);
+    });
+  });
+
+  describe('duplicates', () => {
+    it('flags the same lane, equipment and rate band posted by two other MCs within the hour', async () => {
+      await verifyLoad(baseLoad({ load_id: 'dup-a', broker_mc: '222222', rate: 2350 }));
+      await verifyLoad(baseLoad({ load_id: 'dup-b', broker_mc: '333333', rate: 2450, pickup_city: 'Chicago IL 60601' }));
+
+      const result = await verifyLoad(baseLoad());
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['LOAD_DOUBLE_BROKERED']);
+      assert.deepEqual(result.metadata?.duplicate_check?.matching_load_ids.sort(), ['dup-a', 'dup-b']);
+    });
+
+    it('flags a load_id resubmitted with a different rate', async () => {
+      const load = baseLoad();
+      await verifyLoad(load);
+
+      const result = await verifyLoad({ ...load, rate: 3100 });
+      const codes = reasonCodes(result);
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.ok(codes.includes('LOAD_ID_REUSED'));
+      assert.ok(!codes.includes('LOAD_DOUBLE_BROKERED'));
+      assert.deepEqual(result.metadata?.duplicate_check?.reused_load_id?.changed_fields, ['rate']);
+    });
+
+    it('scopes load_id reuse to the submitting client', async () => {
+      const acme = { key_id: 'key-acme', client_name: 'acme' };
+      await verifyLoad(baseLoad({ load_id: '1001' }), { caller: acme });
+
+      const other = await verifyLoad(baseLoad({ load_id: '1001', rate: 3100 }), { caller: { key_id: 'key-globex', client_name: 'globex' } });
+      assert.ok(!reasonCodes(other).includes('LOAD_ID_REUSED'));
+
+      const same = await verifyLoad(baseLoad({ load_id: '1001', rate: 3100 }), { caller: acme });
+      assert.ok(reasonCodes(same).includes('LOAD_ID_REUSED'));
+    });
+
+    it('matches lanes across clients without revealing the other client\'s loads', async () => {
+      await verifyLoad(baseLoad({ load_id: 'theirs-a', broker_mc: '222222', rate: 2350 }), { caller: { key_id: 'key-globex', client_name: 'globex' } });
+      await verifyLoad(baseLoad({ load_id: 'theirs-b', broker_mc: '333333', rate: 2450 }), { caller: { key_id: 'key-globex', client_name: 'globex' } });
+
+      const result = await verifyLoad(baseLoad(), { caller: { key_id: 'key-acme', client_name: 'acme' } });
+
+      assert.deepEqual(reasonCodes(result), ['LOAD_DOUBLE_BROKERED']);
+      assert.deepEqual(result.metadata?.duplicate_check?.matching_load_ids, []);
+      assert.deepEqual(result.metadata?.duplicate_check?.matching_loads, []);
+      assert.equal(result.metadata?.duplicate_check?.other_client_matches, 2);
+    });
+
+    it('forgets loads once the injected clock passes the retention window', async () => {
+      const indexedAt = Date.parse('2026-03-02T15:00:00.000Z');
+      setClock(fixedClock(indexedAt));
+      await verifyLoad(baseLoad({ posted_at: new Date(indexedAt).toISOString() }));
+
+      const later = indexedAt + 8 * 24 * 60 * 60 * 1000;
+      setClock(fixedClock(later));
+      const result = await verifyLoad(baseLoad({ posted_at: new Date(later).toISOString(), rate: 3100 }));
+      setClock(systemClock);
+
+      assert.ok(!reasonCodes(result).includes('LOAD_ID_REUSED'));
+    });
+  });
+
+  describe('check pipeline', () => {
+    const extraChecks: VerificationCheck[] = [];
+
+    afterEach(() => {
+      extraChecks.splice(0).forEach(check => checkRegistry.unregister(check.name));
+    });
+
+    function register(check: VerificationCheck) {
+      checkRegistry.register(check);
+      extraChecks.push(check);
+    }
+
+    it('turns a throwing check into a review finding while the other checks still run', async () => {
+      register({
+        name: 'always_throws',
+        async evaluate() {
+          throw new Error('upstream exploded');
+        },
+      });
+
+      const result = await verifyLoad(baseLoad(), { mode: 'exhaustive' });
+      const audit = await getVerification(result.verification_id!);
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['CHECK_FAILED']);
+      assert.equal(result.reasons[0].message, 'Check "always_throws" failed: upstream exploded');
+      assert.equal(result.metadata?.fmcsa_status, 'ACTIVE');
+      assert.equal(audit?.checks.find(c => c.check === 'always_throws')?.status, 'failed');
+    });
+
+    it('abandons a check that exceeds its timeout and flags the result for review', async () => {
+      register({
+        name: 'never_returns',
+        timeout_ms: 50,
+        evaluate: () => new Promise(resolve => setTimeout(() => resolve({ risk: 0, findings: [], metadata: {} }), 1000)),
+      });
+
+      const result = await verifyLoad(baseLoad());
+
+      assert.equal(result.verification_status, 'NEEDS_REVIEW');
+      assert.deepEqual(reasonCodes(result), ['CHECK_TIMEOUT']);
+      assert.deepEqual(result.reasons[0].params, { check: 'never_returns', timeout_ms: 50 });
+    });
+  });
+});